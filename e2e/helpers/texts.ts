@@ -1,55 +1,64 @@
+import { en } from '../../src/i18n/en'
+
 /**
  * Text library for E2E tests
- * Centralizes all text content to avoid hardcoding in tests and page objects
+ * Texts are taken from the English message catalog so tests and page objects
+ * neither hardcode nor duplicate them.
  */
-
 export const AppTexts = {
   header: {
-    title: 'Tredgate Loan',
-    tagline: 'Simple loan application management',
+    title: en['app.title'],
+    tagline: en['app.tagline'],
   },
   loanForm: {
-    heading: 'New Loan Application',
+    heading: en['loanForm.heading'],
     labels: {
-      applicantName: 'Applicant Name',
-      amount: 'Loan Amount ($)',
-      termMonths: 'Term (Months)',
-      interestRate: 'Interest Rate (e.g., 0.08 for 8%)',
+      applicantName: en['loanForm.applicantName'],
+      amount: en['loanForm.amount'],
+      termMonths: en['loanForm.termMonths'],
+      interestRate: en['loanForm.interestRate'],
     },
-    submitButton: 'Create Application',
+    submitButton: en['loanForm.submit'],
+    draftButton: en['loanForm.saveDraft'],
   },
   loanList: {
-    heading: 'Loan Applications',
-    emptyState: 'No loan applications yet. Create one using the form.',
+    heading: en['loanList.heading'],
+    emptyState: en['loanList.empty'],
     columns: {
-      applicant: 'Applicant',
-      amount: 'Amount',
-      term: 'Term',
-      rate: 'Rate',
-      monthlyPayment: 'Monthly Payment',
-      status: 'Status',
-      created: 'Created',
-      actions: 'Actions',
+      applicant: en['column.applicant'],
+      amount: en['column.amount'],
+      term: en['column.term'],
+      rate: en['column.rate'],
+      monthlyPayment: en['column.monthlyPayment'],
+      status: en['column.status'],
+      created: en['column.created'],
+      actions: en['column.actions'],
     },
   },
   loanSummary: {
     labels: {
-      totalApplications: 'Total Applications',
-      pending: 'Pending',
-      approved: 'Approved',
-      rejected: 'Rejected',
-      totalApproved: 'Total Approved',
+      totalApplications: en['summary.total'],
+      pending: en['summary.pending'],
+      approved: en['summary.approved'],
+      rejected: en['summary.rejected'],
+      totalApproved: en['summary.totalApproved'],
     },
   },
   deleteModal: {
-    title: 'Delete Loan Application',
-    cancelButton: 'Cancel',
-    deleteButton: 'Delete',
+    title: en['loanList.deleteTitle'],
+    cancelButton: en['common.cancel'],
+    deleteButton: en['common.delete'],
   },
   status: {
-    pending: 'pending',
-    approved: 'approved',
-    rejected: 'rejected',
+    draft: en['status.draft'],
+    submitted: en['status.submitted'],
+    underReview: en['status.under_review'],
+    approved: en['status.approved'],
+    rejected: en['status.rejected'],
+    withdrawn: en['status.withdrawn'],
+    disbursed: en['status.disbursed'],
+    repaid: en['status.repaid'],
+    defaulted: en['status.defaulted'],
   },
 }
 
@@ -45,7 +45,7 @@ test.describe('Tredgate Loan Application - Regression Tests', () => {
       await loanPage.expectLoanTableToBeVisible()
       await loanPage.expectLoanCount(1)
       await loanPage.expectLoanApplicantName(0, TestData.validLoan.applicantName)
-      await loanPage.expectLoanStatus(0, AppTexts.status.pending)
+      await loanPage.expectLoanStatus(0, AppTexts.status.submitted)
     })
 
     test('should clear form fields after successful submission', async () => {
@@ -16,11 +16,24 @@ export default tseslint.config(
         window: 'readonly',
         document: 'readonly',
         setTimeout: 'readonly',
+        clearTimeout: 'readonly',
         HTMLButtonElement: 'readonly',
+        HTMLInputElement: 'readonly',
+        Event: 'readonly',
         KeyboardEvent: 'readonly'
       }
     }
   },
+  {
+    files: ['mock-server/**/*.js'],
+    languageOptions: {
+      globals: {
+        process: 'readonly',
+        console: 'readonly',
+        URL: 'readonly'
+      }
+    }
+  },
   {
     ignores: ['dist/', 'node_modules/', '*.config.js', '*.config.ts']
   },
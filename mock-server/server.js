@@ -0,0 +1,68 @@
+/**
+ * Minimal key/value storage server for the HTTP storage backend.
+ * Data is kept in memory and lost when the server stops.
+ *
+ * Usage: npm run mock-server  (then start the app with
+ * VITE_STORAGE_BACKEND=http VITE_STORAGE_URL=http://localhost:3001)
+ */
+import { createServer } from 'node:http'
+
+const PORT = Number(process.env.PORT) || 3001
+const store = new Map()
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type'
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' })
+  res.end(body === undefined ? '' : JSON.stringify(body))
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = ''
+    req.on('data', chunk => {
+      body += chunk
+    })
+    req.on('end', () => resolve(body))
+    req.on('error', reject)
+  })
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`)
+  const match = url.pathname.match(/^\/storage(?:\/(.+))?$/)
+
+  if (req.method === 'OPTIONS') {
+    return send(res, 204)
+  }
+  if (!match) {
+    return send(res, 404, { error: 'Not found' })
+  }
+
+  const key = match[1] ? decodeURIComponent(match[1]) : null
+
+  if (req.method === 'GET' && !key) {
+    return send(res, 200, Object.fromEntries(store))
+  }
+  if (req.method === 'GET' && key) {
+    return store.has(key) ? send(res, 200, store.get(key)) : send(res, 404, { error: 'Not found' })
+  }
+  if (req.method === 'PUT' && key) {
+    store.set(key, await readBody(req))
+    return send(res, 204)
+  }
+  if (req.method === 'DELETE' && key) {
+    store.delete(key)
+    return send(res, 204)
+  }
+
+  return send(res, 405, { error: 'Method not allowed' })
+})
+
+server.listen(PORT, () => {
+  console.log(`Mock storage server listening on http://localhost:${PORT}`)
+})
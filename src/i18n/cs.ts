@@ -0,0 +1,467 @@
+import type { Messages } from './index'
+
+/**
+ * Czech messages
+ * Plural messages also have a `.few` form, used for 2 to 4.
+ */
+export const cs: Messages = {
+  'app.title': 'Tredgate Loan',
+  'app.tagline': 'Jednoduchá správa žádostí o úvěr',
+  'app.logoAlt': 'Logo Tredgate',
+  'app.conflict': 'Tento úvěr byl mezitím změněn jinde — načíst znovu?',
+  'app.actionFailed': 'Akce se nezdařila',
+  'app.storageInitFailed': 'Nastavené úložiště se nepodařilo načíst. Úvěry se do jeho obnovení ukládají jen v tomto prohlížeči.',
+  'app.storageNewerSchema': 'Uložené úvěry byly uloženy novější verzí aplikace a zde je nelze zobrazit ani změnit. Aplikaci aktualizujte, úvěry nezadávejte znovu.',
+  'app.storageWriteFailed': 'Některé změny se nepodařilo uložit do úložiště. Zůstávají jen v této záložce; po obnovení stránky uvidíte, co bylo uloženo.',
+
+  'nav.rules': 'Rozhodovací pravidla',
+  'nav.trash': 'Koš ({count})',
+  'nav.backup': 'Záloha',
+  'nav.officerName': 'Jméno úředníka',
+  'nav.officerNameHint': 'Jméno zaznamenané v historii změn',
+  'nav.language': 'Jazyk',
+  'nav.applicants': 'Žadatelé',
+
+  'common.cancel': 'Zrušit',
+  'common.close': 'Zavřít',
+  'common.delete': 'Smazat',
+  'common.reload': 'Načíst znovu',
+  'common.backToLoans': 'Zpět na úvěry',
+  'common.termShort': '{count} měs.',
+
+  'status.draft': 'koncept',
+  'status.submitted': 'podaná',
+  'status.under_review': 'v posouzení',
+  'status.approved': 'schválená',
+  'status.rejected': 'zamítnutá',
+  'status.withdrawn': 'stažená',
+  'status.disbursed': 'vyplacená',
+  'status.repaid': 'splacená',
+  'status.defaulted': 'nesplácená',
+
+  'column.applicant': 'Žadatel',
+  'column.amount': 'Částka',
+  'column.term': 'Doba',
+  'column.rate': 'Úrok',
+  'column.monthlyPayment': 'Měsíční splátka',
+  'column.score': 'Skóre',
+  'column.status': 'Stav',
+  'column.created': 'Vytvořeno',
+  'column.balance': 'Zůstatek',
+  'column.nextDue': 'Další splátka',
+  'column.deleted': 'Smazáno',
+  'column.actions': 'Akce',
+
+  'validation.applicantNameRequired': 'Jméno žadatele je povinné',
+  'validation.amountNotANumber': 'Částka musí být číslo',
+  'validation.amountNotPositive': 'Částka musí být větší než 0',
+  'validation.currencyUnsupported': 'Měna {currency} není podporována',
+  'validation.termNotANumber': 'Doba splácení musí být číslo',
+  'validation.termNotPositive': 'Doba splácení musí být větší než 0',
+  'validation.termNotWhole': 'Doba splácení musí být celý počet měsíců',
+  'validation.rateNotANumber': 'Úroková sazba musí být číslo',
+  'validation.rateNegative': 'Úroková sazba nesmí být záporná',
+  'validation.incomeNotPositive': 'Měsíční příjem musí být větší než 0',
+  'validation.obligationsNegative': 'Měsíční splátky závazků nesmí být záporné',
+  'validation.productUnknown': 'Úvěrový produkt {product} neexistuje',
+  'validation.amountOutsideProduct': 'Částka musí být u tohoto produktu mezi {min} a {max} {currency}',
+  'validation.termNotOffered': 'Tento produkt se nabízí na dobu {terms} měsíců',
+  'validation.rateOutsideProduct': 'Úroková sazba musí být u tohoto produktu mezi {min} a {max}',
+  'validation.paymentNotPositive': 'Částka platby musí být větší než 0',
+  'validation.paymentDateInvalid': 'Datum platby musí být platné datum, které není v budoucnosti',
+  'validation.paymentExceedsBalance': 'Platba nemůže překročit nesplacený zůstatek {balance}',
+  'validation.applicantUnknown': 'Vybraný žadatel neexistuje',
+  'validation.dateOfBirthInvalid': 'Datum narození musí být platné datum v minulosti',
+  'validation.emailInvalid': 'E-mailová adresa není platná',
+  'validation.nationalIdTaken': 'Žadatel s rodným číslem {nationalId} je již registrován',
+  'validation.incomeInvalid': 'Měsíční příjem nesmí být záporný',
+  'validation.ruleNameRequired': 'Pravidlo {index} musí mít název',
+  'validation.ruleConditionsRequired': 'Pravidlo „{name}“ musí mít alespoň jednu podmínku',
+  'validation.conditionFieldRequired': 'Pravidlo „{name}“ má podmínku bez pole',
+  'validation.conditionOperatorUnknown': 'Pravidlo „{name}“ má neznámý operátor „{operator}“',
+  'validation.conditionValueRequired': 'Pravidlo „{name}“ má podmínku bez hodnoty',
+  'validation.maxDtiInvalid': 'Maximální poměr dluhu k příjmu musí být větší než 0',
+  'validation.affordabilityOutcomeInvalid': 'Úvěry nad limitem poměru dluhu k příjmu musí být zamítnuty nebo postoupeny, ne {outcome}',
+  'validation.scorecardInvalid': 'Všechny hodnoty skóre, bodů a hranic ve skóringové kartě musí být čísla',
+  'validation.scoreBandsUnordered': 'Pásmo {band} musí začínat na nižším skóre než pásmo {better}',
+  'validation.csvEmpty': 'Soubor CSV je prázdný',
+  'validation.csvMissingColumn': 'Chybí sloupec „{column}“',
+  'validation.backupNotJson': 'Soubor zálohy není platný JSON',
+  'validation.backupWrongFormat': 'Soubor není záloha Tredgate',
+  'validation.backupNoVersion': 'Záloha nemá platnou verzi',
+  'validation.backupTooNew': 'Verze zálohy {version} je novější než podporovaná verze {supported}',
+  'validation.backupSchemaTooNew': 'Úvěry v záloze používají verzi schématu {version}, novější než podporovaná verze {supported}',
+  'validation.backupLoansUnreadable': 'Úvěry v záloze nelze načíst',
+  'validation.backupInvalidApplicants': 'Záloha obsahuje neplatné žadatele',
+  'validation.backupInvalidLoan': 'Úvěr {index} v záloze má neplatná pole: {fields}',
+  'validation.backupInvalidRules': 'Záloha obsahuje neplatná rozhodovací pravidla',
+  'validation.backupInvalidAuditLog': 'Záloha obsahuje neplatnou historii změn',
+  'validation.backupInvalidQuarantine': 'Záloha obsahuje neplatné záznamy v karanténě',
+  'validation.backupNoActor': 'Záloha neobsahuje jméno úředníka',
+
+  'errors.invalidTransition': 'Stav úvěru nelze změnit z „{from}“ na „{to}“',
+  'errors.newerSchema': 'Úvěry uložila novější verze aplikace; změny nelze uložit',
+
+  'undo.approved': 'Úvěr pro {name} byl schválen',
+  'undo.rejected': 'Úvěr pro {name} byl zamítnut',
+  'undo.referred': 'Úvěr pro {name} byl předán k posouzení',
+  'undo.deleted': 'Úvěr pro {name} byl přesunut do koše',
+  'undo.undo': 'Zpět',
+  'undo.dismiss': 'Skrýt',
+
+  'loanForm.heading': 'Nová žádost o úvěr',
+  'loanForm.applicant': 'Žadatel',
+  'loanForm.newApplicant': 'Nový žadatel',
+  'loanForm.applicantDetails': 'Údaje o žadateli (nepovinné)',
+  'loanForm.applicantName': 'Jméno žadatele',
+  'loanForm.applicantNamePlaceholder': 'Zadejte jméno žadatele',
+  'loanForm.product': 'Úvěrový produkt',
+  'loanForm.customProduct': 'Individuální podmínky',
+  'loanForm.productLimits': 'Částka {minAmount} – {maxAmount}, sazba {minRate} – {maxRate} p. a.',
+  'loanForm.selectTerm': 'Vyberte dobu splácení',
+  'loanForm.amount': 'Výše úvěru',
+  'loanForm.amountPlaceholder': 'Zadejte výši úvěru',
+  'loanForm.currency': 'Měna',
+  'loanForm.termMonths': 'Doba splácení (měsíce)',
+  'loanForm.termMonthsPlaceholder': 'Zadejte dobu v měsících',
+  'loanForm.interestRate': 'Úroková sazba (např. 0.08 pro 8 %)',
+  'loanForm.interestRatePlaceholder': 'Zadejte úrokovou sazbu',
+  'loanForm.rateRequired': 'Úroková sazba je povinná a nesmí být záporná',
+  'loanForm.monthlyIncome': 'Čistý měsíční příjem',
+  'loanForm.monthlyObligations': 'Stávající měsíční splátky',
+  'loanForm.affordabilityHint': 'Slouží k ověření, že je splátka únosná. Úvěry bez příjmu se neověřují.',
+  'loanForm.submit': 'Vytvořit žádost',
+  'loanForm.saveDraft': 'Uložit jako koncept',
+  'loanForm.createFailed': 'Žádost o úvěr se nepodařilo vytvořit',
+  'loanForm.applicantRegistered': 'Rodné číslo {nationalId} už je registrováno u žadatele {name}. Použijte registrovaného žadatele, nebo rodné číslo opravte.',
+  'loanForm.useRegisteredApplicant': 'Použít žadatele {name}',
+  'preview.heading': 'Náhled splátek',
+  'preview.hint': 'Zadejte částku, splatnost a sazbu a uvidíte výši splátky.',
+  'preview.whatIf': 'Co kdyby…',
+  'preview.installment': 'Splátka',
+  'preview.interest': 'Úroky',
+  'preview.apply': 'Použít tyto podmínky',
+
+  'loanList.heading': 'Žádosti o úvěr',
+  'loanList.export': 'Export CSV',
+  'loanList.exportHint': 'Exportovat zobrazené úvěry do CSV',
+  'loanList.import': 'Import CSV',
+  'loanList.importHint': 'Importovat úvěry z CSV',
+  'loanList.empty': 'Zatím žádné žádosti o úvěr. Vytvořte první pomocí formuláře.',
+  'loanList.noMatches': 'Filtrům neodpovídá žádná žádost o úvěr.',
+  'loanList.search': 'Hledat žadatele',
+  'loanList.allStatuses': 'Všechny stavy',
+  'loanList.rangeFrom': 'Od',
+  'loanList.rangeTo': 'Do',
+  'loanList.amountFrom': 'Částka od',
+  'loanList.amountTo': 'Částka do',
+  'loanList.rateFrom': 'Sazba od',
+  'loanList.rateTo': 'Sazba do',
+  'loanList.createdFrom': 'Vytvořeno od',
+  'loanList.createdTo': 'Vytvořeno do',
+  'loanList.clearFilters': 'Zrušit filtry',
+  'loanList.showing': 'Zobrazeno {shown} z {total} žádostí',
+  'loanList.sortBy': 'Seřadit podle: {column}',
+  'loanList.pagination': 'Stránky',
+  'loanList.pageSize': 'Řádků na stránku',
+  'loanList.pageRange': '{from}–{to} z {total}',
+  'loanList.pageInfo': 'Stránka {page} z {pages}',
+  'loanList.firstPage': 'První stránka',
+  'loanList.previousPage': 'Předchozí stránka',
+  'loanList.nextPage': 'Další stránka',
+  'loanList.lastPage': 'Poslední stránka',
+  'loanList.viewDetails': 'Zobrazit detail',
+  'loanList.approve': 'Schválit',
+  'loanList.reject': 'Zamítnout',
+  'loanList.autoDecide': 'Rozhodnout automaticky',
+  'loanList.submit': 'Podat',
+  'loanList.startReview': 'Zahájit posouzení',
+  'loanList.disburse': 'Vyplatit',
+  'loanList.markRepaid': 'Označit jako splacenou',
+  'loanList.markDefaulted': 'Označit jako nesplácenou',
+  'loanList.withdraw': 'Stáhnout',
+  'loanList.explain': 'Proč toto rozhodnutí?',
+  'loanList.schedule': 'Splátkový kalendář',
+  'loanList.offer': 'Nabídka úvěru',
+  'loanList.prepayment': 'Kalkulačka předčasného splacení',
+  'loanList.deleteTitle': 'Smazat žádost o úvěr',
+  'loanList.deleteMessage': 'Přesunout žádost o úvěr pro {name} do koše?',
+  'loanList.scheduleTitle': 'Splátkový kalendář – {name}',
+  'loanList.decisionTitle': 'Automatické rozhodnutí – {name}',
+  'loanList.offerTitle': 'Nabídka úvěru – {name}',
+  'loanList.prepaymentTitle': 'Kalkulačka předčasného splacení – {name}',
+  'loanList.detailTitle': 'Žádost o úvěr – {name}',
+  'loanList.print': 'Tisk / Uložit jako PDF',
+
+  'summary.total': 'Žádostí celkem',
+  'summary.pending': 'Čekající',
+  'summary.approved': 'Schválené',
+  'summary.rejected': 'Zamítnuté',
+  'summary.totalApproved': 'Schváleno celkem',
+
+  'detail.reference': 'Číslo žádosti',
+  'detail.product': 'Produkt',
+  'detail.edit': 'Upravit',
+  'detail.interestRate': 'Úroková sazba',
+  'detail.conflict': 'Tento úvěr byl během úprav změněn jinde — načíst znovu?',
+  'detail.save': 'Uložit změny',
+  'detail.history': 'Historie',
+  'detail.updateFailed': 'Žádost o úvěr se nepodařilo upravit',
+
+  'audit.empty': 'Žádné zaznamenané změny.',
+  'audit.action.created': 'Vytvořeno',
+  'audit.action.edited': 'Upraveno',
+  'audit.action.status_changed': 'Změna stavu',
+  'audit.action.auto_decided': 'Automaticky rozhodnuto',
+  'audit.action.reverted': 'Vráceno zpět',
+  'audit.action.deleted': 'Přesunuto do koše',
+  'audit.action.restored': 'Obnoveno',
+  'audit.action.purged': 'Trvale smazáno',
+  'audit.action.payment_recorded': 'Zaznamenána platba',
+  'audit.field.applicantName': 'Žadatel',
+  'audit.field.amount': 'Částka',
+  'audit.field.currency': 'Měna',
+  'audit.field.termMonths': 'Doba',
+  'audit.field.interestRate': 'Úrok',
+  'audit.field.status': 'Stav',
+  'audit.field.decision': 'Rozhodnutí',
+  'audit.field.deletedAt': 'Smazáno',
+  'audit.field.paidTotal': 'Celkem zaplaceno',
+  'audit.field.monthlyIncome': 'Příjem',
+  'audit.field.monthlyObligations': 'Závazky',
+  'audit.field.applicantId': 'Záznam žadatele',
+  'audit.field.productId': 'Produkt',
+
+  'schedule.installment': 'Měsíční splátka',
+  'schedule.totalInterest': 'Úroky celkem',
+  'schedule.totalRepayable': 'Celkem k úhradě',
+  'schedule.month': 'Měsíc',
+  'schedule.payment': 'Splátka',
+  'schedule.principal': 'Jistina',
+  'schedule.interest': 'Úrok',
+  'schedule.balance': 'Zůstatek',
+
+  'decision.outcome.approve': 'Schváleno',
+  'decision.outcome.reject': 'Zamítnuto',
+  'decision.outcome.refer': 'Předáno k ručnímu posouzení',
+  'decision.matchedRule': 'Použité pravidlo',
+  'decision.noRuleMatched': 'Žádné pravidlo neodpovídalo – použit výchozí výsledek',
+  'decision.ruleSetVersion': 'sada pravidel v{version}',
+  'decision.noChecks': 'Nebylo vyhodnoceno žádné pravidlo.',
+  'decision.check': 'Kontrola',
+  'decision.actual': 'Skutečnost',
+  'decision.result': 'Výsledek',
+  'decision.passed': '✓ splněno',
+  'decision.failed': '✗ nesplněno',
+  'decision.notProvided': 'neuvedeno',
+  'decision.affordabilityRule': 'Limit poměru dluhu k příjmu',
+
+  'ruleField.amount': 'Částka',
+  'ruleField.termMonths': 'Doba (měsíce)',
+  'ruleField.interestRate': 'Úroková sazba',
+  'ruleField.dti': 'Poměr dluhu k příjmu',
+  'ruleField.disposableIncome': 'Disponibilní příjem',
+  'ruleField.creditScore': 'Kreditní skóre',
+
+  'rules.heading': 'Rozhodovací pravidla',
+  'rules.currentVersion': 'Aktuální verze:',
+  'rules.evaluationOrder': 'Pravidla se vyhodnocují shora dolů; rozhoduje první odpovídající pravidlo.',
+  'rules.namePlaceholder': 'Název pravidla',
+  'rules.nameLabel': 'Název pravidla {index}',
+  'rules.moveUp': 'Posunout nahoru',
+  'rules.moveDown': 'Posunout dolů',
+  'rules.remove': 'Odebrat',
+  'rules.removeRule': 'Odebrat pravidlo',
+  'rules.match': 'Splnit',
+  'rules.matchAll': 'všechny podmínky (A)',
+  'rules.matchAny': 'kteroukoli podmínku (NEBO)',
+  'rules.field': 'Pole',
+  'rules.operator': 'Operátor',
+  'rules.value': 'Hodnota',
+  'rules.removeCondition': 'Odebrat podmínku',
+  'rules.addCondition': '+ Přidat podmínku',
+  'rules.then': 'Potom',
+  'rules.outcome.approve': 'Schválit',
+  'rules.outcome.reject': 'Zamítnout',
+  'rules.outcome.refer': 'Předat k ručnímu posouzení',
+  'rules.addRule': '+ Přidat pravidlo',
+  'rules.defaultOutcome': 'Když žádné pravidlo neodpovídá',
+  'rules.affordability': 'Únosnost',
+  'rules.affordabilityHint': 'Ověřuje se před pravidly u úvěrů s měsíčním příjmem. Poměr dluhu k příjmu = (stávající splátky + splátka) / příjem.',
+  'rules.limitDti': 'Omezit poměr dluhu k příjmu',
+  'rules.maxDti': 'Maximální poměr (např. 0,4 pro 40 %)',
+  'rules.dtiExceeded': 'Při překročení',
+  'rules.scorecard': 'Skóringová karta',
+  'rules.scorecardHint': 'Skóre je základní skóre plus body za každý atribut. Neznámé hodnoty a hodnoty mimo všechny rozsahy dostanou body za neznámou hodnotu. Pravidla mohou skóre použít jako podmínku.',
+  'rules.baseScore': 'Základní skóre',
+  'rules.unknownValue': 'Neznámá hodnota',
+  'rules.bands': 'Pásma skóre',
+  'rules.bandFrom': 'Pásmo {band} od',
+  'rules.lowestBand': 'Pásmo {band}: jakékoli nižší skóre',
+  'rules.saved': 'Uloženo jako verze {version}',
+  'rules.saveFailed': 'Sadu pravidel se nepodařilo uložit',
+  'rules.save': 'Uložit jako novou verzi',
+
+  'quarantine.message.one': '{count} uložený záznam nelze přečíst. Ostatní úvěry byly obnoveny a nečitelná data byla přesunuta do karantény.',
+  'quarantine.message.few': '{count} uložené záznamy nelze přečíst. Ostatní úvěry byly obnoveny a nečitelná data byla přesunuta do karantény.',
+  'quarantine.message.other': '{count} uložených záznamů nelze přečíst. Ostatní úvěry byly obnoveny a nečitelná data byla přesunuta do karantény.',
+  'quarantine.inspect': 'Zobrazit',
+  'quarantine.hide': 'Skrýt',
+  'quarantine.discard': 'Zahodit',
+  'quarantine.discardAll': 'Zahodit vše',
+
+  'trash.heading': 'Koš',
+  'trash.empty': 'Koš je prázdný.',
+  'trash.restore': 'Obnovit',
+  'trash.purge': 'Trvale smazat',
+  'trash.purgeTitle': 'Trvale smazat',
+  'trash.purgeMessage': 'Žádost o úvěr pro {name} bude trvale smazána. Tuto akci nelze vrátit.',
+
+  'csv.title': 'Import úvěrů z CSV',
+  'csv.help': 'Soubor musí mít řádek záhlaví se sloupci applicantName, amount, termMonths a interestRate (např. 0.08 nebo 8%) a volitelně currency ({currencies}; při vynechání {defaultCurrency}). Importované úvěry jsou podané.',
+  'csv.summary.one': 'Importovat lze {valid} z {count} řádku.',
+  'csv.summary.few': 'Importovat lze {valid} ze {count} řádků.',
+  'csv.summary.other': 'Importovat lze {valid} z {count} řádků.',
+  'csv.row': 'Řádek',
+  'csv.errors': 'Chyby',
+  'csv.import.one': 'Importovat {count} platný řádek',
+  'csv.import.few': 'Importovat {count} platné řádky',
+  'csv.import.other': 'Importovat {count} platných řádků',
+  'csv.readFailed': 'Soubor CSV se nepodařilo přečíst',
+  'csv.importFailed': 'Úvěry se nepodařilo importovat; nic nebylo importováno',
+
+  'backup.title': 'Záloha a obnovení',
+  'backup.backupHeading': 'Záloha',
+  'backup.backupHelp': 'Stáhněte všechny úvěry (včetně koše), žadatele, rozhodovací pravidla, historii změn, jméno úředníka a záznamy v karanténě jako jeden soubor JSON.',
+  'backup.download': 'Stáhnout zálohu',
+  'backup.restoreHeading': 'Obnovení',
+  'backup.summary.one': 'Záloha z {date} s {count} úvěrem: {added} nových, {changed} změněných, {removed} není v záloze.',
+  'backup.summary.few': 'Záloha z {date} se {count} úvěry: {added} nových, {changed} změněných, {removed} není v záloze.',
+  'backup.summary.other': 'Záloha z {date} s {count} úvěry: {added} nových, {changed} změněných, {removed} není v záloze.',
+  'backup.added': 'Nový: {name}',
+  'backup.changed': 'Změněný: {name}',
+  'backup.removed': 'Není v záloze: {name}',
+  'backup.ruleSetConflicts.one': 'Verze sady pravidel {versions} se v záloze a v tomto pracovním prostoru liší; sloučení ponechá současná pravidla.',
+  'backup.ruleSetConflicts.few': 'Verze sad pravidel {versions} se v záloze a v tomto pracovním prostoru liší; sloučení ponechá současná pravidla.',
+  'backup.ruleSetConflicts.other': 'Verze sad pravidel {versions} se v záloze a v tomto pracovním prostoru liší; sloučení ponechá současná pravidla.',
+  'backup.merge': 'Sloučit',
+  'backup.mergeHelp': 'přidá to, co má jen záloha, a vše ostatní ponechá; změněný úvěr se ze zálohy převezme, jen pokud je jeho revize novější.',
+  'backup.replace': 'Nahradit',
+  'backup.replaceHelp': 'zahodí aktuální data a obnoví zálohu přesně.',
+  'backup.readFailed': 'Soubor zálohy se nepodařilo přečíst',
+  'backup.restoreFailed': 'Zálohu se nepodařilo obnovit',
+
+  'affordability.heading': 'Únosnost',
+  'affordability.income': 'Měsíční příjem',
+  'affordability.obligations': 'Měsíční splátky',
+  'affordability.installment': 'Splátka',
+  'affordability.dti': 'Poměr dluhu k příjmu',
+  'affordability.disposableIncome': 'Disponibilní příjem',
+
+  'score.heading': 'Kreditní skóre',
+  'score.value': '{score} ({band})',
+  'score.ruleSetVersion': 'Skóringová karta sady pravidel v{version}',
+  'score.attribute': 'Atribut',
+  'score.attributeValue': 'Hodnota',
+  'score.points': 'Body',
+  'score.unknown': 'Neznámá',
+  'score.notScored': 'Zatím neohodnoceno',
+  'scoreAttribute.age': 'Věk',
+  'scoreAttribute.employment': 'Zaměstnání',
+  'scoreAttribute.monthlyIncome': 'Měsíční příjem',
+  'scoreAttribute.dti': 'Poměr dluhu k příjmu',
+  'scoreAttribute.amount': 'Částka',
+  'scoreAttribute.termMonths': 'Doba splácení',
+  'scoreBin.below': 'Pod {max}',
+  'scoreBin.from': '{min} a více',
+  'scoreBin.range': '{min} až pod {max}',
+
+  'product.personal': 'Spotřebitelský úvěr',
+  'product.auto': 'Úvěr na auto',
+  'product.mortgage': 'Hypotéka',
+  'product.refinancing': 'Refinancování',
+
+  'repayment.heading': 'Splácení',
+  'repayment.paidTotal': 'Zaplaceno',
+  'repayment.outstandingPrincipal': 'Nesplacená jistina',
+  'repayment.outstandingInterest': 'Nesplacené úroky',
+  'repayment.nextDue': 'Další splátka',
+  'repayment.nextDueValue': '{amount} dne {date}',
+  'repayment.paidOff': 'Splaceno',
+  'repayment.overdue': 'Po splatnosti',
+  'repayment.daysPastDue.one': '{count} den po splatnosti',
+  'repayment.daysPastDue.few': '{count} dny po splatnosti',
+  'repayment.daysPastDue.other': '{count} dní po splatnosti',
+  'repayment.payments': 'Platby',
+  'repayment.noPayments': 'Zatím nebyly zaznamenány žádné platby.',
+  'repayment.amount': 'Částka',
+  'repayment.paidOn': 'Zaplaceno dne',
+  'repayment.record': 'Zaznamenat platbu',
+  'repayment.recordFailed': 'Platbu se nepodařilo zaznamenat',
+  'prepayment.amount': 'Mimořádná splátka',
+  'prepayment.frequency': 'Četnost',
+  'prepayment.frequency.once': 'Jednorázově',
+  'prepayment.frequency.monthly': 'Každý měsíc',
+  'prepayment.frequency.yearly': 'Každý rok',
+  'prepayment.startMonth': 'Se splátkou č.',
+  'prepayment.hint': 'Zadejte mimořádnou splátku a číslo splátky od 1 do {term} pro porovnání možností.',
+  'prepayment.original': 'Bez mimořádné splátky',
+  'prepayment.strategy.shorten_term': 'Zkrátit splatnost',
+  'prepayment.strategy.reduce_installment': 'Snížit splátku',
+  'prepayment.installment': 'Splátka',
+  'prepayment.term': 'Splatnost',
+  'prepayment.totalInterest': 'Úroky celkem',
+  'prepayment.interestSaved': 'Ušetřené úroky',
+  'prepayment.schedule': 'Upravený splátkový kalendář',
+  'prepayment.prepayment': 'Mimořádná splátka',
+
+  'applicant.name': 'Jméno',
+  'applicant.dateOfBirth': 'Datum narození',
+  'applicant.email': 'E-mail',
+  'applicant.phone': 'Telefon',
+  'applicant.nationalId': 'Rodné číslo',
+  'applicant.monthlyIncome': 'Čistý měsíční příjem',
+  'applicant.employment': 'Zaměstnání',
+  'applicant.employer': 'Zaměstnavatel',
+  'applicant.notSpecified': 'Neuvedeno',
+
+  'employment.employed': 'Zaměstnanec',
+  'employment.self_employed': 'OSVČ',
+  'employment.unemployed': 'Nezaměstnaný',
+  'employment.retired': 'Důchodce',
+  'employment.student': 'Student',
+
+  'applicants.heading': 'Žadatelé',
+  'applicants.empty': 'Zatím žádní žadatelé. Žadatelé se registrují při vytvoření žádosti o úvěr.',
+  'applicants.contact': 'Kontakt',
+  'applicants.loans': 'Úvěry',
+  'applicants.exposure': 'Expozice',
+  'applicants.viewProfile': 'Zobrazit profil',
+  'applicants.profileTitle': 'Žadatel – {name}',
+
+  'profile.details': 'Údaje',
+  'profile.registered': 'Registrován',
+  'profile.exposure': 'Celková expozice',
+  'profile.exposureHint': 'Schválené, vyplacené a nesplácené úvěry',
+  'profile.noExposure': 'Žádná expozice',
+  'profile.loans': 'Úvěry',
+  'profile.noLoans': 'Tento žadatel nemá žádné úvěry.',
+
+  'offer.heading': 'Nabídka úvěru',
+  'offer.reference': 'Číslo žádosti',
+  'offer.applicationDate': 'Datum žádosti',
+  'offer.issued': 'Vystaveno',
+  'offer.applicant': 'Žadatel',
+  'offer.terms': 'Podmínky úvěru',
+  'offer.amount': 'Výše úvěru',
+  'offer.term': 'Doba splácení',
+  'offer.termValue.one': '{count} měsíc',
+  'offer.termValue.few': '{count} měsíce',
+  'offer.termValue.other': '{count} měsíců',
+  'offer.rate': 'Úroková sazba',
+  'offer.rateValue': '{rate} ročně',
+  'offer.schedule': 'Splátkový kalendář',
+  'offer.note': 'Splátky jsou splatné měsíčně, poprvé jeden měsíc po vyplacení. Kalendář předpokládá, že každá splátka je uhrazena v plné výši v den splatnosti.',
+  'offer.signApplicant': 'Žadatel',
+  'offer.signOfficer': 'Úvěrový pracovník'
+}
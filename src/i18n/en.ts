@@ -0,0 +1,464 @@
+/**
+ * English messages, the reference catalog
+ * Every other catalog must translate each of these keys. Keys ending in
+ * `.one`, `.few` or `.other` are plural forms, see tn().
+ */
+export const en = {
+  'app.title': 'Tredgate Loan',
+  'app.tagline': 'Simple loan application management',
+  'app.logoAlt': 'Tredgate Logo',
+  'app.conflict': 'This loan was changed elsewhere — reload?',
+  'app.actionFailed': 'Action failed',
+  'app.storageInitFailed': 'The configured storage could not be loaded. Loans are saved in this browser only until it is available again.',
+  'app.storageNewerSchema': 'The stored loans were saved by a newer version of the app and cannot be shown or changed here. Update the app instead of entering the loans again.',
+  'app.storageWriteFailed': 'Some changes could not be saved to the storage. They are kept in this tab only; reload to see what was saved.',
+
+  'nav.applicants': 'Applicants',
+  'nav.rules': 'Decision Rules',
+  'nav.trash': 'Trash ({count})',
+  'nav.backup': 'Backup',
+  'nav.officerName': 'Officer name',
+  'nav.officerNameHint': 'Name recorded in the audit trail',
+  'nav.language': 'Language',
+
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.delete': 'Delete',
+  'common.reload': 'Reload',
+  'common.backToLoans': 'Back to loans',
+  'common.termShort': '{count} mo',
+
+  'status.draft': 'draft',
+  'status.submitted': 'submitted',
+  'status.under_review': 'under review',
+  'status.approved': 'approved',
+  'status.rejected': 'rejected',
+  'status.withdrawn': 'withdrawn',
+  'status.disbursed': 'disbursed',
+  'status.repaid': 'repaid',
+  'status.defaulted': 'defaulted',
+
+  'column.applicant': 'Applicant',
+  'column.amount': 'Amount',
+  'column.term': 'Term',
+  'column.rate': 'Rate',
+  'column.monthlyPayment': 'Monthly Payment',
+  'column.score': 'Score',
+  'column.status': 'Status',
+  'column.created': 'Created',
+  'column.balance': 'Balance',
+  'column.nextDue': 'Next Due',
+  'column.deleted': 'Deleted',
+  'column.actions': 'Actions',
+
+  'validation.applicantNameRequired': 'Applicant name is required',
+  'validation.amountNotANumber': 'Amount must be a number',
+  'validation.amountNotPositive': 'Amount must be greater than 0',
+  'validation.currencyUnsupported': 'Currency {currency} is not supported',
+  'validation.termNotANumber': 'Term months must be a number',
+  'validation.termNotPositive': 'Term months must be greater than 0',
+  'validation.termNotWhole': 'Term months must be a whole number',
+  'validation.rateNotANumber': 'Interest rate must be a number',
+  'validation.rateNegative': 'Interest rate cannot be negative',
+  'validation.incomeNotPositive': 'Monthly income must be greater than 0',
+  'validation.obligationsNegative': 'Monthly obligations cannot be negative',
+  'validation.productUnknown': 'Loan product {product} does not exist',
+  'validation.amountOutsideProduct': 'Amount must be between {min} and {max} {currency} for this product',
+  'validation.termNotOffered': 'This product is offered for terms of {terms} months',
+  'validation.rateOutsideProduct': 'Interest rate must be between {min} and {max} for this product',
+  'validation.paymentNotPositive': 'Payment amount must be greater than 0',
+  'validation.paymentDateInvalid': 'Payment date must be a valid date that is not in the future',
+  'validation.paymentExceedsBalance': 'Payment cannot exceed the outstanding balance of {balance}',
+  'validation.applicantUnknown': 'The selected applicant does not exist',
+  'validation.dateOfBirthInvalid': 'Date of birth must be a valid date in the past',
+  'validation.emailInvalid': 'Email address is not valid',
+  'validation.nationalIdTaken': 'An applicant with national ID {nationalId} is already registered',
+  'validation.incomeInvalid': 'Monthly income cannot be negative',
+  'validation.ruleNameRequired': 'Rule {index} must have a name',
+  'validation.ruleConditionsRequired': 'Rule "{name}" must have at least one condition',
+  'validation.conditionFieldRequired': 'Rule "{name}" has a condition without a field',
+  'validation.conditionOperatorUnknown': 'Rule "{name}" has an unknown operator "{operator}"',
+  'validation.conditionValueRequired': 'Rule "{name}" has a condition without a value',
+  'validation.maxDtiInvalid': 'The maximum debt-to-income ratio must be greater than 0',
+  'validation.affordabilityOutcomeInvalid': 'Loans above the debt-to-income limit must be rejected or referred, not {outcome}',
+  'validation.scorecardInvalid': 'Every score, points and cut-off value of the scorecard must be a number',
+  'validation.scoreBandsUnordered': 'Band {band} must start at a lower score than band {better}',
+  'validation.csvEmpty': 'The CSV file is empty',
+  'validation.csvMissingColumn': 'Missing column "{column}"',
+  'validation.backupNotJson': 'The backup file is not valid JSON',
+  'validation.backupWrongFormat': 'The file is not a Tredgate backup',
+  'validation.backupNoVersion': 'The backup has no valid version',
+  'validation.backupTooNew': 'Backup version {version} is newer than supported version {supported}',
+  'validation.backupSchemaTooNew': 'The loans in the backup use schema version {version}, newer than supported version {supported}',
+  'validation.backupLoansUnreadable': 'The loans in the backup cannot be read',
+  'validation.backupInvalidLoan': 'Loan {index} in the backup has invalid fields: {fields}',
+  'validation.backupInvalidApplicants': 'The backup has invalid applicants',
+  'validation.backupInvalidRules': 'The backup has invalid decision rules',
+  'validation.backupInvalidAuditLog': 'The backup has an invalid audit log',
+  'validation.backupInvalidQuarantine': 'The backup has invalid quarantined records',
+  'validation.backupNoActor': 'The backup has no officer name',
+
+  'errors.invalidTransition': 'Cannot change loan status from {from} to {to}',
+  'errors.newerSchema': 'The loans were saved by a newer version of the app; changes cannot be saved',
+
+  'undo.approved': 'Loan for {name} approved',
+  'undo.rejected': 'Loan for {name} rejected',
+  'undo.referred': 'Loan for {name} referred for review',
+  'undo.deleted': 'Loan for {name} moved to trash',
+  'undo.undo': 'Undo',
+  'undo.dismiss': 'Dismiss',
+
+  'loanForm.heading': 'New Loan Application',
+  'loanForm.applicant': 'Applicant',
+  'loanForm.newApplicant': 'New applicant',
+  'loanForm.applicantDetails': 'Applicant details (optional)',
+  'loanForm.applicantName': 'Applicant Name',
+  'loanForm.applicantNamePlaceholder': 'Enter applicant name',
+  'loanForm.product': 'Loan Product',
+  'loanForm.customProduct': 'Custom terms',
+  'loanForm.productLimits': 'Amount {minAmount} – {maxAmount}, rate {minRate} – {maxRate} p.a.',
+  'loanForm.selectTerm': 'Select a term',
+  'loanForm.amount': 'Loan Amount',
+  'loanForm.amountPlaceholder': 'Enter loan amount',
+  'loanForm.currency': 'Currency',
+  'loanForm.termMonths': 'Term (Months)',
+  'loanForm.termMonthsPlaceholder': 'Enter term in months',
+  'loanForm.interestRate': 'Interest Rate (e.g., 0.08 for 8%)',
+  'loanForm.interestRatePlaceholder': 'Enter interest rate',
+  'loanForm.rateRequired': 'Interest rate is required and cannot be negative',
+  'loanForm.monthlyIncome': 'Monthly Net Income',
+  'loanForm.monthlyObligations': 'Existing Monthly Obligations',
+  'loanForm.affordabilityHint': 'Used to check that the installment is affordable. Loans without an income are not checked.',
+  'loanForm.submit': 'Create Application',
+  'loanForm.saveDraft': 'Save as Draft',
+  'loanForm.createFailed': 'Failed to create loan application',
+  'loanForm.applicantRegistered': 'National ID {nationalId} is already registered to {name}. Use the registered applicant or correct the national ID.',
+  'loanForm.useRegisteredApplicant': 'Use {name}',
+  'preview.heading': 'Payment preview',
+  'preview.hint': 'Enter the amount, term and rate to see the installment.',
+  'preview.whatIf': 'What if…',
+  'preview.installment': 'Installment',
+  'preview.interest': 'Interest',
+  'preview.apply': 'Use these terms',
+
+  'loanList.heading': 'Loan Applications',
+  'loanList.export': 'Export CSV',
+  'loanList.exportHint': 'Export shown loans as CSV',
+  'loanList.import': 'Import CSV',
+  'loanList.importHint': 'Import loans from CSV',
+  'loanList.empty': 'No loan applications yet. Create one using the form.',
+  'loanList.noMatches': 'No loan applications match the filters.',
+  'loanList.search': 'Search applicant',
+  'loanList.allStatuses': 'All statuses',
+  'loanList.rangeFrom': 'From',
+  'loanList.rangeTo': 'To',
+  'loanList.amountFrom': 'Amount from',
+  'loanList.amountTo': 'Amount to',
+  'loanList.rateFrom': 'Rate from',
+  'loanList.rateTo': 'Rate to',
+  'loanList.createdFrom': 'Created from',
+  'loanList.createdTo': 'Created to',
+  'loanList.clearFilters': 'Clear filters',
+  'loanList.showing': 'Showing {shown} of {total} applications',
+  'loanList.sortBy': 'Sort by {column}',
+  'loanList.pagination': 'Pages',
+  'loanList.pageSize': 'Rows per page',
+  'loanList.pageRange': '{from}–{to} of {total}',
+  'loanList.pageInfo': 'Page {page} of {pages}',
+  'loanList.firstPage': 'First page',
+  'loanList.previousPage': 'Previous page',
+  'loanList.nextPage': 'Next page',
+  'loanList.lastPage': 'Last page',
+  'loanList.viewDetails': 'View details',
+  'loanList.approve': 'Approve',
+  'loanList.reject': 'Reject',
+  'loanList.autoDecide': 'Auto-decide',
+  'loanList.submit': 'Submit',
+  'loanList.startReview': 'Start review',
+  'loanList.disburse': 'Disburse',
+  'loanList.markRepaid': 'Mark repaid',
+  'loanList.markDefaulted': 'Mark defaulted',
+  'loanList.withdraw': 'Withdraw',
+  'loanList.explain': 'Why this decision?',
+  'loanList.schedule': 'Repayment schedule',
+  'loanList.offer': 'Loan offer',
+  'loanList.prepayment': 'Prepayment calculator',
+  'loanList.deleteTitle': 'Delete Loan Application',
+  'loanList.deleteMessage': 'Move the loan application for {name} to the trash?',
+  'loanList.scheduleTitle': 'Repayment Schedule – {name}',
+  'loanList.decisionTitle': 'Automatic Decision – {name}',
+  'loanList.offerTitle': 'Loan Offer – {name}',
+  'loanList.prepaymentTitle': 'Prepayment Calculator – {name}',
+  'loanList.detailTitle': 'Loan Application – {name}',
+  'loanList.print': 'Print / Save as PDF',
+
+  'summary.total': 'Total Applications',
+  'summary.pending': 'Pending',
+  'summary.approved': 'Approved',
+  'summary.rejected': 'Rejected',
+  'summary.totalApproved': 'Total Approved',
+
+  'detail.reference': 'Reference',
+  'detail.product': 'Product',
+  'detail.edit': 'Edit',
+  'detail.interestRate': 'Interest Rate',
+  'detail.conflict': 'This loan was changed elsewhere while you were editing — reload?',
+  'detail.save': 'Save Changes',
+  'detail.history': 'History',
+  'detail.updateFailed': 'Failed to update loan application',
+
+  'audit.empty': 'No recorded changes.',
+  'audit.action.created': 'Created',
+  'audit.action.edited': 'Edited',
+  'audit.action.status_changed': 'Status changed',
+  'audit.action.auto_decided': 'Auto-decided',
+  'audit.action.reverted': 'Undone',
+  'audit.action.deleted': 'Moved to trash',
+  'audit.action.restored': 'Restored',
+  'audit.action.purged': 'Permanently deleted',
+  'audit.action.payment_recorded': 'Payment recorded',
+  'audit.field.applicantName': 'Applicant',
+  'audit.field.applicantId': 'Applicant record',
+  'audit.field.productId': 'Product',
+  'audit.field.amount': 'Amount',
+  'audit.field.currency': 'Currency',
+  'audit.field.termMonths': 'Term',
+  'audit.field.interestRate': 'Rate',
+  'audit.field.status': 'Status',
+  'audit.field.decision': 'Decision',
+  'audit.field.deletedAt': 'Deleted',
+  'audit.field.paidTotal': 'Paid in total',
+  'audit.field.monthlyIncome': 'Income',
+  'audit.field.monthlyObligations': 'Obligations',
+
+  'schedule.installment': 'Monthly Installment',
+  'schedule.totalInterest': 'Total Interest',
+  'schedule.totalRepayable': 'Total Repayable',
+  'schedule.month': 'Month',
+  'schedule.payment': 'Payment',
+  'schedule.principal': 'Principal',
+  'schedule.interest': 'Interest',
+  'schedule.balance': 'Balance',
+
+  'decision.outcome.approve': 'Approved',
+  'decision.outcome.reject': 'Rejected',
+  'decision.outcome.refer': 'Referred to manual review',
+  'decision.matchedRule': 'Matched rule',
+  'decision.noRuleMatched': 'No rule matched – default outcome applied',
+  'decision.ruleSetVersion': 'rule set v{version}',
+  'decision.noChecks': 'No rules were evaluated.',
+  'decision.check': 'Check',
+  'decision.actual': 'Actual',
+  'decision.result': 'Result',
+  'decision.passed': '✓ passed',
+  'decision.failed': '✗ failed',
+  'decision.notProvided': 'not provided',
+  'decision.affordabilityRule': 'Debt-to-income limit',
+
+  'ruleField.amount': 'Amount',
+  'ruleField.termMonths': 'Term (months)',
+  'ruleField.interestRate': 'Interest rate',
+  'ruleField.dti': 'Debt-to-income ratio',
+  'ruleField.disposableIncome': 'Disposable income',
+  'ruleField.creditScore': 'Credit score',
+
+  'rules.heading': 'Decision Rules',
+  'rules.currentVersion': 'Current version:',
+  'rules.evaluationOrder': 'Rules are evaluated top to bottom; the first matching rule decides.',
+  'rules.namePlaceholder': 'Rule name',
+  'rules.nameLabel': 'Rule {index} name',
+  'rules.moveUp': 'Move up',
+  'rules.moveDown': 'Move down',
+  'rules.remove': 'Remove',
+  'rules.removeRule': 'Remove rule',
+  'rules.match': 'Match',
+  'rules.matchAll': 'all conditions (AND)',
+  'rules.matchAny': 'any condition (OR)',
+  'rules.field': 'Field',
+  'rules.operator': 'Operator',
+  'rules.value': 'Value',
+  'rules.removeCondition': 'Remove condition',
+  'rules.addCondition': '+ Add condition',
+  'rules.then': 'Then',
+  'rules.outcome.approve': 'Approve',
+  'rules.outcome.reject': 'Reject',
+  'rules.outcome.refer': 'Refer to manual review',
+  'rules.addRule': '+ Add rule',
+  'rules.defaultOutcome': 'When no rule matches',
+  'rules.affordability': 'Affordability',
+  'rules.affordabilityHint': 'Checked before the rules on loans with a monthly income. Debt-to-income = (existing obligations + installment) / income.',
+  'rules.limitDti': 'Limit the debt-to-income ratio',
+  'rules.maxDti': 'Maximum ratio (e.g., 0.4 for 40%)',
+  'rules.dtiExceeded': 'When exceeded',
+  'rules.scorecard': 'Credit scorecard',
+  'rules.scorecardHint': 'The score is the base score plus the points of every attribute. Unknown values and values outside every range get the points for unknown. Rules can use the score as a condition.',
+  'rules.baseScore': 'Base score',
+  'rules.unknownValue': 'Unknown',
+  'rules.bands': 'Score bands',
+  'rules.bandFrom': 'Band {band} from',
+  'rules.lowestBand': 'Band {band}: any lower score',
+  'rules.saved': 'Saved as version {version}',
+  'rules.saveFailed': 'Failed to save rule set',
+  'rules.save': 'Save as new version',
+
+  'quarantine.message.one': '{count} stored record could not be read. The remaining loans were recovered and the unreadable data was moved to quarantine.',
+  'quarantine.message.other': '{count} stored records could not be read. The remaining loans were recovered and the unreadable data was moved to quarantine.',
+  'quarantine.inspect': 'Inspect',
+  'quarantine.hide': 'Hide',
+  'quarantine.discard': 'Discard',
+  'quarantine.discardAll': 'Discard all',
+
+  'trash.heading': 'Trash',
+  'trash.empty': 'The trash is empty.',
+  'trash.restore': 'Restore',
+  'trash.purge': 'Delete permanently',
+  'trash.purgeTitle': 'Delete Permanently',
+  'trash.purgeMessage': 'The loan application for {name} will be deleted permanently. This cannot be undone.',
+
+  'csv.title': 'Import Loans from CSV',
+  'csv.help': 'The file needs a header row with the columns applicantName, amount, termMonths and interestRate (e.g. 0.08 or 8%), and optionally currency ({currencies}; {defaultCurrency} if left out). Imported loans are submitted.',
+  'csv.summary.one': '{valid} of {count} row can be imported.',
+  'csv.summary.other': '{valid} of {count} rows can be imported.',
+  'csv.row': 'Row',
+  'csv.errors': 'Errors',
+  'csv.import.one': 'Import {count} valid row',
+  'csv.import.other': 'Import {count} valid rows',
+  'csv.readFailed': 'Failed to read the CSV file',
+  'csv.importFailed': 'Failed to import the loans; nothing was imported',
+
+  'backup.title': 'Backup & Restore',
+  'backup.backupHeading': 'Backup',
+  'backup.backupHelp': 'Download all loans (including the trash), applicants, decision rules, the audit trail, the officer name and quarantined records as a single JSON file.',
+  'backup.download': 'Download backup',
+  'backup.restoreHeading': 'Restore',
+  'backup.summary.one': 'Backup from {date} with {count} loan: {added} new, {changed} changed, {removed} not in the backup.',
+  'backup.summary.other': 'Backup from {date} with {count} loans: {added} new, {changed} changed, {removed} not in the backup.',
+  'backup.added': 'New: {name}',
+  'backup.changed': 'Changed: {name}',
+  'backup.removed': 'Not in backup: {name}',
+  'backup.ruleSetConflicts.one': 'Rule set version {versions} differs between the backup and this workspace; merging keeps the current rules.',
+  'backup.ruleSetConflicts.other': 'Rule set versions {versions} differ between the backup and this workspace; merging keeps the current rules.',
+  'backup.merge': 'Merge',
+  'backup.mergeHelp': 'adds what only the backup has and keeps everything else; a changed loan is taken from the backup only if its revision is newer.',
+  'backup.replace': 'Replace',
+  'backup.replaceHelp': 'discards the current data and restores the backup exactly.',
+  'backup.readFailed': 'Failed to read the backup file',
+  'backup.restoreFailed': 'Failed to restore the backup',
+
+  'affordability.heading': 'Affordability',
+  'affordability.income': 'Monthly income',
+  'affordability.obligations': 'Monthly obligations',
+  'affordability.installment': 'Installment',
+  'affordability.dti': 'Debt-to-income',
+  'affordability.disposableIncome': 'Disposable income',
+
+  'score.heading': 'Credit score',
+  'score.value': '{score} ({band})',
+  'score.ruleSetVersion': 'Scorecard of rule set v{version}',
+  'score.attribute': 'Attribute',
+  'score.attributeValue': 'Value',
+  'score.points': 'Points',
+  'score.unknown': 'Unknown',
+  'score.notScored': 'Not scored yet',
+  'scoreAttribute.age': 'Age',
+  'scoreAttribute.employment': 'Employment',
+  'scoreAttribute.monthlyIncome': 'Monthly income',
+  'scoreAttribute.dti': 'Debt-to-income',
+  'scoreAttribute.amount': 'Amount',
+  'scoreAttribute.termMonths': 'Term',
+  'scoreBin.below': 'Below {max}',
+  'scoreBin.from': '{min} and more',
+  'scoreBin.range': '{min} to under {max}',
+
+  'product.personal': 'Personal loan',
+  'product.auto': 'Auto loan',
+  'product.mortgage': 'Mortgage',
+  'product.refinancing': 'Refinancing',
+
+  'repayment.heading': 'Repayment',
+  'repayment.paidTotal': 'Paid',
+  'repayment.outstandingPrincipal': 'Outstanding principal',
+  'repayment.outstandingInterest': 'Outstanding interest',
+  'repayment.nextDue': 'Next installment',
+  'repayment.nextDueValue': '{amount} on {date}',
+  'repayment.paidOff': 'Paid off',
+  'repayment.overdue': 'Overdue',
+  'repayment.daysPastDue.one': '{count} day past due',
+  'repayment.daysPastDue.other': '{count} days past due',
+  'repayment.payments': 'Payments',
+  'repayment.noPayments': 'No payments recorded yet.',
+  'repayment.amount': 'Amount',
+  'repayment.paidOn': 'Paid on',
+  'repayment.record': 'Record payment',
+  'repayment.recordFailed': 'Failed to record payment',
+  'prepayment.amount': 'Extra payment',
+  'prepayment.frequency': 'Frequency',
+  'prepayment.frequency.once': 'One-off',
+  'prepayment.frequency.monthly': 'Every month',
+  'prepayment.frequency.yearly': 'Every year',
+  'prepayment.startMonth': 'With installment no.',
+  'prepayment.hint': 'Enter an extra payment and an installment between 1 and {term} to compare the strategies.',
+  'prepayment.original': 'Without prepayment',
+  'prepayment.strategy.shorten_term': 'Shorten term',
+  'prepayment.strategy.reduce_installment': 'Reduce installment',
+  'prepayment.installment': 'Installment',
+  'prepayment.term': 'Term',
+  'prepayment.totalInterest': 'Total interest',
+  'prepayment.interestSaved': 'Interest saved',
+  'prepayment.schedule': 'Revised schedule',
+  'prepayment.prepayment': 'Extra payment',
+
+  'applicant.name': 'Name',
+  'applicant.dateOfBirth': 'Date of birth',
+  'applicant.email': 'Email',
+  'applicant.phone': 'Phone',
+  'applicant.nationalId': 'National ID',
+  'applicant.monthlyIncome': 'Monthly net income',
+  'applicant.employment': 'Employment',
+  'applicant.employer': 'Employer',
+  'applicant.notSpecified': 'Not specified',
+
+  'employment.employed': 'Employed',
+  'employment.self_employed': 'Self-employed',
+  'employment.unemployed': 'Unemployed',
+  'employment.retired': 'Retired',
+  'employment.student': 'Student',
+
+  'applicants.heading': 'Applicants',
+  'applicants.empty': 'No applicants yet. Applicants are registered when a loan application is created.',
+  'applicants.contact': 'Contact',
+  'applicants.loans': 'Loans',
+  'applicants.exposure': 'Exposure',
+  'applicants.viewProfile': 'View profile',
+  'applicants.profileTitle': 'Applicant – {name}',
+
+  'profile.details': 'Details',
+  'profile.registered': 'Registered',
+  'profile.exposure': 'Total Exposure',
+  'profile.exposureHint': 'Approved, disbursed and defaulted loans',
+  'profile.noExposure': 'No exposure',
+  'profile.loans': 'Loans',
+  'profile.noLoans': 'This applicant has no loans.',
+
+  'offer.heading': 'Loan Offer',
+  'offer.reference': 'Reference',
+  'offer.applicationDate': 'Application date',
+  'offer.issued': 'Issued',
+  'offer.applicant': 'Applicant',
+  'offer.terms': 'Loan Terms',
+  'offer.amount': 'Loan Amount',
+  'offer.term': 'Term',
+  'offer.termValue.one': '{count} month',
+  'offer.termValue.other': '{count} months',
+  'offer.rate': 'Interest Rate',
+  'offer.rateValue': '{rate} p.a.',
+  'offer.schedule': 'Repayment Schedule',
+  'offer.note': 'Installments are due monthly, starting one month after disbursement. The schedule assumes every installment is paid in full on its due date.',
+  'offer.signApplicant': 'Applicant',
+  'offer.signOfficer': 'Loan Officer'
+}
+
+/**
+ * Key of a message in the catalogs
+ */
+export type MessageKey = keyof typeof en
@@ -0,0 +1,22 @@
+import { InvalidStatusTransitionError, SchemaMigrationError, ValidationError } from '../services/errors'
+import { LOANS_SCHEMA_VERSION } from '../services/migrations'
+import type { MessageKey } from './index'
+import { t } from './index'
+
+/**
+ * Describe an error thrown by a service in the current locale
+ * Errors without a translation keep their message; anything that is not
+ * an Error is described by the fallback message.
+ */
+export function describeError(error: unknown, fallback: MessageKey): string {
+  if (error instanceof ValidationError) {
+    return t(`validation.${error.code}`, error.params)
+  }
+  if (error instanceof InvalidStatusTransitionError) {
+    return t('errors.invalidTransition', { from: t(`status.${error.from}`), to: t(`status.${error.to}`) })
+  }
+  if (error instanceof SchemaMigrationError && error.fromVersion > LOANS_SCHEMA_VERSION) {
+    return t('errors.newerSchema')
+  }
+  return error instanceof Error ? error.message : t(fallback)
+}
@@ -0,0 +1,176 @@
+import { ref } from 'vue'
+import type { Locale, MessageParams } from '../types/i18n'
+import { getStorage } from '../services/storage'
+import { en } from './en'
+import type { MessageKey } from './en'
+import { cs } from './cs'
+
+export type { MessageKey } from './en'
+
+const STORAGE_KEY = 'tredgate_locale'
+
+/**
+ * A message catalog: every key of the English catalog, plus any extra plural forms
+ */
+export type Messages = Record<MessageKey, string> & Record<string, string>
+
+/**
+ * Base key of a plural message, e.g. "csv.import" for "csv.import.one" and "csv.import.other"
+ */
+export type PluralKey = MessageKey extends infer Key
+  ? Key extends `${infer Base}.other` ? Base : never
+  : never
+
+/**
+ * Languages offered in the locale switcher, with the tag used for formatting
+ * Each language is named in itself so it can be found whatever the current locale.
+ */
+export const LOCALES: { locale: Locale; tag: string; label: string }[] = [
+  { locale: 'en', tag: 'en-US', label: 'English' },
+  { locale: 'cs', tag: 'cs-CZ', label: 'Čeština' }
+]
+
+const CATALOGS: Record<Locale, Messages> = { en, cs }
+
+// Reactive so that templates calling t() re-render when the locale changes
+const currentLocale = ref<Locale>('en')
+
+function isLocale(value: unknown): value is Locale {
+  return LOCALES.some(entry => entry.locale === value)
+}
+
+/**
+ * Locale used when none was chosen yet: Czech for Czech browsers, English otherwise
+ */
+function getBrowserLocale(): Locale {
+  return typeof navigator !== 'undefined' && navigator.language.toLowerCase().startsWith('cs') ? 'cs' : 'en'
+}
+
+function applyLocale(locale: Locale): void {
+  currentLocale.value = locale
+  if (typeof document !== 'undefined') {
+    document.documentElement.lang = locale
+  }
+}
+
+/**
+ * Switch to the locale saved in the storage
+ * Call once the storage backend has been set up.
+ */
+export function loadLocale(): Locale {
+  const stored = getStorage().getItem(STORAGE_KEY)
+  applyLocale(isLocale(stored) ? stored : getBrowserLocale())
+  return currentLocale.value
+}
+
+/**
+ * Get the locale the UI is shown in
+ */
+export function getLocale(): Locale {
+  return currentLocale.value
+}
+
+/**
+ * Switch the UI to another locale and remember it for the next session
+ */
+export function setLocale(locale: Locale): void {
+  applyLocale(locale)
+  getStorage().setItem(STORAGE_KEY, locale)
+}
+
+/**
+ * BCP 47 tag of the current locale, for Intl formatting
+ */
+export function getLocaleTag(): string {
+  return LOCALES.find(entry => entry.locale === currentLocale.value)?.tag ?? 'en-US'
+}
+
+/**
+ * Replace the {placeholders} of a message
+ * Placeholders without a value are left as they are.
+ */
+function interpolate(message: string, params: MessageParams = {}): string {
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  )
+}
+
+/**
+ * Get a message in the given locale
+ * Falls back to English, then to the key itself.
+ */
+export function translate(locale: Locale, key: MessageKey, params?: MessageParams): string {
+  return interpolate(CATALOGS[locale][key] ?? en[key] ?? key, params)
+}
+
+/**
+ * Get a message in the current locale
+ */
+export function t(key: MessageKey, params?: MessageParams): string {
+  return translate(currentLocale.value, key, params)
+}
+
+/**
+ * Get the plural form of a message that matches a count, e.g. "1 row" or "5 rows"
+ * The count is available to the message as {count}.
+ */
+export function tn(key: PluralKey, count: number, params: MessageParams = {}): string {
+  const category = new Intl.PluralRules(getLocaleTag()).select(count)
+  const catalog = CATALOGS[currentLocale.value]
+  const message = catalog[`${key}.${category}`] ?? catalog[`${key}.other`] ?? en[`${key}.other`]
+  return interpolate(message, { ...params, count })
+}
+
+/**
+ * Format a date, e.g. "Jan 15, 2024" or "15. 1. 2024"
+ */
+export function formatDate(isoDate: string): string {
+  return new Date(isoDate).toLocaleDateString(getLocaleTag(), {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  })
+}
+
+/**
+ * Format a date with the month written out, e.g. "January 15, 2024"
+ */
+export function formatLongDate(isoDate: string): string {
+  return new Date(isoDate).toLocaleDateString(getLocaleTag(), {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  })
+}
+
+/**
+ * Format a date and time, optionally down to the second
+ */
+export function formatDateTime(isoDate: string, withSeconds = false): string {
+  return new Date(isoDate).toLocaleString(getLocaleTag(), {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    ...(withSeconds ? { second: '2-digit' } : {})
+  })
+}
+
+/**
+ * Format a number with the grouping of the current locale, e.g. "12,000" or "12 000"
+ */
+export function formatNumber(value: number): string {
+  return value.toLocaleString(getLocaleTag())
+}
+
+/**
+ * Format a fraction as a percentage, e.g. 0.085 as "8.5%" or "8,5 %"
+ */
+export function formatPercent(value: number, fractionDigits = 1): string {
+  return new Intl.NumberFormat(getLocaleTag(), {
+    style: 'percent',
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits
+  }).format(value)
+}
@@ -1,5 +1,18 @@
 import { createApp } from 'vue'
 import './assets/main.css'
 import App from './App.vue'
+import type { StorageBackendKind } from './services/storage'
+import { initStorage, reportStorageError } from './services/storageSetup'
+import { loadLocale } from './i18n'
 
-createApp(App).mount('#app')
+// Storage backend is selected at build/dev time, e.g. VITE_STORAGE_BACKEND=indexeddb
+// Failures are shown in the app; without a backend the data stays in localStorage
+initStorage(import.meta.env.VITE_STORAGE_BACKEND as StorageBackendKind | undefined, {
+  url: import.meta.env.VITE_STORAGE_URL,
+  onWriteError: () => reportStorageError('write')
+})
+  .catch(() => reportStorageError('init'))
+  .finally(() => {
+    loadLocale()
+    createApp(App).mount('#app')
+  })
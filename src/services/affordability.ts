@@ -0,0 +1,28 @@
+import type { Affordability, LoanApplication } from '../types/loan'
+import { calculateAnnuityPayment, roundCurrency } from './amortization'
+
+/**
+ * Loan fields needed to judge affordability
+ */
+export type AffordabilityInput = Pick<
+  LoanApplication,
+  'amount' | 'termMonths' | 'interestRate' | 'monthlyIncome' | 'monthlyObligations'
+>
+
+/**
+ * Calculate the debt-to-income ratio and disposable income with the loan's real installment
+ * Returns null when the income is unknown, as nothing can be said about affordability then.
+ */
+export function calculateAffordability(loan: AffordabilityInput): Affordability | null {
+  if (loan.monthlyIncome === undefined || loan.monthlyIncome <= 0) {
+    return null
+  }
+
+  const installment = roundCurrency(calculateAnnuityPayment(loan.amount, loan.interestRate, loan.termMonths))
+  const debt = (loan.monthlyObligations ?? 0) + installment
+  return {
+    installment,
+    dti: debt / loan.monthlyIncome,
+    disposableIncome: roundCurrency(loan.monthlyIncome - debt)
+  }
+}
@@ -0,0 +1,65 @@
+import type { AmortizationRow } from '../types/loan'
+
+/**
+ * Round a monetary value to whole cents
+ */
+export function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Calculate the fixed monthly installment of an annuity loan
+ * The annual interest rate is converted to a monthly rate (annualRate / 12).
+ * For a 0% rate the principal is simply split evenly across the term.
+ */
+export function calculateAnnuityPayment(principal: number, annualRate: number, termMonths: number): number {
+  const monthlyRate = annualRate / 12
+  if (monthlyRate === 0) {
+    return principal / termMonths
+  }
+  return (principal * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -termMonths))
+}
+
+/**
+ * Build the month-by-month repayment schedule of an annuity loan
+ * Amounts are rounded to cents; the final installment absorbs any rounding
+ * difference so that the remaining balance ends at exactly 0.
+ */
+export function buildAmortizationSchedule(principal: number, annualRate: number, termMonths: number): AmortizationRow[] {
+  const monthlyRate = annualRate / 12
+  const installment = roundCurrency(calculateAnnuityPayment(principal, annualRate, termMonths))
+  const schedule: AmortizationRow[] = []
+  let balance = principal
+
+  for (let month = 1; month <= termMonths; month++) {
+    const interest = roundCurrency(balance * monthlyRate)
+    const isLast = month === termMonths
+    const principalPart = isLast ? roundCurrency(balance) : roundCurrency(installment - interest)
+
+    balance = isLast ? 0 : roundCurrency(balance - principalPart)
+
+    schedule.push({
+      month,
+      payment: roundCurrency(principalPart + interest),
+      principal: principalPart,
+      interest,
+      balance
+    })
+  }
+
+  return schedule
+}
+
+/**
+ * Sum the total interest paid over a schedule
+ */
+export function totalInterest(schedule: AmortizationRow[]): number {
+  return roundCurrency(schedule.reduce((sum, row) => sum + row.interest, 0))
+}
+
+/**
+ * Sum the total amount repaid (principal + interest) over a schedule
+ */
+export function totalRepayable(schedule: AmortizationRow[]): number {
+  return roundCurrency(schedule.reduce((sum, row) => sum + row.payment, 0))
+}
@@ -0,0 +1,146 @@
+import type { Applicant, CreateApplicantInput, EmploymentStatus } from '../types/applicant'
+import type { Currency, LoanApplication } from '../types/loan'
+import type { ValidationIssue } from '../types/i18n'
+import { EXPOSURE_STATUSES } from './loanLifecycle'
+import { sumByCurrency } from './currency'
+import { ValidationError } from './errors'
+import { getStorage } from './storage'
+
+const STORAGE_KEY = 'tredgate_applicants'
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * Employment statuses offered when registering an applicant
+ */
+export const EMPLOYMENT_STATUSES: EmploymentStatus[] = [
+  'employed',
+  'self_employed',
+  'unemployed',
+  'retired',
+  'student'
+]
+
+/**
+ * Generate a simple unique ID
+ */
+function generateId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substring(2, 9)
+}
+
+/**
+ * Load all registered applicants, in registration order
+ */
+export function getApplicants(): Applicant[] {
+  try {
+    const stored = getStorage().getItem(STORAGE_KEY)
+    if (!stored) {
+      return []
+    }
+    return JSON.parse(stored) as Applicant[]
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Find an applicant by ID
+ */
+export function getApplicant(id: string): Applicant | undefined {
+  return getApplicants().find(applicant => applicant.id === id)
+}
+
+/**
+ * Replace all registered applicants
+ */
+export function saveApplicants(applicants: Applicant[]): void {
+  getStorage().setItem(STORAGE_KEY, JSON.stringify(applicants))
+}
+
+/**
+ * Remove a registered applicant
+ */
+export function deleteApplicant(id: string): void {
+  saveApplicants(getApplicants().filter(applicant => applicant.id !== id))
+}
+
+/**
+ * Trim a text field, dropping it when empty
+ */
+function optionalText(value: string | undefined): string | undefined {
+  const trimmed = value?.trim()
+  return trimmed ? trimmed : undefined
+}
+
+/**
+ * List every validation error of applicant input data
+ * Returns an empty array for valid input.
+ */
+export function getApplicantInputErrors(input: CreateApplicantInput): ValidationIssue[] {
+  const errors: ValidationIssue[] = []
+  if (!input.name || input.name.trim() === '') {
+    errors.push({ code: 'applicantNameRequired' })
+  }
+  if (input.dateOfBirth) {
+    const born = Date.parse(input.dateOfBirth)
+    if (Number.isNaN(born) || born > Date.now()) {
+      errors.push({ code: 'dateOfBirthInvalid' })
+    }
+  }
+  if (input.email && !EMAIL_PATTERN.test(input.email.trim())) {
+    errors.push({ code: 'emailInvalid' })
+  }
+  const nationalId = optionalText(input.nationalId)
+  if (nationalId && getApplicants().some(applicant => applicant.nationalId === nationalId)) {
+    errors.push({ code: 'nationalIdTaken', params: { nationalId } })
+  }
+  if (input.monthlyIncome !== undefined &&
+    (!Number.isFinite(input.monthlyIncome) || input.monthlyIncome < 0)) {
+    errors.push({ code: 'incomeInvalid' })
+  }
+  return errors
+}
+
+/**
+ * Register a new applicant
+ * Throws ValidationError on the first invalid field. Empty optional
+ * fields are left out.
+ */
+export function createApplicant(input: CreateApplicantInput): Applicant {
+  const [issue] = getApplicantInputErrors(input)
+  if (issue) {
+    throw new ValidationError(issue)
+  }
+
+  const applicant: Applicant = {
+    id: generateId(),
+    name: input.name.trim(),
+    dateOfBirth: optionalText(input.dateOfBirth),
+    email: optionalText(input.email),
+    phone: optionalText(input.phone),
+    nationalId: optionalText(input.nationalId),
+    monthlyIncome: input.monthlyIncome,
+    employment: input.employment,
+    employer: optionalText(input.employer),
+    createdAt: new Date().toISOString()
+  }
+
+  saveApplicants([...getApplicants(), applicant])
+  return applicant
+}
+
+/**
+ * Get the loans of an applicant, oldest first
+ */
+export function getApplicantLoans(applicantId: string, loans: LoanApplication[]): LoanApplication[] {
+  return loans.filter(loan => loan.applicantId === applicantId)
+}
+
+/**
+ * Total amount per currency the lender is exposed to on the given loans
+ * Only approved, disbursed and defaulted loans count; amounts in different
+ * currencies are never added up.
+ */
+export function calculateExposure(loans: LoanApplication[]): { currency: Currency; total: number }[] {
+  return sumByCurrency(loans.filter(loan => EXPOSURE_STATUSES.includes(loan.status)))
+}
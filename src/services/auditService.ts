@@ -0,0 +1,119 @@
+import type { AuditAction, AuditChange, AuditEntry, AuditValue } from '../types/audit'
+import { getStorage } from './storage'
+
+const STORAGE_KEY = 'tredgate_audit_log'
+const ACTOR_STORAGE_KEY = 'tredgate_actor'
+const DEFAULT_ACTOR = 'officer'
+
+/**
+ * Generate a simple unique ID
+ */
+function generateId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substring(2, 9)
+}
+
+/**
+ * Get the name recorded as the actor of changes made in this browser
+ */
+export function getCurrentActor(): string {
+  return getStorage().getItem(ACTOR_STORAGE_KEY) || DEFAULT_ACTOR
+}
+
+/**
+ * Set the name recorded as the actor of subsequent changes
+ */
+export function setCurrentActor(actor: string): void {
+  const trimmed = actor.trim()
+  if (trimmed === '') {
+    getStorage().removeItem(ACTOR_STORAGE_KEY)
+  } else {
+    getStorage().setItem(ACTOR_STORAGE_KEY, trimmed)
+  }
+}
+
+/**
+ * Load the whole audit log, oldest entry first
+ */
+export function getAuditLog(): AuditEntry[] {
+  try {
+    const stored = getStorage().getItem(STORAGE_KEY)
+    if (!stored) {
+      return []
+    }
+    return JSON.parse(stored) as AuditEntry[]
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Get the audit trail of a single loan, oldest entry first
+ */
+export function getAuditTrail(loanId: string): AuditEntry[] {
+  return getAuditLog().filter(entry => entry.loanId === loanId)
+}
+
+/**
+ * Append an entry to the audit log
+ * Entries are never modified or removed once written.
+ */
+export function recordAuditEntry(loanId: string, action: AuditAction, changes: AuditChange[]): AuditEntry {
+  return recordAuditEntries([{ loanId, action, changes }])[0]!
+}
+
+/**
+ * Append several entries to the audit log in one write, e.g. for an import
+ */
+export function recordAuditEntries(
+  records: Array<{ loanId: string; action: AuditAction; changes: AuditChange[] }>
+): AuditEntry[] {
+  const timestamp = new Date().toISOString()
+  const actor = getCurrentActor()
+  const entries: AuditEntry[] = records.map(({ loanId, action, changes }) => ({
+    id: generateId(),
+    loanId,
+    timestamp,
+    actor,
+    action,
+    changes
+  }))
+
+  getStorage().setItem(STORAGE_KEY, JSON.stringify([...getAuditLog(), ...entries]))
+
+  return entries
+}
+
+/**
+ * Replace the whole audit log
+ * Only used when restoring a backup; normal changes go through recordAuditEntry.
+ */
+export function restoreAuditLog(entries: AuditEntry[]): void {
+  getStorage().setItem(STORAGE_KEY, JSON.stringify(entries))
+}
+
+/**
+ * List the fields whose values differ between two versions of a record
+ * Only primitive fields are compared; nested objects are ignored.
+ */
+export function diffFields(before: object, after: object, fields: string[]): AuditChange[] {
+  const beforeRecord = before as Record<string, unknown>
+  const afterRecord = after as Record<string, unknown>
+
+  return fields
+    .filter(field => beforeRecord[field] !== afterRecord[field])
+    .map(field => ({
+      field,
+      before: toAuditValue(beforeRecord[field]),
+      after: toAuditValue(afterRecord[field])
+    }))
+}
+
+/**
+ * Convert a field value into a value that can be stored in the log
+ */
+function toAuditValue(value: unknown): AuditValue {
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value
+  }
+  return null
+}
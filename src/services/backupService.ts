@@ -0,0 +1,233 @@
+import type { LoanApplication } from '../types/loan'
+import type { Applicant } from '../types/applicant'
+import type { BackupDiff, RestoreMode, WorkspaceBackup } from '../types/backup'
+import type { RuleSet } from '../types/rules'
+import { getLoans, getTrashedLoans, saveLoans } from './loanService'
+import { LOANS_SCHEMA_VERSION, migrateLoans } from './migrations'
+import { findInvalidLoanFields, getQuarantinedLoans, saveQuarantinedLoans } from './quarantineService'
+import { getRuleSetHistory, restoreRuleSetHistory } from './ruleService'
+import { getAuditLog, getCurrentActor, restoreAuditLog, setCurrentActor } from './auditService'
+import { downloadTextFile } from './fileDownload'
+import { getApplicants, saveApplicants } from './applicantService'
+import { SchemaMigrationError, ValidationError } from './errors'
+
+/**
+ * Version of the backup file format written by this build
+ */
+export const BACKUP_VERSION = 2
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Check that a value is an array of records with a string id
+ */
+function isListWithIds(value: unknown): boolean {
+  return Array.isArray(value) && value.every(item => isRecord(item) && typeof item.id === 'string')
+}
+
+/**
+ * Check whether two rule sets decide loans the same way
+ * The timestamps are ignored: built-in versions are dated when each
+ * workspace added them.
+ */
+function sameRuleSet(a: RuleSet, b: RuleSet): boolean {
+  const content = (ruleSet: RuleSet) =>
+    JSON.stringify([ruleSet.rules, ruleSet.defaultOutcome, ruleSet.affordability, ruleSet.scorecard])
+  return content(a) === content(b)
+}
+
+/**
+ * Migrate the loans of a backup to the current schema
+ * Throws ValidationError if the loans were written by a newer build or
+ * cannot be migrated.
+ */
+function migrateBackupLoans(schemaVersion: unknown, loans: unknown): unknown[] {
+  try {
+    return migrateLoans({ schemaVersion, loans }).loans
+  } catch (e) {
+    if (!(e instanceof SchemaMigrationError)) {
+      throw e
+    }
+    if (e.fromVersion > LOANS_SCHEMA_VERSION) {
+      throw new ValidationError({
+        code: 'backupSchemaTooNew',
+        params: { version: e.fromVersion, supported: LOANS_SCHEMA_VERSION }
+      })
+    }
+    throw new ValidationError({ code: 'backupLoansUnreadable' })
+  }
+}
+
+/**
+ * All stored loans, including those in the trash
+ */
+function getAllLoans(): LoanApplication[] {
+  return [...getLoans(), ...getTrashedLoans()]
+}
+
+/**
+ * Collect every loan, the applicants, the rule set history, the audit log,
+ * the officer name and the quarantined records into a backup
+ */
+export function createBackup(): WorkspaceBackup {
+  return {
+    format: 'tredgate-backup',
+    backupVersion: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    schemaVersion: LOANS_SCHEMA_VERSION,
+    loans: getAllLoans(),
+    applicants: getApplicants(),
+    ruleSets: getRuleSetHistory(),
+    auditLog: getAuditLog(),
+    actor: getCurrentActor(),
+    quarantine: getQuarantinedLoans()
+  }
+}
+
+/**
+ * Download a backup of the workspace as a JSON file
+ */
+export function downloadBackup(): void {
+  const backup = createBackup()
+  const date = backup.createdAt.slice(0, 10)
+  downloadTextFile(`tredgate-backup-${date}.json`, JSON.stringify(backup, null, 2), 'application/json')
+}
+
+/**
+ * Read and validate a backup file
+ * Loans written with an older schema are migrated. Throws ValidationError
+ * describing the problem if the file cannot be restored, including loans
+ * that cannot be migrated.
+ */
+export function parseBackup(text: string): WorkspaceBackup {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new ValidationError({ code: 'backupNotJson' })
+  }
+
+  if (!isRecord(data) || data.format !== 'tredgate-backup') {
+    throw new ValidationError({ code: 'backupWrongFormat' })
+  }
+  const { backupVersion } = data
+  if (typeof backupVersion !== 'number' || !Number.isInteger(backupVersion) || backupVersion < 1) {
+    throw new ValidationError({ code: 'backupNoVersion' })
+  }
+  if (backupVersion > BACKUP_VERSION) {
+    throw new ValidationError({ code: 'backupTooNew', params: { version: backupVersion, supported: BACKUP_VERSION } })
+  }
+
+  const loans = migrateBackupLoans(data.schemaVersion, data.loans)
+  loans.forEach((loan, index) => {
+    const fields = findInvalidLoanFields(loan)
+    if (fields.length > 0) {
+      throw new ValidationError({ code: 'backupInvalidLoan', params: { index: index + 1, fields: fields.join(', ') } })
+    }
+  })
+
+  // Version 1 backups were written before the applicant registry existed
+  const applicants = data.applicants ?? []
+  if (!isListWithIds(applicants)) {
+    throw new ValidationError({ code: 'backupInvalidApplicants' })
+  }
+
+  if (!Array.isArray(data.ruleSets) ||
+    !data.ruleSets.every(ruleSet => isRecord(ruleSet) && typeof ruleSet.version === 'number' && Array.isArray(ruleSet.rules))) {
+    throw new ValidationError({ code: 'backupInvalidRules' })
+  }
+  if (!isListWithIds(data.auditLog)) {
+    throw new ValidationError({ code: 'backupInvalidAuditLog' })
+  }
+  if (!isListWithIds(data.quarantine)) {
+    throw new ValidationError({ code: 'backupInvalidQuarantine' })
+  }
+  if (typeof data.actor !== 'string') {
+    throw new ValidationError({ code: 'backupNoActor' })
+  }
+
+  return {
+    ...(data as unknown as WorkspaceBackup),
+    schemaVersion: LOANS_SCHEMA_VERSION,
+    loans: loans as LoanApplication[],
+    applicants: applicants as Applicant[]
+  }
+}
+
+/**
+ * Compare the loans and rule set versions of a backup with the current storage
+ */
+export function diffBackup(backup: WorkspaceBackup): BackupDiff {
+  const current = new Map(getAllLoans().map(loan => [loan.id, loan]))
+  const inBackup = new Set(backup.loans.map(loan => loan.id))
+  const diff: BackupDiff = { added: [], changed: [], removed: [], ruleSetConflicts: [] }
+
+  for (const loan of backup.loans) {
+    const existing = current.get(loan.id)
+    if (!existing) {
+      diff.added.push(loan)
+    } else if (JSON.stringify(existing) !== JSON.stringify(loan)) {
+      diff.changed.push(loan)
+    }
+  }
+  diff.removed = [...current.values()].filter(loan => !inBackup.has(loan.id))
+
+  const ruleSets = new Map(getRuleSetHistory().map(ruleSet => [ruleSet.version, ruleSet]))
+  diff.ruleSetConflicts = backup.ruleSets
+    .filter(ruleSet => {
+      const existing = ruleSets.get(ruleSet.version)
+      return existing !== undefined && !sameRuleSet(existing, ruleSet)
+    })
+    .map(ruleSet => ruleSet.version)
+
+  return diff
+}
+
+/**
+ * Add the items of the backup whose key is not in the current list
+ */
+function mergeByKey<T>(current: T[], backup: T[], key: (item: T) => string | number): T[] {
+  const keys = new Set(current.map(key))
+  return [...current, ...backup.filter(item => !keys.has(key(item)))]
+}
+
+/**
+ * Apply a backup to the storage
+ * Replace makes the storage match the backup, including the officer name.
+ * Merge keeps the current data: loans, applicants, rule set versions, audit
+ * entries and quarantined records only in the backup are added, and a loan
+ * in both is taken from the backup only if its revision is newer. A rule
+ * set version in both keeps the current rules; diffBackup reports those
+ * whose rules differ.
+ */
+export function restoreBackup(backup: WorkspaceBackup, mode: RestoreMode): void {
+  if (mode === 'replace') {
+    saveLoans(backup.loans)
+    saveApplicants(backup.applicants)
+    restoreRuleSetHistory(backup.ruleSets)
+    restoreAuditLog(backup.auditLog)
+    saveQuarantinedLoans(backup.quarantine)
+    setCurrentActor(backup.actor)
+    return
+  }
+
+  const fromBackup = new Map(backup.loans.map(loan => [loan.id, loan]))
+  const loans = getAllLoans().map(loan => {
+    const other = fromBackup.get(loan.id)
+    return other && other.revision > loan.revision ? other : loan
+  })
+  saveLoans(mergeByKey(loans, backup.loans, loan => loan.id))
+  saveApplicants(mergeByKey(getApplicants(), backup.applicants, applicant => applicant.id))
+
+  restoreRuleSetHistory(
+    mergeByKey(getRuleSetHistory(), backup.ruleSets, ruleSet => ruleSet.version)
+      .sort((a, b) => a.version - b.version)
+  )
+  restoreAuditLog(
+    mergeByKey(getAuditLog(), backup.auditLog, entry => entry.id)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+  )
+  saveQuarantinedLoans(mergeByKey(getQuarantinedLoans(), backup.quarantine, entry => entry.id))
+}
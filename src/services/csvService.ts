@@ -0,0 +1,185 @@
+import type { CreateLoanInput, Currency, LoanApplication } from '../types/loan'
+import type { ValidationIssue } from '../types/i18n'
+import { createLoanApplications, getLoanInputErrors } from './loanService'
+import { DEFAULT_CURRENCY } from './currency'
+import { ValidationError } from './errors'
+
+/**
+ * Columns written by the CSV export, in order
+ */
+export const CSV_EXPORT_COLUMNS: (keyof LoanApplication)[] = [
+  'id',
+  'applicantName',
+  'amount',
+  'currency',
+  'termMonths',
+  'interestRate',
+  'status',
+  'createdAt'
+]
+
+/**
+ * Fields read from an imported file
+ * Imported loans are not linked to a registered applicant and carry no affordability data.
+ */
+type ImportField = Exclude<keyof CreateLoanInput, 'applicantId' | 'productId' | 'monthlyIncome' | 'monthlyObligations'>
+
+/**
+ * Accepted header names (lower case) for each imported field
+ */
+const IMPORT_COLUMN_ALIASES: Record<ImportField, string[]> = {
+  applicantName: ['applicantname', 'applicant', 'name'],
+  amount: ['amount'],
+  termMonths: ['termmonths', 'term'],
+  interestRate: ['interestrate', 'rate'],
+  currency: ['currency']
+}
+
+/**
+ * Imported fields that may be left out of the file
+ */
+const OPTIONAL_IMPORT_COLUMNS: ImportField[] = ['currency']
+
+/**
+ * One data row of an imported CSV file
+ */
+export interface CsvImportRow {
+  rowNumber: number       // 1-based, not counting the header row
+  input: CreateLoanInput  // values as read from the row
+  errors: ValidationIssue[] // empty when the row can be imported
+}
+
+/**
+ * Characters that make a spreadsheet read a cell as a formula
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+/**
+ * Quote a field if it contains a separator, quote or line break
+ * Fields a spreadsheet would run as a formula are prefixed with an apostrophe.
+ */
+function escapeCsvField(value: string): string {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+/**
+ * Remove the apostrophe the export puts before text a spreadsheet would run as a formula
+ */
+function unescapeFormula(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value
+}
+
+/**
+ * Serialize loans into CSV with a header row
+ */
+export function loansToCsv(loans: LoanApplication[]): string {
+  const rows = loans.map(loan =>
+    CSV_EXPORT_COLUMNS.map(column => escapeCsvField(String(loan[column] ?? ''))).join(',')
+  )
+  return [CSV_EXPORT_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n'
+}
+
+/**
+ * Split CSV text into rows of fields
+ * Supports quoted fields with escaped quotes and line breaks; blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  const endRow = () => {
+    row.push(field)
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row)
+    }
+    row = []
+    field = ''
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n') {
+      endRow()
+    } else if (char !== '\r') {
+      field += char
+    }
+  }
+  endRow()
+
+  return rows
+}
+
+/**
+ * Parse a numeric CSV value; percentages such as "8%" are converted to fractions
+ * Returns NaN for values that are not numbers.
+ */
+function parseNumber(value: string): number {
+  const trimmed = value.trim()
+  if (trimmed === '') {
+    return NaN
+  }
+  if (trimmed.endsWith('%')) {
+    return Number(trimmed.slice(0, -1)) / 100
+  }
+  return Number(trimmed)
+}
+
+/**
+ * Read loan applications from CSV text
+ * Columns are matched by header name (case-insensitive, e.g. "amount" or
+ * "Term"). Each row is validated with the same rules as
+ * createLoanApplication. Throws ValidationError when a required column is missing; rows
+ * without a currency get the default currency.
+ */
+export function parseLoanCsv(text: string): CsvImportRow[] {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) {
+    throw new ValidationError({ code: 'csvEmpty' })
+  }
+
+  const names = header.map(name => name.trim().toLowerCase())
+  const indexes = {} as Record<ImportField, number>
+  for (const [field, aliases] of Object.entries(IMPORT_COLUMN_ALIASES)) {
+    const index = names.findIndex(name => aliases.includes(name))
+    if (index === -1 && !OPTIONAL_IMPORT_COLUMNS.includes(field as ImportField)) {
+      throw new ValidationError({ code: 'csvMissingColumn', params: { column: field } })
+    }
+    indexes[field as ImportField] = index
+  }
+
+  return rows.map((row, i) => {
+    const input: CreateLoanInput = {
+      applicantName: unescapeFormula((row[indexes.applicantName] ?? '').trim()),
+      amount: parseNumber(row[indexes.amount] ?? ''),
+      termMonths: parseNumber(row[indexes.termMonths] ?? ''),
+      interestRate: parseNumber(row[indexes.interestRate] ?? ''),
+      currency: ((row[indexes.currency] ?? '').trim().toUpperCase() || DEFAULT_CURRENCY) as Currency
+    }
+    return { rowNumber: i + 1, input, errors: getLoanInputErrors(input) }
+  })
+}
+
+/**
+ * Create submitted loan applications from the valid rows of an import
+ * Rows with errors are skipped; the others are saved together.
+ */
+export function importLoanRows(rows: CsvImportRow[]): LoanApplication[] {
+  return createLoanApplications(rows.filter(row => row.errors.length === 0).map(row => row.input))
+}
@@ -0,0 +1,46 @@
+import type { Currency, LoanApplication } from '../types/loan'
+import { getLocaleTag } from '../i18n'
+
+/**
+ * Currencies loans can be granted in, in display order
+ */
+export const CURRENCIES: Currency[] = ['CZK', 'EUR', 'USD']
+
+/**
+ * Currency of new loans unless another one is chosen
+ * Loans stored before currencies were recorded were all in USD.
+ */
+export const DEFAULT_CURRENCY: Currency = 'USD'
+
+/**
+ * Check whether a value is a supported currency code
+ */
+export function isCurrency(value: unknown): value is Currency {
+  return CURRENCIES.includes(value as Currency)
+}
+
+/**
+ * Format an amount in the given currency for the current locale,
+ * e.g. "$1,234.50" or "CZK 1,234.50" in English and "1 234,50 Kč" in Czech
+ */
+export function formatCurrency(value: number, currency: Currency, fractionDigits = 2): string {
+  return new Intl.NumberFormat(getLocaleTag(), {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits
+  }).format(value)
+}
+
+/**
+ * Total loan amount per currency, in CURRENCIES order
+ * Currencies without any of the given loans are left out.
+ */
+export function sumByCurrency(loans: LoanApplication[]): { currency: Currency; total: number }[] {
+  return CURRENCIES.flatMap(currency => {
+    const inCurrency = loans.filter(loan => loan.currency === currency)
+    return inCurrency.length > 0
+      ? [{ currency, total: inCurrency.reduce((sum, loan) => sum + loan.amount, 0) }]
+      : []
+  })
+}
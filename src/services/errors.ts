@@ -0,0 +1,65 @@
+import type { LoanStatus } from '../types/loan'
+import type { MessageParams, ValidationCode, ValidationIssue } from '../types/i18n'
+import { translate } from '../i18n'
+
+/**
+ * Thrown when a loan status change is not allowed by the lifecycle
+ */
+export class InvalidStatusTransitionError extends Error {
+  readonly from: LoanStatus
+  readonly to: LoanStatus
+
+  constructor(from: LoanStatus, to: LoanStatus, message?: string) {
+    super(message ?? `Cannot change loan status from ${from} to ${to}`)
+    this.name = 'InvalidStatusTransitionError'
+    this.from = from
+    this.to = to
+  }
+}
+
+/**
+ * Thrown when stored loan data cannot be upgraded to the current schema
+ */
+export class SchemaMigrationError extends Error {
+  readonly fromVersion: number
+
+  constructor(fromVersion: number, message?: string) {
+    super(message ?? `Cannot migrate loan data from schema version ${fromVersion}`)
+    this.name = 'SchemaMigrationError'
+    this.fromVersion = fromVersion
+  }
+}
+
+/**
+ * Thrown when a loan was changed since the caller read it
+ */
+export class LoanConflictError extends Error {
+  readonly loanId: string
+  readonly expectedRevision: number
+  readonly actualRevision: number
+
+  constructor(loanId: string, expectedRevision: number, actualRevision: number) {
+    super(`Loan ${loanId} was changed elsewhere (expected revision ${expectedRevision}, found ${actualRevision})`)
+    this.name = 'LoanConflictError'
+    this.loanId = loanId
+    this.expectedRevision = expectedRevision
+    this.actualRevision = actualRevision
+  }
+}
+
+/**
+ * Thrown when user input or an imported file fails validation
+ * The code lets the UI show the problem in the user's language;
+ * the message is the English text.
+ */
+export class ValidationError extends Error {
+  readonly code: ValidationCode
+  readonly params: MessageParams
+
+  constructor(issue: ValidationIssue) {
+    super(translate('en', `validation.${issue.code}`, issue.params))
+    this.name = 'ValidationError'
+    this.code = issue.code
+    this.params = issue.params ?? {}
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Offer text content to the user as a file download
+ */
+export function downloadTextFile(filename: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
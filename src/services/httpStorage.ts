@@ -0,0 +1,37 @@
+import type { AsyncStorageBackend } from './storage'
+
+/**
+ * Asynchronous storage backend talking to a key/value HTTP API
+ * Expected endpoints (see mock-server/server.js):
+ * - GET    {baseUrl}/storage       → JSON object of all keys and values
+ * - PUT    {baseUrl}/storage/{key} → store the request body as the value
+ * - DELETE {baseUrl}/storage/{key} → remove the key
+ */
+export function createHttpBackend(baseUrl: string): AsyncStorageBackend {
+  const root = baseUrl.replace(/\/+$/, '')
+
+  async function request(path: string, init?: RequestInit): Promise<Response> {
+    const response = await fetch(`${root}${path}`, init)
+    if (!response.ok) {
+      throw new Error(`Storage request failed: ${init?.method ?? 'GET'} ${path} (${response.status})`)
+    }
+    return response
+  }
+
+  return {
+    loadAll: async () => {
+      const response = await request('/storage')
+      return await response.json() as Record<string, string>
+    },
+    set: async (key, value) => {
+      await request(`/storage/${encodeURIComponent(key)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'text/plain' },
+        body: value
+      })
+    },
+    remove: async key => {
+      await request(`/storage/${encodeURIComponent(key)}`, { method: 'DELETE' })
+    }
+  }
+}
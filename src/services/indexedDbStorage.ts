@@ -0,0 +1,59 @@
+import type { AsyncStorageBackend } from './storage'
+
+const DEFAULT_DB_NAME = 'tredgate'
+const STORE_NAME = 'keyval'
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Open (and create on first use) the key/value database
+ */
+function openDatabase(dbName: string): Promise<IDBDatabase> {
+  const request = indexedDB.open(dbName, 1)
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME)
+  }
+  return promisify(request)
+}
+
+/**
+ * Asynchronous storage backend using IndexedDB
+ * Suited to large datasets that exceed the localStorage quota.
+ */
+export function createIndexedDbBackend(dbName: string = DEFAULT_DB_NAME): AsyncStorageBackend {
+  let db: Promise<IDBDatabase> | null = null
+
+  function store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    db ??= openDatabase(dbName)
+    return db.then(database => database.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+  }
+
+  return {
+    loadAll: async () => {
+      const objectStore = await store('readonly')
+      const [keys, values] = await Promise.all([
+        promisify(objectStore.getAllKeys()),
+        promisify(objectStore.getAll())
+      ])
+      const entries: Record<string, string> = {}
+      keys.forEach((key, index) => {
+        entries[String(key)] = values[index] as string
+      })
+      return entries
+    },
+    set: async (key, value) => {
+      await promisify((await store('readwrite')).put(value, key))
+    },
+    remove: async key => {
+      await promisify((await store('readwrite')).delete(key))
+    }
+  }
+}
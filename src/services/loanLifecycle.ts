@@ -0,0 +1,121 @@
+import type { LoanStatus } from '../types/loan'
+
+/**
+ * Allowed status transitions of the loan lifecycle
+ * Any transition not listed here is illegal.
+ */
+export const LOAN_TRANSITIONS: Record<LoanStatus, LoanStatus[]> = {
+  draft: ['submitted', 'withdrawn'],
+  submitted: ['under_review', 'approved', 'rejected', 'withdrawn'],
+  under_review: ['approved', 'rejected', 'withdrawn'],
+  approved: ['disbursed', 'withdrawn'],
+  rejected: [],
+  withdrawn: [],
+  disbursed: ['repaid', 'defaulted'],
+  repaid: [],
+  defaulted: ['repaid']
+}
+
+/**
+ * Statuses in which a loan can be decided automatically
+ */
+export const AUTO_DECIDABLE_STATUSES: LoanStatus[] = ['submitted', 'under_review']
+
+/**
+ * Statuses a decision leads to: approved, rejected or referred for review
+ */
+export const DECISION_STATUSES: LoanStatus[] = ['approved', 'rejected', 'under_review']
+
+/**
+ * Statuses in which the loan terms may still be edited
+ */
+export const EDITABLE_STATUSES: LoanStatus[] = ['draft', 'submitted', 'under_review']
+
+/**
+ * Statuses in which a loan offer can be printed for the applicant
+ */
+export const OFFER_STATUSES: LoanStatus[] = ['approved', 'disbursed']
+
+/**
+ * Statuses in which the loan amount counts towards the applicant's exposure
+ */
+export const EXPOSURE_STATUSES: LoanStatus[] = ['approved', 'disbursed', 'defaulted']
+
+/**
+ * Statuses in which the loan is being or has been repaid, so its balance is tracked
+ */
+export const REPAYMENT_STATUSES: LoanStatus[] = ['disbursed', 'defaulted', 'repaid']
+
+/**
+ * Statuses in which installment payments can be recorded
+ */
+export const PAYMENT_STATUSES: LoanStatus[] = ['disbursed', 'defaulted']
+
+/**
+ * Statuses in which the applicant may still pay extra: from the application until repayment ends
+ */
+export const PREPAYMENT_STATUSES: LoanStatus[] = ['draft', 'submitted', 'under_review', 'approved', 'disbursed']
+
+/**
+ * Get the statuses a loan can move to from its current status
+ */
+export function getAllowedTransitions(status: LoanStatus): LoanStatus[] {
+  return LOAN_TRANSITIONS[status] ?? []
+}
+
+/**
+ * Check whether a loan may move from one status to another
+ */
+export function canTransition(from: LoanStatus, to: LoanStatus): boolean {
+  return getAllowedTransitions(from).includes(to)
+}
+
+/**
+ * Check whether a loan in the given status can be auto-decided
+ */
+export function canAutoDecide(status: LoanStatus): boolean {
+  return AUTO_DECIDABLE_STATUSES.includes(status)
+}
+
+/**
+ * Check whether a decision can be undone by putting the loan back from one status to another
+ * Only a decided loan can go back, and only to a status it could have been decided in.
+ */
+export function canRevertDecision(from: LoanStatus, to: LoanStatus): boolean {
+  return DECISION_STATUSES.includes(from) && canAutoDecide(to)
+}
+
+/**
+ * Check whether the terms of a loan in the given status can be edited
+ */
+export function canEdit(status: LoanStatus): boolean {
+  return EDITABLE_STATUSES.includes(status)
+}
+
+/**
+ * Check whether a loan offer can be printed for a loan in the given status
+ */
+export function canPrintOffer(status: LoanStatus): boolean {
+  return OFFER_STATUSES.includes(status)
+}
+
+/**
+ * Check whether the balance of a loan in the given status is tracked
+ */
+export function isRepaymentTracked(status: LoanStatus): boolean {
+  return REPAYMENT_STATUSES.includes(status)
+}
+
+/**
+ * Check whether payments can be recorded on a loan in the given status
+ */
+export function canRecordPayment(status: LoanStatus): boolean {
+  return PAYMENT_STATUSES.includes(status)
+}
+
+/**
+ * Check whether prepayments can be modelled for a loan in the given status
+ */
+export function canPrepay(status: LoanStatus): boolean {
+  return PREPAYMENT_STATUSES.includes(status)
+}
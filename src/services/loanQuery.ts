@@ -0,0 +1,318 @@
+import type { LoanApplication, LoanStatus } from '../types/loan'
+import type {
+  LoanFilter,
+  LoanListQuery,
+  LoanPage,
+  LoanQuery,
+  LoanSort,
+  LoanSortKey,
+  LoanStats
+} from '../types/loanQuery'
+import type { RepaymentBalance } from '../types/repayment'
+import { calculateAnnuityPayment } from './amortization'
+import { sumByCurrency } from './currency'
+import { isRepaymentTracked, LOAN_TRANSITIONS } from './loanLifecycle'
+import { getRepaymentBalance, toLocalDay } from './repaymentService'
+
+/**
+ * Statuses in lifecycle order, which is also their sort order
+ */
+const STATUS_ORDER = Object.keys(LOAN_TRANSITIONS) as LoanStatus[]
+
+// Loans awaiting a decision
+const PENDING_STATUSES: LoanStatus[] = ['submitted', 'under_review']
+// Loans that were approved, including those later disbursed, repaid or defaulted
+const APPROVED_STATUSES: LoanStatus[] = ['approved', 'disbursed', 'repaid', 'defaulted']
+
+/**
+ * Page sizes the loan list offers
+ */
+export const PAGE_SIZES = [25, 50, 100]
+
+export const DEFAULT_PAGE_SIZE = 25
+
+export const LOAN_SORT_KEYS: LoanSortKey[] = [
+  'applicantName',
+  'amount',
+  'termMonths',
+  'interestRate',
+  'monthlyPayment',
+  'creditScore',
+  'status',
+  'balance',
+  'nextDue',
+  'createdAt'
+]
+
+type NumberCriterion = 'minAmount' | 'maxAmount' | 'minRate' | 'maxRate'
+type DateCriterion = 'createdFrom' | 'createdTo'
+
+// Names of the URL parameters holding each filter criterion
+const NUMBER_PARAMS: [NumberCriterion, string][] = [
+  ['minAmount', 'amountMin'],
+  ['maxAmount', 'amountMax'],
+  ['minRate', 'rateMin'],
+  ['maxRate', 'rateMax']
+]
+const DATE_PARAMS: [DateCriterion, string][] = [
+  ['createdFrom', 'from'],
+  ['createdTo', 'to']
+]
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Balance and next due date of each repayment-tracked loan, by loan ID
+ * Working them out walks the repayment schedule, so they are kept for the
+ * revision they were worked out for instead of being redone on every sort.
+ */
+const repaymentBalances = new Map<string, { revision: number; balance: RepaymentBalance }>()
+
+function getCachedRepaymentBalance(loan: LoanApplication): RepaymentBalance {
+  const cached = repaymentBalances.get(loan.id)
+  if (cached?.revision === loan.revision) {
+    return cached.balance
+  }
+  const balance = getRepaymentBalance(loan)
+  repaymentBalances.set(loan.id, { revision: loan.revision, balance })
+  return balance
+}
+
+/**
+ * Check whether a loan meets every criterion of a filter
+ */
+export function matchesFilter(loan: LoanApplication, filter: LoanFilter): boolean {
+  const search = filter.search?.trim().toLocaleLowerCase()
+  if (search && !loan.applicantName.toLocaleLowerCase().includes(search)) {
+    return false
+  }
+  if (filter.status && loan.status !== filter.status) {
+    return false
+  }
+  if ((filter.minAmount !== undefined && loan.amount < filter.minAmount)
+    || (filter.maxAmount !== undefined && loan.amount > filter.maxAmount)) {
+    return false
+  }
+  if ((filter.minRate !== undefined && loan.interestRate < filter.minRate)
+    || (filter.maxRate !== undefined && loan.interestRate > filter.maxRate)) {
+    return false
+  }
+  if (filter.createdFrom || filter.createdTo) {
+    // The local day, as the loan list shows it
+    const created = toLocalDay(new Date(loan.createdAt))
+    if ((filter.createdFrom && created < filter.createdFrom) || (filter.createdTo && created > filter.createdTo)) {
+      return false
+    }
+  }
+  return true
+}
+
+/**
+ * Check whether a filter has any criterion set
+ */
+export function isFilterActive(filter: LoanFilter): boolean {
+  return Object.values(filter).some(value => value !== undefined && value !== '')
+}
+
+/**
+ * Value a loan is sorted by in a column, null when the loan has none
+ */
+export function getSortValue(loan: LoanApplication, key: LoanSortKey): number | string | null {
+  switch (key) {
+    case 'monthlyPayment':
+      return calculateAnnuityPayment(loan.amount, loan.interestRate, loan.termMonths)
+    case 'creditScore':
+      return loan.creditScore?.score ?? null
+    case 'status':
+      return STATUS_ORDER.indexOf(loan.status)
+    case 'balance':
+      return isRepaymentTracked(loan.status) ? getCachedRepaymentBalance(loan).outstandingPrincipal : null
+    case 'nextDue':
+      return isRepaymentTracked(loan.status) ? getCachedRepaymentBalance(loan).nextDueDate : null
+    default:
+      return loan[key]
+  }
+}
+
+/**
+ * Sort loans by a column without changing the given array
+ * Each value is calculated once per loan. Loans without a value come last in
+ * either direction, and loans with equal values keep their order.
+ */
+export function sortLoans(loans: LoanApplication[], sort: LoanSort): LoanApplication[] {
+  const factor = sort.direction === 'asc' ? 1 : -1
+  return loans
+    .map(loan => ({ loan, value: getSortValue(loan, sort.key) }))
+    .sort((a, b) => {
+      if (a.value === null || b.value === null) {
+        return a.value === b.value ? 0 : a.value === null ? 1 : -1
+      }
+      if (sort.key === 'applicantName') {
+        return factor * String(a.value).localeCompare(String(b.value))
+      }
+      return factor * (a.value < b.value ? -1 : a.value > b.value ? 1 : 0)
+    })
+    .map(entry => entry.loan)
+}
+
+/**
+ * Loans matching a filter, in the requested order
+ */
+export function applyLoanListQuery(loans: LoanApplication[], query: Pick<LoanListQuery, 'filter' | 'sort'>): LoanApplication[] {
+  const matching = isFilterActive(query.filter) ? loans.filter(loan => matchesFilter(loan, query.filter)) : loans
+  return query.sort ? sortLoans(matching, query.sort) : matching
+}
+
+/**
+ * Filter and sort loans, and return one window of the result with the number of matching loans
+ */
+export function queryLoanList(loans: LoanApplication[], query: LoanQuery): LoanPage {
+  const matching = applyLoanListQuery(loans, { filter: query.filter ?? {}, sort: query.sort })
+  const offset = Math.max(0, query.offset ?? 0)
+  const end = query.limit === undefined ? undefined : offset + Math.max(0, query.limit)
+  return { loans: matching.slice(offset, end), total: matching.length }
+}
+
+/**
+ * Request for the loans on the page of the loan list a list query points at
+ */
+export function toLoanQuery(query: LoanListQuery): LoanQuery {
+  const pageSize = query.pageSize ?? DEFAULT_PAGE_SIZE
+  return {
+    filter: query.filter,
+    sort: query.sort,
+    offset: ((query.page ?? 1) - 1) * pageSize,
+    limit: pageSize
+  }
+}
+
+/**
+ * Count loans by status group and add up the approved amounts per currency
+ * Loans in the trash are only counted as trashed.
+ */
+export function summarizeLoans(loans: LoanApplication[]): LoanStats {
+  const stats: LoanStats = { total: 0, pending: 0, approved: 0, rejected: 0, approvedTotals: [], trashed: 0 }
+  const approved: LoanApplication[] = []
+  loans.forEach(loan => {
+    if (loan.deletedAt) {
+      stats.trashed++
+      return
+    }
+    stats.total++
+    if (PENDING_STATUSES.includes(loan.status)) {
+      stats.pending++
+    } else if (APPROVED_STATUSES.includes(loan.status)) {
+      approved.push(loan)
+    } else if (loan.status === 'rejected') {
+      stats.rejected++
+    }
+  })
+  stats.approved = approved.length
+  // Amounts in different currencies are never added up
+  stats.approvedTotals = sumByCurrency(approved)
+  return stats
+}
+
+/**
+ * Number of pages needed for a number of loans, at least one
+ */
+export function getPageCount(total: number, pageSize: number): number {
+  return Math.max(1, Math.ceil(total / pageSize))
+}
+
+function parsePositiveInteger(value: string | null): number | undefined {
+  const number = parseNumber(value)
+  return number !== undefined && Number.isInteger(number) && number > 0 ? number : undefined
+}
+
+function parseNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') {
+    return undefined
+  }
+  const number = Number(value)
+  return Number.isFinite(number) ? number : undefined
+}
+
+/**
+ * Read the loan list filter, sort order and page from a URL query string
+ * Unknown or malformed parameters are ignored.
+ */
+export function parseLoanListQuery(search: string): LoanListQuery {
+  const params = new URLSearchParams(search)
+  const filter: LoanFilter = {}
+
+  const text = params.get('q')?.trim()
+  if (text) {
+    filter.search = text
+  }
+  const status = params.get('status')
+  if (status && STATUS_ORDER.includes(status as LoanStatus)) {
+    filter.status = status as LoanStatus
+  }
+  NUMBER_PARAMS.forEach(([field, name]) => {
+    const value = parseNumber(params.get(name))
+    if (value !== undefined) {
+      filter[field] = value
+    }
+  })
+  DATE_PARAMS.forEach(([field, name]) => {
+    const value = params.get(name)
+    if (value && DATE_PATTERN.test(value)) {
+      filter[field] = value
+    }
+  })
+
+  const key = params.get('sort')
+  const sort = key && LOAN_SORT_KEYS.includes(key as LoanSortKey)
+    ? { key: key as LoanSortKey, direction: params.get('dir') === 'desc' ? 'desc' as const : 'asc' as const }
+    : undefined
+
+  const page = parsePositiveInteger(params.get('page'))
+  const pageSize = parsePositiveInteger(params.get('size'))
+
+  return {
+    filter,
+    sort,
+    ...(page !== undefined && page > 1 ? { page } : {}),
+    ...(pageSize !== undefined && PAGE_SIZES.includes(pageSize) ? { pageSize } : {})
+  }
+}
+
+/**
+ * Write the loan list filter, sort order and page as a URL query string, without the leading '?'
+ * The first page and the default page size are left out.
+ */
+export function formatLoanListQuery(query: LoanListQuery): string {
+  const params = new URLSearchParams()
+  const { filter, sort } = query
+
+  if (filter.search?.trim()) {
+    params.set('q', filter.search.trim())
+  }
+  if (filter.status) {
+    params.set('status', filter.status)
+  }
+  NUMBER_PARAMS.forEach(([field, name]) => {
+    const value = filter[field]
+    if (value !== undefined) {
+      params.set(name, String(value))
+    }
+  })
+  DATE_PARAMS.forEach(([field, name]) => {
+    const value = filter[field]
+    if (value) {
+      params.set(name, value)
+    }
+  })
+  if (sort) {
+    params.set('sort', sort.key)
+    params.set('dir', sort.direction)
+  }
+  if (query.page !== undefined && query.page > 1) {
+    params.set('page', String(query.page))
+  }
+  if (query.pageSize !== undefined && query.pageSize !== DEFAULT_PAGE_SIZE) {
+    params.set('size', String(query.pageSize))
+  }
+
+  return params.toString()
+}
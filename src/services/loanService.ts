@@ -1,7 +1,62 @@
-import type { LoanApplication, LoanStatus, CreateLoanInput } from '../types/loan'
+import type {
+  LoanApplication,
+  LoanStatus,
+  CreateLoanInput,
+  LoanDecision,
+  LoanPayment,
+  RecordPaymentInput
+} from '../types/loan'
+import type { DecisionOutcome, RuleSet } from '../types/rules'
+import type { CreditScore } from '../types/scoring'
+import type { ValidationIssue } from '../types/i18n'
+import type { AuditChange } from '../types/audit'
+import type { LoanPage, LoanQuery, LoanStats } from '../types/loanQuery'
+import { calculateAnnuityPayment, roundCurrency } from './amortization'
+import { getRuleSet, getScorecard, evaluateRuleSet } from './ruleService'
+import { canAutoDecide, canEdit, canRecordPayment, canRevertDecision, canTransition } from './loanLifecycle'
+import { InvalidStatusTransitionError, LoanConflictError, SchemaMigrationError, ValidationError } from './errors'
+import { recordAuditEntries, recordAuditEntry, diffFields } from './auditService'
+import { getStorage } from './storage'
+import { reportStorageError } from './storageSetup'
+import { LOANS_SCHEMA_VERSION, getSchemaVersion, migrateLoans } from './migrations'
+import type { LoansPayload } from './migrations'
+import { findInvalidLoanFields, quarantineRecords } from './quarantineService'
+import { DEFAULT_CURRENCY, isCurrency } from './currency'
+import { getApplicant } from './applicantService'
+import { calculateAffordability } from './affordability'
+import { calculateScore, getScoringFacts, hasApplicantData } from './scoringService'
+import { getProduct, getProductErrors } from './productService'
+import { getRepaymentStatus, toLocalDay } from './repaymentService'
+import { queryLoanList, summarizeLoans } from './loanQuery'
 
 const STORAGE_KEY = 'tredgate_loans'
 
+const PAYMENT_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Loan fields tracked in the audit log
+ */
+const AUDITED_FIELDS = [
+  'applicantName', 'applicantId', 'productId', 'amount', 'currency', 'termMonths', 'interestRate',
+  'monthlyIncome', 'monthlyObligations', 'status'
+]
+
+/**
+ * Last payload read or written and the loans it holds
+ * Unchanged data is not parsed and validated again; callers get copies of the
+ * loans so that changing one does not change the cache.
+ */
+let loanCache: { stored: string; loans: LoanApplication[] } | null = null
+
+/**
+ * Loan stats and the cached loans they were worked out from
+ */
+let statsCache: { loans: LoanApplication[]; stats: LoanStats } | null = null
+
+function copyLoans(loans: LoanApplication[]): LoanApplication[] {
+  return loans.map(loan => ({ ...loan }))
+}
+
 /**
  * Generate a simple unique ID
  */
@@ -10,124 +65,604 @@ function generateId(): string {
 }
 
 /**
- * Load loans from localStorage
- * If there is nothing stored yet, returns an empty array
+ * Storage key holding the pre-migration payload of the given schema version
  */
-export function getLoans(): LoanApplication[] {
+export function getBackupKey(schemaVersion: number): string {
+  return `${STORAGE_KEY}_backup_v${schemaVersion}`
+}
+
+/**
+ * Parse the stored payload and upgrade it to the current schema
+ * When a migration runs, the original payload is kept under a backup key.
+ */
+function readStoredPayload(stored: string): { payload: LoansPayload<unknown>; migrated: boolean } {
+  const data: unknown = JSON.parse(stored)
+  const version = getSchemaVersion(data)
+  const payload = migrateLoans(data)
+  const migrated = version !== LOANS_SCHEMA_VERSION
+  if (migrated) {
+    getStorage().setItem(getBackupKey(version), stored)
+  }
+  return { payload, migrated }
+}
+
+/**
+ * Throw SchemaMigrationError when the stored loans were written by a newer build
+ * Such data cannot be read by this build, so it must not be overwritten either.
+ */
+function assertWritable(): void {
+  const stored = getStorage().getItem(STORAGE_KEY)
+  if (!stored || loanCache?.stored === stored) {
+    return
+  }
+  let version: number
   try {
-    const stored = localStorage.getItem(STORAGE_KEY)
-    if (!stored) {
+    version = getSchemaVersion(JSON.parse(stored))
+  } catch {
+    return
+  }
+  if (version > LOANS_SCHEMA_VERSION) {
+    throw new SchemaMigrationError(
+      version,
+      `Loan data schema version ${version} is newer than supported version ${LOANS_SCHEMA_VERSION}; changes cannot be saved`
+    )
+  }
+}
+
+/**
+ * Load all stored loans, including those in the trash
+ * If there is nothing stored yet, returns an empty array.
+ * Data written with an older schema is migrated and saved back. Records
+ * that fail validation are moved to quarantine instead of being dropped,
+ * and so is the whole payload if it cannot be read at all. Data written
+ * by a newer build reads as no loans, is reported as a storage error and
+ * is left untouched: saveLoans refuses to overwrite it.
+ */
+function loadAllLoans(): LoanApplication[] {
+  return copyLoans(readAllLoans())
+}
+
+/**
+ * Read all stored loans without copying them, for reads that hand out only part of them
+ * The cached loans are returned and must not be changed.
+ */
+function readAllLoans(): LoanApplication[] {
+  const stored = getStorage().getItem(STORAGE_KEY)
+  if (!stored) {
+    return []
+  }
+  if (loanCache?.stored === stored) {
+    return loanCache.loans
+  }
+
+  let result: ReturnType<typeof readStoredPayload>
+  try {
+    result = readStoredPayload(stored)
+  } catch (e) {
+    if (e instanceof SchemaMigrationError && e.fromVersion > LOANS_SCHEMA_VERSION) {
+      reportStorageError('newerSchema')
       return []
     }
-    return JSON.parse(stored) as LoanApplication[]
-  } catch {
+    quarantineRecords([{ record: stored, reason: e instanceof Error ? e.message : 'Unreadable loan data' }])
+    getStorage().removeItem(STORAGE_KEY)
     return []
   }
+
+  const loans: LoanApplication[] = []
+  const invalid: Array<{ record: unknown; reason: string }> = []
+  for (const record of result.payload.loans) {
+    const fields = findInvalidLoanFields(record)
+    if (fields.length === 0) {
+      loans.push(record as LoanApplication)
+    } else {
+      invalid.push({ record, reason: `Invalid fields: ${fields.join(', ')}` })
+    }
+  }
+
+  if (invalid.length > 0) {
+    quarantineRecords(invalid)
+  }
+  if (result.migrated || invalid.length > 0) {
+    saveLoans(loans)
+    return loanCache?.loans ?? loans
+  }
+  loanCache = { stored, loans }
+  return loans
 }
 
 /**
- * Persist the array of loans into localStorage
+ * Load the loans that are not in the trash
+ */
+export function getLoans(): LoanApplication[] {
+  return copyLoans(readAllLoans().filter(loan => !loan.deletedAt))
+}
+
+/**
+ * Find a loan that is not in the trash by ID
+ */
+export function getLoan(id: string): LoanApplication | undefined {
+  return getLoans().find(loan => loan.id === id)
+}
+
+/**
+ * Load one page of the loans that are not in the trash
+ * The loans are filtered and sorted before the page is taken, and the total
+ * counts every matching loan so callers can page through them.
+ */
+export function queryLoans(query: LoanQuery = {}): LoanPage {
+  const page = queryLoanList(readAllLoans().filter(loan => !loan.deletedAt), query)
+  return { loans: copyLoans(page.loans), total: page.total }
+}
+
+/**
+ * Count the stored loans by status group, with the approved amounts per currency
+ * and the number of loans in the trash
+ * The figures are worked out once for each version of the stored data.
+ */
+export function getLoanStats(): LoanStats {
+  const loans = readAllLoans()
+  if (statsCache?.loans !== loans) {
+    statsCache = { loans, stats: summarizeLoans(loans) }
+  }
+  return statsCache.stats
+}
+
+/**
+ * Load the loans in the trash, most recently deleted first
+ */
+export function getTrashedLoans(): LoanApplication[] {
+  return copyLoans(readAllLoans().filter(loan => loan.deletedAt))
+    .sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''))
+}
+
+/**
+ * Persist the array of all loans (including trashed ones) with the current schema version
+ * Throws SchemaMigrationError when the stored data was written by a newer build.
  */
 export function saveLoans(loans: LoanApplication[]): void {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(loans))
+  assertWritable()
+  const payload: LoansPayload = { schemaVersion: LOANS_SCHEMA_VERSION, loans }
+  const stored = JSON.stringify(payload)
+  getStorage().setItem(STORAGE_KEY, stored)
+  loanCache = { stored, loans: copyLoans(loans) }
 }
 
 /**
- * Create a new loan application
- * Validates basic data and appends to stored loans
+ * Call the listener whenever another tab changes the stored loans
+ * Returns a function that stops listening.
+ */
+export function subscribeToLoanChanges(listener: () => void): () => void {
+  const unsubscribe = getStorage().subscribe?.(key => {
+    if (key === STORAGE_KEY) {
+      listener()
+    }
+  })
+  return unsubscribe ?? (() => {})
+}
+
+/**
+ * List every validation error of loan input data
+ * Returns an empty array for valid input.
  */
-export function createLoanApplication(input: CreateLoanInput): LoanApplication {
-  // Validate input
+export function getLoanInputErrors(input: CreateLoanInput): ValidationIssue[] {
+  const errors: ValidationIssue[] = []
   if (!input.applicantName || input.applicantName.trim() === '') {
-    throw new Error('Applicant name is required')
+    errors.push({ code: 'applicantNameRequired' })
+  }
+  if (input.applicantId !== undefined && !getApplicant(input.applicantId)) {
+    errors.push({ code: 'applicantUnknown' })
+  }
+  if (Number.isNaN(input.amount)) {
+    errors.push({ code: 'amountNotANumber' })
+  } else if (input.amount <= 0) {
+    errors.push({ code: 'amountNotPositive' })
   }
-  if (input.amount <= 0) {
-    throw new Error('Amount must be greater than 0')
+  if (input.currency !== undefined && !isCurrency(input.currency)) {
+    errors.push({ code: 'currencyUnsupported', params: { currency: String(input.currency) } })
   }
-  if (input.termMonths <= 0) {
-    throw new Error('Term months must be greater than 0')
+  if (Number.isNaN(input.termMonths)) {
+    errors.push({ code: 'termNotANumber' })
+  } else if (input.termMonths <= 0) {
+    errors.push({ code: 'termNotPositive' })
+  } else if (!Number.isInteger(input.termMonths)) {
+    // The repayment schedule has one row per whole month
+    errors.push({ code: 'termNotWhole' })
   }
-  if (input.interestRate < 0) {
-    throw new Error('Interest rate cannot be negative')
+  if (Number.isNaN(input.interestRate)) {
+    errors.push({ code: 'rateNotANumber' })
+  } else if (input.interestRate < 0) {
+    errors.push({ code: 'rateNegative' })
   }
+  if (input.monthlyIncome !== undefined && !(input.monthlyIncome > 0)) {
+    errors.push({ code: 'incomeNotPositive' })
+  }
+  if (input.monthlyObligations !== undefined && !(input.monthlyObligations >= 0)) {
+    errors.push({ code: 'obligationsNegative' })
+  }
+  if (input.productId !== undefined) {
+    const product = getProduct(input.productId)
+    if (product) {
+      errors.push(...getProductErrors(product, input))
+    } else {
+      errors.push({ code: 'productUnknown', params: { product: String(input.productId) } })
+    }
+  }
+  return errors
+}
+
+/**
+ * Validate loan input data, throwing ValidationError on the first invalid field
+ */
+function validateLoanInput(input: CreateLoanInput): void {
+  const [issue] = getLoanInputErrors(input)
+  if (issue) {
+    throw new ValidationError(issue)
+  }
+}
+
+/**
+ * Throw LoanConflictError when the loan was changed since the caller read it
+ * No check is made when the caller does not pass the revision it read.
+ */
+function assertRevision(loan: LoanApplication, expectedRevision: number | undefined): void {
+  if (expectedRevision !== undefined && loan.revision !== expectedRevision) {
+    throw new LoanConflictError(loan.id, expectedRevision, loan.revision)
+  }
+}
+
+/**
+ * Find a loan that is not in the trash, throwing when there is none
+ */
+function findActiveLoan(loans: LoanApplication[], id: string): LoanApplication {
+  const loan = loans.find(l => l.id === id && !l.deletedAt)
+  if (!loan) {
+    throw new Error(`Loan with id ${id} not found`)
+  }
+  return loan
+}
+
+/**
+ * Find a loan in the trash, throwing when there is none
+ */
+function findTrashedLoan(loans: LoanApplication[], id: string): LoanApplication {
+  const loan = loans.find(l => l.id === id && l.deletedAt)
+  if (!loan) {
+    throw new Error(`Loan with id ${id} not found in trash`)
+  }
+  return loan
+}
+
+/**
+ * Score a loan with the scorecard of a rule set
+ * Age and employment are taken from the registered applicant, if any.
+ */
+function scoreLoan(loan: LoanApplication, ruleSet: RuleSet = getRuleSet()): CreditScore {
+  const applicant = loan.applicantId ? getApplicant(loan.applicantId) : undefined
+  return {
+    ...calculateScore(getScorecard(ruleSet), getScoringFacts(loan, applicant)),
+    ruleSetVersion: ruleSet.version,
+    scoredAt: new Date().toISOString()
+  }
+}
+
+/**
+ * Validate loan input and build a new, scored loan application from it
+ */
+function buildLoanApplication(input: CreateLoanInput, status: LoanStatus, ruleSet: RuleSet): LoanApplication {
+  validateLoanInput(input)
 
   const newLoan: LoanApplication = {
     id: generateId(),
     applicantName: input.applicantName.trim(),
+    ...(input.applicantId ? { applicantId: input.applicantId } : {}),
+    ...(input.productId ? { productId: input.productId } : {}),
     amount: input.amount,
+    currency: input.currency ?? DEFAULT_CURRENCY,
     termMonths: input.termMonths,
     interestRate: input.interestRate,
-    status: 'pending',
-    createdAt: new Date().toISOString()
+    ...(input.monthlyIncome !== undefined ? { monthlyIncome: input.monthlyIncome } : {}),
+    ...(input.monthlyObligations !== undefined ? { monthlyObligations: input.monthlyObligations } : {}),
+    status,
+    createdAt: new Date().toISOString(),
+    revision: 1
+  }
+  newLoan.creditScore = scoreLoan(newLoan, ruleSet)
+  return newLoan
+}
+
+/**
+ * Create a new loan application
+ * Validates basic data and appends to stored loans.
+ * Loans are submitted straight away unless saved as a draft.
+ */
+export function createLoanApplication(
+  input: CreateLoanInput,
+  status: 'draft' | 'submitted' = 'submitted'
+): LoanApplication {
+  return createLoanApplications([input], status)[0]!
+}
+
+/**
+ * Create several loan applications at once, e.g. from an import
+ * Every input is validated before anything is saved, and the loans are
+ * saved in a single write, so either all of them are created or none.
+ */
+export function createLoanApplications(
+  inputs: CreateLoanInput[],
+  status: 'draft' | 'submitted' = 'submitted'
+): LoanApplication[] {
+  const ruleSet = getRuleSet()
+  const newLoans = inputs.map(input => buildLoanApplication(input, status, ruleSet))
+  if (newLoans.length === 0) {
+    return []
   }
 
-  const loans = getLoans()
-  loans.push(newLoan)
+  const loans = loadAllLoans()
+  loans.push(...newLoans)
   saveLoans(loans)
+  recordAuditEntries(newLoans.map(loan => ({
+    loanId: loan.id,
+    action: 'created' as const,
+    changes: diffFields({}, loan, AUDITED_FIELDS)
+  })))
 
-  return newLoan
+  return newLoans
+}
+
+/**
+ * Edit the terms of a loan that is still awaiting a decision
+ * Validates the resulting data with the same rules as creation.
+ * Throws LoanConflictError when expectedRevision no longer matches.
+ */
+export function updateLoan(
+  id: string,
+  changes: Partial<CreateLoanInput>,
+  expectedRevision?: number
+): LoanApplication {
+  const loans = loadAllLoans()
+  const loan = findActiveLoan(loans, id)
+
+  assertRevision(loan, expectedRevision)
+  if (!canEdit(loan.status)) {
+    throw new Error(`Cannot edit a loan with status ${loan.status}`)
+  }
+
+  const updated: LoanApplication = { ...loan, ...changes }
+  validateLoanInput(updated)
+  updated.applicantName = updated.applicantName.trim()
+
+  const auditChanges = diffFields(loan, updated, AUDITED_FIELDS)
+  if (auditChanges.length === 0) {
+    return loan
+  }
+
+  Object.assign(loan, updated)
+  loan.creditScore = scoreLoan(loan)
+  loan.revision += 1
+  saveLoans(loans)
+  recordAuditEntry(id, 'edited', auditChanges)
+
+  return loan
 }
 
 /**
  * Update the status of a loan by ID
+ * Throws InvalidStatusTransitionError when the lifecycle does not allow the change
+ * and LoanConflictError when expectedRevision no longer matches.
  */
-export function updateLoanStatus(id: string, status: LoanStatus): void {
-  const loans = getLoans()
-  const loanIndex = loans.findIndex(loan => loan.id === id)
-  
-  if (loanIndex === -1) {
-    throw new Error(`Loan with id ${id} not found`)
+export function updateLoanStatus(id: string, status: LoanStatus, expectedRevision?: number): void {
+  const loans = loadAllLoans()
+  const loan = findActiveLoan(loans, id)
+
+  assertRevision(loan, expectedRevision)
+  if (!canTransition(loan.status, status)) {
+    throw new InvalidStatusTransitionError(loan.status, status)
   }
+  const before = loan.status
+  loan.status = status
+  if (status === 'disbursed') {
+    loan.disbursedAt = new Date().toISOString()
+  }
+  loan.revision += 1
+  saveLoans(loans)
+  recordAuditEntry(id, 'status_changed', [{ field: 'status', before, after: status }])
+}
+
+/**
+ * Put a loan back into the status and decision it had before a mistaken decision
+ * Used to undo an approval, rejection or automatic decision: the loan can
+ * only go back from a decided status to one it could be decided in. The
+ * decision (with its explanation) is replaced by the one given, and dropped
+ * when the loan had none. The revision check makes sure nothing else changed since.
+ * Throws InvalidStatusTransitionError when the loan cannot go back to the status.
+ */
+export function revertLoanStatus(
+  id: string,
+  status: LoanStatus,
+  expectedRevision: number,
+  decision?: LoanDecision
+): void {
+  const loans = loadAllLoans()
+  const loan = findActiveLoan(loans, id)
 
-  const loan = loans[loanIndex]
-  if (loan) {
-    loan.status = status
+  assertRevision(loan, expectedRevision)
+  if (!canRevertDecision(loan.status, status)) {
+    throw new InvalidStatusTransitionError(loan.status, status)
   }
+  const changes: AuditChange[] = [{ field: 'status', before: loan.status, after: status }]
+  const outcome = { before: loan.decision?.outcome ?? null, after: decision?.outcome ?? null }
+  if (outcome.before !== outcome.after) {
+    changes.push({ field: 'decision', ...outcome })
+  }
+  loan.status = status
+  if (decision) {
+    loan.decision = decision
+  } else {
+    delete loan.decision
+  }
+  loan.revision += 1
   saveLoans(loans)
+  recordAuditEntry(id, 'reverted', changes)
+}
+
+/**
+ * Record an installment payment received on a disbursed or defaulted loan
+ * The payment date is a YYYY-MM-DD local date; it may not be in the future,
+ * and the amount may not exceed what is left to repay.
+ * Throws LoanConflictError when expectedRevision no longer matches.
+ */
+export function recordPayment(id: string, input: RecordPaymentInput, expectedRevision?: number): LoanPayment {
+  const loans = loadAllLoans()
+  const loan = findActiveLoan(loans, id)
+
+  assertRevision(loan, expectedRevision)
+  if (!canRecordPayment(loan.status)) {
+    throw new Error(`Cannot record a payment on a loan with status ${loan.status}`)
+  }
+  if (!(input.amount > 0)) {
+    throw new ValidationError({ code: 'paymentNotPositive' })
+  }
+  // Compared with the local date, the day the payment form offers
+  if (!PAYMENT_DATE_PATTERN.test(input.paidOn) || Number.isNaN(Date.parse(input.paidOn)) || input.paidOn > toLocalDay()) {
+    throw new ValidationError({ code: 'paymentDateInvalid' })
+  }
+  const repayment = getRepaymentStatus(loan)
+  const balance = roundCurrency(repayment.outstandingPrincipal + repayment.outstandingInterest)
+  if (input.amount > balance) {
+    throw new ValidationError({ code: 'paymentExceedsBalance', params: { balance } })
+  }
+
+  const payment: LoanPayment = {
+    id: generateId(),
+    amount: roundCurrency(input.amount),
+    paidOn: input.paidOn,
+    recordedAt: new Date().toISOString()
+  }
+  loan.payments = [...(loan.payments ?? []), payment]
+  loan.revision += 1
+  saveLoans(loans)
+  recordAuditEntry(id, 'payment_recorded', [
+    { field: 'paidTotal', before: repayment.paidTotal, after: roundCurrency(repayment.paidTotal + payment.amount) }
+  ])
+
+  return payment
 }
 
 /**
  * Calculate the monthly payment for a loan
- * Uses a simple formula: total = amount * (1 + interestRate), monthly = total / termMonths
+ * Uses the annuity formula with the per-annum interest rate converted to a monthly rate
  */
 export function calculateMonthlyPayment(loan: LoanApplication): number {
-  const total = loan.amount * (1 + loan.interestRate)
-  return total / loan.termMonths
+  return calculateAnnuityPayment(loan.amount, loan.interestRate, loan.termMonths)
 }
 
 /**
- * Automatically decide on a loan based on simple rules:
- * - if amount <= 100000 AND termMonths <= 60 → approved
- * - otherwise → rejected
+ * Loan status resulting from each rule outcome
+ * Referred loans are put under review for a manual decision.
  */
-export function autoDecideLoan(id: string): void {
-  const loans = getLoans()
-  const loan = loans.find(l => l.id === id)
-  
-  if (!loan) {
-    throw new Error(`Loan with id ${id} not found`)
+const OUTCOME_STATUS: Record<DecisionOutcome, LoanStatus> = {
+  approve: 'approved',
+  reject: 'rejected',
+  refer: 'under_review'
+}
+
+/**
+ * Automatically decide on a submitted or under-review loan using the current rule set
+ * The first matching rule decides; the rule set's default outcome applies otherwise.
+ * A debt-to-income ratio above the rule set's limit rejects or refers the loan
+ * before any rule is evaluated. The loan is scored again with the rule set's scorecard,
+ * so rules can use credit score cut-offs; a loan without applicant or income data
+ * matches no cut-off. The decision, including the rule set version and every check performed
+ * (actual value versus threshold), is recorded on the loan.
+ * Throws LoanConflictError when expectedRevision no longer matches.
+ */
+export function autoDecideLoan(id: string, expectedRevision?: number): LoanDecision {
+  const loans = loadAllLoans()
+  const loan = findActiveLoan(loans, id)
+
+  assertRevision(loan, expectedRevision)
+  if (!canAutoDecide(loan.status)) {
+    throw new InvalidStatusTransitionError(
+      loan.status,
+      'approved',
+      `Cannot auto-decide a loan with status ${loan.status}`
+    )
   }
 
-  if (loan.amount <= 100000 && loan.termMonths <= 60) {
-    loan.status = 'approved'
-  } else {
-    loan.status = 'rejected'
+  // Rules can also use the debt-to-income ratio, disposable income and credit score
+  const affordability = calculateAffordability(loan)
+  const ruleSet = getRuleSet()
+  const creditScore = scoreLoan(loan, ruleSet)
+  const { outcome, rule, checks } = evaluateRuleSet(ruleSet, {
+    ...loan,
+    ...affordability,
+    // Without applicant or income data the score would fail every cut-off, so rules do not see it
+    ...(hasApplicantData(creditScore) ? { creditScore: creditScore.score, scoreBand: creditScore.band } : {})
+  })
+  const decision: LoanDecision = {
+    outcome,
+    ruleSetVersion: ruleSet.version,
+    ruleId: rule ? rule.id : null,
+    ruleName: rule ? rule.name : null,
+    decidedAt: new Date().toISOString(),
+    checks,
+    ...(affordability ? { affordability } : {})
   }
 
+  const before = { status: loan.status, decision: loan.decision?.outcome ?? null }
+  loan.status = OUTCOME_STATUS[outcome]
+  loan.decision = decision
+  loan.creditScore = creditScore
+  loan.revision += 1
+
   saveLoans(loans)
+  recordAuditEntry(id, 'auto_decided', [
+    { field: 'status', before: before.status, after: loan.status },
+    { field: 'decision', before: before.decision, after: outcome }
+  ])
+
+  return decision
 }
 
 /**
- * Delete a loan application by ID
+ * Move a loan application to the trash
+ * Trashed loans are hidden from getLoans until restored or purged.
+ * Throws LoanConflictError when expectedRevision no longer matches.
  */
-export function deleteLoan(id: string): void {
-  const loans = getLoans()
-  const loanIndex = loans.findIndex(loan => loan.id === id)
-  
-  if (loanIndex === -1) {
-    throw new Error(`Loan with id ${id} not found`)
-  }
+export function deleteLoan(id: string, expectedRevision?: number): void {
+  const loans = loadAllLoans()
+  const loan = findActiveLoan(loans, id)
 
-  loans.splice(loanIndex, 1)
+  assertRevision(loan, expectedRevision)
+  loan.deletedAt = new Date().toISOString()
+  loan.revision += 1
   saveLoans(loans)
+  recordAuditEntry(id, 'deleted', [{ field: 'deletedAt', before: null, after: loan.deletedAt }])
+}
+
+/**
+ * Move a loan application back out of the trash
+ * Throws LoanConflictError when expectedRevision no longer matches.
+ */
+export function restoreLoan(id: string, expectedRevision?: number): void {
+  const loans = loadAllLoans()
+  const loan = findTrashedLoan(loans, id)
+
+  assertRevision(loan, expectedRevision)
+  const before = loan.deletedAt ?? null
+  delete loan.deletedAt
+  loan.revision += 1
+  saveLoans(loans)
+  recordAuditEntry(id, 'restored', [{ field: 'deletedAt', before, after: null }])
+}
+
+/**
+ * Permanently remove a loan application from the trash
+ */
+export function purgeLoan(id: string): void {
+  const loans = loadAllLoans()
+  const loan = findTrashedLoan(loans, id)
+
+  saveLoans(loans.filter(l => l !== loan))
+  recordAuditEntry(id, 'purged', diffFields(loan, {}, AUDITED_FIELDS))
 }
@@ -0,0 +1,93 @@
+import type { LoanApplication } from '../types/loan'
+import { SchemaMigrationError } from './errors'
+
+/**
+ * Schema version written with the loans by this build
+ */
+export const LOANS_SCHEMA_VERSION = 4
+
+/**
+ * Shape of the payload persisted under the loans storage key
+ * Payloads written before versioning were a bare array of loans (version 1).
+ */
+export interface LoansPayload<T = LoanApplication> {
+  schemaVersion: number
+  loans: T[]
+}
+
+/**
+ * Upgrades the loans of one schema version to the next
+ * Records are only validated after migrating, so a migration must pass
+ * through anything it does not recognise unchanged.
+ */
+type Migration = (loans: unknown[]) => unknown[]
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Migrations keyed by the version they upgrade from
+ */
+export const MIGRATIONS: Record<number, Migration> = {
+  // v1 -> v2: 'pending' was replaced by the lifecycle statuses;
+  // pending loans were submitted and awaiting a decision
+  1: loans => loans.map(loan =>
+    isRecord(loan) && loan.status === 'pending' ? { ...loan, status: 'submitted' } : loan
+  ),
+  // v2 -> v3: loans carry a revision number for optimistic concurrency
+  2: loans => loans.map(loan =>
+    isRecord(loan) && loan.revision === undefined ? { ...loan, revision: 1 } : loan
+  ),
+  // v3 -> v4: loans carry a currency; all earlier loans were in USD
+  3: loans => loans.map(loan =>
+    isRecord(loan) && loan.currency === undefined ? { ...loan, currency: 'USD' } : loan
+  )
+}
+
+/**
+ * Read the schema version of a parsed payload
+ */
+export function getSchemaVersion(data: unknown): number {
+  if (Array.isArray(data)) {
+    return 1
+  }
+  if (data && typeof data === 'object' && 'schemaVersion' in data) {
+    const version = (data as { schemaVersion: unknown }).schemaVersion
+    if (typeof version === 'number' && Number.isInteger(version) && version >= 1) {
+      return version
+    }
+  }
+  throw new SchemaMigrationError(0, 'Stored loan data has no valid schema version')
+}
+
+/**
+ * Upgrade a parsed payload step by step to the current schema version
+ * The migrated records are not validated yet. Throws SchemaMigrationError
+ * for data written by a newer build or with a missing migration step.
+ */
+export function migrateLoans(data: unknown): LoansPayload<unknown> {
+  const fromVersion = getSchemaVersion(data)
+  if (fromVersion > LOANS_SCHEMA_VERSION) {
+    throw new SchemaMigrationError(
+      fromVersion,
+      `Loan data schema version ${fromVersion} is newer than supported version ${LOANS_SCHEMA_VERSION}`
+    )
+  }
+
+  const stored = Array.isArray(data) ? data : (data as { loans?: unknown }).loans
+  if (!Array.isArray(stored)) {
+    throw new SchemaMigrationError(fromVersion, 'Stored loan data has no list of loans')
+  }
+
+  let loans: unknown[] = stored
+  for (let version = fromVersion; version < LOANS_SCHEMA_VERSION; version++) {
+    const migration = MIGRATIONS[version]
+    if (!migration) {
+      throw new SchemaMigrationError(version, `No migration from schema version ${version}`)
+    }
+    loans = migration(loans)
+  }
+
+  return { schemaVersion: LOANS_SCHEMA_VERSION, loans }
+}
@@ -0,0 +1,112 @@
+import type { LoanApplication } from '../types/loan'
+import type {
+  PrepaymentComparison,
+  PrepaymentPlan,
+  PrepaymentRow,
+  PrepaymentScenario,
+  PrepaymentStrategy
+} from '../types/prepayment'
+import {
+  buildAmortizationSchedule,
+  calculateAnnuityPayment,
+  roundCurrency,
+  totalInterest
+} from './amortization'
+
+/**
+ * Loan terms a prepayment is modelled on
+ */
+export type PrepaymentLoan = Pick<LoanApplication, 'amount' | 'interestRate' | 'termMonths'>
+
+/**
+ * Strategies in the order they are compared
+ */
+export const PREPAYMENT_STRATEGIES: PrepaymentStrategy[] = ['shorten_term', 'reduce_installment']
+
+/**
+ * Extra payment planned with a given installment
+ */
+export function getPlannedPrepayment(plan: PrepaymentPlan, month: number): number {
+  if (month < plan.startMonth) {
+    return 0
+  }
+  switch (plan.frequency) {
+    case 'once':
+      return month === plan.startMonth ? plan.amount : 0
+    case 'monthly':
+      return plan.amount
+    case 'yearly':
+      return (month - plan.startMonth) % 12 === 0 ? plan.amount : 0
+  }
+}
+
+/**
+ * Build the repayment schedule of a loan with extra payments
+ * Each prepayment is made after the installment of its month and never exceeds the remaining balance.
+ * With 'shorten_term' the installment stays the same and the loan ends sooner; with
+ * 'reduce_installment' the installment is recalculated over the remaining term after each prepayment.
+ */
+export function buildPrepaymentSchedule(
+  loan: PrepaymentLoan,
+  plan: PrepaymentPlan,
+  strategy: PrepaymentStrategy
+): PrepaymentRow[] {
+  const monthlyRate = loan.interestRate / 12
+  let installment = roundCurrency(calculateAnnuityPayment(loan.amount, loan.interestRate, loan.termMonths))
+  let balance = loan.amount
+  const schedule: PrepaymentRow[] = []
+
+  for (let month = 1; month <= loan.termMonths && balance > 0; month++) {
+    const interest = roundCurrency(balance * monthlyRate)
+    const principal = month === loan.termMonths
+      ? roundCurrency(balance)
+      : roundCurrency(Math.min(installment - interest, balance))
+    balance = roundCurrency(balance - principal)
+    const prepayment = roundCurrency(Math.min(getPlannedPrepayment(plan, month), balance))
+    balance = roundCurrency(balance - prepayment)
+
+    schedule.push({ month, payment: roundCurrency(principal + interest), principal, interest, prepayment, balance })
+
+    if (strategy === 'reduce_installment' && prepayment > 0 && balance > 0) {
+      installment = roundCurrency(calculateAnnuityPayment(balance, loan.interestRate, loan.termMonths - month))
+    }
+  }
+
+  return schedule
+}
+
+/**
+ * Compare the original schedule of a loan with the schedule under each prepayment strategy
+ */
+export function comparePrepayment(loan: PrepaymentLoan, plan: PrepaymentPlan): PrepaymentComparison {
+  const originalInstallment = roundCurrency(calculateAnnuityPayment(loan.amount, loan.interestRate, loan.termMonths))
+  const originalInterest = totalInterest(buildAmortizationSchedule(loan.amount, loan.interestRate, loan.termMonths))
+
+  const scenario = (strategy: PrepaymentStrategy): PrepaymentScenario => {
+    const schedule = buildPrepaymentSchedule(loan, plan, strategy)
+    const interest = totalInterest(schedule)
+    // The first installment after the first prepayment shows the lowered installment
+    const afterPrepayment = schedule[schedule.findIndex(row => row.prepayment > 0) + 1]
+    return {
+      strategy,
+      schedule,
+      installment: strategy === 'shorten_term' ? originalInstallment : afterPrepayment?.payment ?? 0,
+      termMonths: schedule.length,
+      totalInterest: interest,
+      totalPrepaid: roundCurrency(schedule.reduce((sum, row) => sum + row.prepayment, 0)),
+      interestSaved: roundCurrency(originalInterest - interest)
+    }
+  }
+
+  return {
+    original: {
+      installment: originalInstallment,
+      termMonths: loan.termMonths,
+      totalInterest: originalInterest
+    },
+    scenarios: {
+      shorten_term: scenario('shorten_term'),
+      reduce_installment: scenario('reduce_installment')
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import type { CreateLoanInput, Currency } from '../types/loan'
+import type { AmountLimits, LoanProduct, ProductId } from '../types/product'
+import type { ValidationIssue } from '../types/i18n'
+import { DEFAULT_CURRENCY } from './currency'
+
+/**
+ * Catalog of loan products, in display order
+ * Amount limits are set for every currency separately rather than converted.
+ */
+export const LOAN_PRODUCTS: LoanProduct[] = [
+  {
+    id: 'personal',
+    amountLimits: {
+      CZK: { min: 25000, max: 1250000 },
+      EUR: { min: 1000, max: 45000 },
+      USD: { min: 1000, max: 50000 }
+    },
+    terms: [12, 24, 36, 48, 60],
+    minRate: 0.06,
+    maxRate: 0.18,
+    defaultRate: 0.09
+  },
+  {
+    id: 'auto',
+    amountLimits: {
+      CZK: { min: 100000, max: 2500000 },
+      EUR: { min: 5000, max: 90000 },
+      USD: { min: 5000, max: 100000 }
+    },
+    terms: [24, 36, 48, 60, 72, 84],
+    minRate: 0.04,
+    maxRate: 0.12,
+    defaultRate: 0.065
+  },
+  {
+    id: 'mortgage',
+    amountLimits: {
+      CZK: { min: 1000000, max: 25000000 },
+      EUR: { min: 50000, max: 900000 },
+      USD: { min: 50000, max: 1000000 }
+    },
+    terms: [120, 180, 240, 300, 360],
+    minRate: 0.03,
+    maxRate: 0.08,
+    defaultRate: 0.045
+  },
+  {
+    id: 'refinancing',
+    amountLimits: {
+      CZK: { min: 100000, max: 3500000 },
+      EUR: { min: 5000, max: 135000 },
+      USD: { min: 5000, max: 150000 }
+    },
+    terms: [12, 24, 36, 48, 60, 72, 84, 96, 108, 120],
+    minRate: 0.05,
+    maxRate: 0.15,
+    defaultRate: 0.08
+  }
+]
+
+/**
+ * Check whether a value is the ID of a product in the catalog
+ */
+export function isProductId(value: unknown): value is ProductId {
+  return LOAN_PRODUCTS.some(product => product.id === value)
+}
+
+/**
+ * Find a product in the catalog
+ */
+export function getProduct(id: string): LoanProduct | undefined {
+  return LOAN_PRODUCTS.find(product => product.id === id)
+}
+
+/**
+ * Amount limits of a product for loans in a currency
+ */
+export function getAmountLimits(product: LoanProduct, currency: Currency = DEFAULT_CURRENCY): AmountLimits {
+  return product.amountLimits[currency]
+}
+
+/**
+ * List the loan terms that fall outside a product's limits
+ * The amount is checked against the limits for the loan's currency. Values
+ * that are not numbers or currencies are left to the basic loan validation.
+ */
+export function getProductErrors(
+  product: LoanProduct,
+  input: Pick<CreateLoanInput, 'amount' | 'currency' | 'termMonths' | 'interestRate'>
+): ValidationIssue[] {
+  const errors: ValidationIssue[] = []
+  const currency = input.currency ?? DEFAULT_CURRENCY
+  const limits = product.amountLimits[currency] as AmountLimits | undefined
+  if (limits && (input.amount < limits.min || input.amount > limits.max)) {
+    errors.push({ code: 'amountOutsideProduct', params: { min: limits.min, max: limits.max, currency } })
+  }
+  if (!Number.isNaN(input.termMonths) && !product.terms.includes(input.termMonths)) {
+    errors.push({ code: 'termNotOffered', params: { terms: product.terms.join(', ') } })
+  }
+  if (input.interestRate < product.minRate || input.interestRate > product.maxRate) {
+    errors.push({ code: 'rateOutsideProduct', params: { min: product.minRate, max: product.maxRate } })
+  }
+  return errors
+}
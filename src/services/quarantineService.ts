@@ -0,0 +1,160 @@
+import type { LoanStatus, QuarantinedLoan } from '../types/loan'
+import type { ScoreBand } from '../types/scoring'
+import { LOAN_TRANSITIONS } from './loanLifecycle'
+import { isCurrency } from './currency'
+import { SCORE_BANDS } from './scoringService'
+import { isProductId } from './productService'
+import { getStorage } from './storage'
+
+const STORAGE_KEY = 'tredgate_loans_quarantine'
+
+const LOAN_STATUSES = Object.keys(LOAN_TRANSITIONS) as LoanStatus[]
+
+/**
+ * Generate a simple unique ID
+ */
+function generateId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substring(2, 9)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function isValidPayment(value: unknown): boolean {
+  return isRecord(value) && isFiniteNumber(value.amount) && value.amount > 0 &&
+    typeof value.paidOn === 'string' && !Number.isNaN(Date.parse(value.paidOn))
+}
+
+/**
+ * List the fields of a stored record that do not match the LoanApplication shape
+ * Returns an empty array for valid records.
+ */
+export function findInvalidLoanFields(record: unknown): string[] {
+  if (!isRecord(record)) {
+    return ['record']
+  }
+
+  const invalid: string[] = []
+  if (typeof record.id !== 'string' || record.id === '') {
+    invalid.push('id')
+  }
+  if (typeof record.applicantName !== 'string' || record.applicantName.trim() === '') {
+    invalid.push('applicantName')
+  }
+  if (record.applicantId !== undefined && (typeof record.applicantId !== 'string' || record.applicantId === '')) {
+    invalid.push('applicantId')
+  }
+  if (record.productId !== undefined && !isProductId(record.productId)) {
+    invalid.push('productId')
+  }
+  if (!isFiniteNumber(record.amount) || record.amount <= 0) {
+    invalid.push('amount')
+  }
+  if (!isCurrency(record.currency)) {
+    invalid.push('currency')
+  }
+  // Fractional terms saved before whole months were required stay readable
+  if (!isFiniteNumber(record.termMonths) || record.termMonths <= 0) {
+    invalid.push('termMonths')
+  }
+  if (!isFiniteNumber(record.interestRate) || record.interestRate < 0) {
+    invalid.push('interestRate')
+  }
+  if (record.monthlyIncome !== undefined && (!isFiniteNumber(record.monthlyIncome) || record.monthlyIncome <= 0)) {
+    invalid.push('monthlyIncome')
+  }
+  if (record.monthlyObligations !== undefined &&
+    (!isFiniteNumber(record.monthlyObligations) || record.monthlyObligations < 0)) {
+    invalid.push('monthlyObligations')
+  }
+  if (!LOAN_STATUSES.includes(record.status as LoanStatus)) {
+    invalid.push('status')
+  }
+  if (typeof record.createdAt !== 'string' || Number.isNaN(Date.parse(record.createdAt))) {
+    invalid.push('createdAt')
+  }
+  if (!Number.isInteger(record.revision) || (record.revision as number) < 1) {
+    invalid.push('revision')
+  }
+  if (record.deletedAt !== undefined &&
+    (typeof record.deletedAt !== 'string' || Number.isNaN(Date.parse(record.deletedAt)))) {
+    invalid.push('deletedAt')
+  }
+  if (record.disbursedAt !== undefined &&
+    (typeof record.disbursedAt !== 'string' || Number.isNaN(Date.parse(record.disbursedAt)))) {
+    invalid.push('disbursedAt')
+  }
+  if (record.payments !== undefined && (!Array.isArray(record.payments) || !record.payments.every(isValidPayment))) {
+    invalid.push('payments')
+  }
+  if (record.decision !== undefined &&
+    (!isRecord(record.decision) || !Array.isArray(record.decision.checks))) {
+    invalid.push('decision')
+  }
+  if (record.creditScore !== undefined &&
+    (!isRecord(record.creditScore) || !isFiniteNumber(record.creditScore.score) ||
+      !SCORE_BANDS.includes(record.creditScore.band as ScoreBand))) {
+    invalid.push('creditScore')
+  }
+  return invalid
+}
+
+/**
+ * Load the quarantined records, oldest first
+ */
+export function getQuarantinedLoans(): QuarantinedLoan[] {
+  try {
+    const stored = getStorage().getItem(STORAGE_KEY)
+    if (!stored) {
+      return []
+    }
+    return JSON.parse(stored) as QuarantinedLoan[]
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Store the given quarantined records, replacing the current ones
+ */
+export function saveQuarantinedLoans(entries: QuarantinedLoan[]): void {
+  if (entries.length === 0) {
+    getStorage().removeItem(STORAGE_KEY)
+  } else {
+    getStorage().setItem(STORAGE_KEY, JSON.stringify(entries))
+  }
+}
+
+/**
+ * Move stored records that could not be read into quarantine
+ */
+export function quarantineRecords(records: Array<{ record: unknown; reason: string }>): QuarantinedLoan[] {
+  const quarantinedAt = new Date().toISOString()
+  const added = records.map(({ record, reason }) => ({
+    id: generateId(),
+    quarantinedAt,
+    reason,
+    record
+  }))
+  saveQuarantinedLoans([...getQuarantinedLoans(), ...added])
+  return added
+}
+
+/**
+ * Permanently discard a quarantined record
+ */
+export function discardQuarantinedLoan(id: string): void {
+  saveQuarantinedLoans(getQuarantinedLoans().filter(entry => entry.id !== id))
+}
+
+/**
+ * Permanently discard all quarantined records
+ */
+export function discardAllQuarantinedLoans(): void {
+  saveQuarantinedLoans([])
+}
@@ -0,0 +1,72 @@
+import type { Currency } from '../types/loan'
+import type { AmountLimits, LoanProduct } from '../types/product'
+import type { LoanQuote, QuoteInput } from '../types/quote'
+import {
+  buildAmortizationSchedule,
+  calculateAnnuityPayment,
+  roundCurrency,
+  totalInterest,
+  totalRepayable
+} from './amortization'
+import { getAmountLimits } from './productService'
+
+/**
+ * Months added to or taken from the term of a custom loan for the alternatives
+ */
+export const ALTERNATIVE_TERM_STEP = 12
+
+/**
+ * Share of the amount added to or taken from it for the alternatives
+ */
+export const ALTERNATIVE_AMOUNT_STEP = 0.2
+
+/**
+ * Calculate the installment and totals of a loan on the given terms
+ */
+export function quoteLoan(input: QuoteInput): LoanQuote {
+  const schedule = buildAmortizationSchedule(input.amount, input.interestRate, input.termMonths)
+  return {
+    amount: input.amount,
+    termMonths: input.termMonths,
+    interestRate: input.interestRate,
+    installment: roundCurrency(calculateAnnuityPayment(input.amount, input.interestRate, input.termMonths)),
+    totalRepayable: totalRepayable(schedule),
+    totalInterest: totalInterest(schedule)
+  }
+}
+
+/**
+ * Next shorter and longer term: the neighbouring terms of the product, or a year less and more
+ */
+function alternativeTerms(termMonths: number, product?: LoanProduct): number[] {
+  if (product) {
+    const index = product.terms.indexOf(termMonths)
+    return index === -1 ? [] : [product.terms[index - 1], product.terms[index + 1]].filter(
+      (term): term is number => term !== undefined
+    )
+  }
+  return [termMonths - ALTERNATIVE_TERM_STEP, termMonths + ALTERNATIVE_TERM_STEP].filter(term => term >= 1)
+}
+
+/**
+ * A lower and a higher amount, rounded to hundreds and kept within the product's limits
+ */
+function alternativeAmounts(amount: number, limits?: AmountLimits): number[] {
+  return [amount * (1 - ALTERNATIVE_AMOUNT_STEP), amount * (1 + ALTERNATIVE_AMOUNT_STEP)]
+    .map(value => Math.round(value / 100) * 100)
+    .map(value => (limits ? Math.min(limits.max, Math.max(limits.min, value)) : value))
+    .filter((value, index, values) => value > 0 && value !== amount && values.indexOf(value) === index)
+}
+
+/**
+ * Quotes for a few alternatives to the given terms, at the same rate
+ * A shorter and a longer term come first, then a lower and a higher amount;
+ * alternatives a product does not offer in the loan's currency are left out.
+ */
+export function getAlternativeQuotes(input: QuoteInput, product?: LoanProduct, currency?: Currency): LoanQuote[] {
+  const limits = product ? getAmountLimits(product, currency) : undefined
+  return [
+    ...alternativeTerms(input.termMonths, product).map(termMonths => ({ ...input, termMonths })),
+    ...alternativeAmounts(input.amount, limits).map(amount => ({ ...input, amount }))
+  ].map(quoteLoan)
+}
@@ -0,0 +1,106 @@
+import type { LoanApplication } from '../types/loan'
+import type { InstallmentStatus, RepaymentBalance, RepaymentStatus } from '../types/repayment'
+import { buildAmortizationSchedule, roundCurrency } from './amortization'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Parse a YYYY-MM-DD date as UTC midnight
+ */
+function parseDay(date: string): number {
+  const [year = 1970, month = 1, day = 1] = date.split('-').map(Number)
+  return Date.UTC(year, month - 1, day)
+}
+
+/**
+ * Local calendar day of a date as YYYY-MM-DD, the day the officer sees in the app
+ */
+export function toLocalDay(date: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+/**
+ * Add months to a YYYY-MM-DD date, keeping to the last day of shorter months
+ * e.g. 2024-01-31 plus one month is 2024-02-29.
+ */
+export function addMonths(date: string, months: number): string {
+  const [year = 1970, month = 1, day = 1] = date.split('-').map(Number)
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate()
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().slice(0, 10)
+}
+
+/**
+ * Local day the repayment schedule starts from
+ * Loans disbursed before the disbursement date was recorded start from their creation.
+ */
+export function getRepaymentStart(loan: Pick<LoanApplication, 'createdAt' | 'disbursedAt'>): string {
+  return toLocalDay(new Date(loan.disbursedAt ?? loan.createdAt))
+}
+
+/**
+ * Work out how much of a loan is repaid and overdue on a given day
+ * Payments cover the installments in order, each one interest first;
+ * an installment is overdue from the day after its due date until paid in full.
+ * Days are local calendar days, so overdue loans change at local midnight.
+ */
+export function getRepaymentStatus(loan: LoanApplication, asOf: Date = new Date()): RepaymentStatus {
+  const start = getRepaymentStart(loan)
+  const today = parseDay(toLocalDay(asOf))
+  const paidTotal = roundCurrency((loan.payments ?? []).reduce((sum, payment) => sum + payment.amount, 0))
+
+  let available = paidTotal
+  const installments: InstallmentStatus[] = buildAmortizationSchedule(loan.amount, loan.interestRate, loan.termMonths)
+    .map(row => {
+      const paid = roundCurrency(Math.min(available, row.payment))
+      available = roundCurrency(available - paid)
+      return { ...row, dueDate: addMonths(start, row.month), paid }
+    })
+
+  let principalPaid = 0
+  let interestPaid = 0
+  installments.forEach(installment => {
+    const interest = Math.min(installment.paid, installment.interest)
+    interestPaid += interest
+    principalPaid += installment.paid - interest
+  })
+
+  const unpaid = installments.filter(installment => installment.paid < installment.payment)
+  const overdue = unpaid.filter(installment => parseDay(installment.dueDate) < today)
+  const oldest = overdue[0]
+
+  return {
+    installments,
+    paidTotal,
+    outstandingPrincipal: roundCurrency(loan.amount - principalPaid),
+    outstandingInterest: roundCurrency(installments.reduce((sum, row) => sum + row.interest, 0) - interestPaid),
+    nextDue: unpaid[0] ?? null,
+    overdueAmount: roundCurrency(overdue.reduce((sum, row) => sum + row.payment - row.paid, 0)),
+    daysPastDue: oldest ? Math.round((today - parseDay(oldest.dueDate)) / DAY_MS) : 0
+  }
+}
+
+/**
+ * Work out the outstanding principal and next due date of a loan
+ * Gives the same figures as getRepaymentStatus without dating every
+ * installment; neither depends on the day, so they hold until the loan changes.
+ */
+export function getRepaymentBalance(loan: LoanApplication): RepaymentBalance {
+  let available = roundCurrency((loan.payments ?? []).reduce((sum, payment) => sum + payment.amount, 0))
+  let principalPaid = 0
+  let nextDueMonth: number | null = null
+
+  for (const row of buildAmortizationSchedule(loan.amount, loan.interestRate, loan.termMonths)) {
+    const paid = roundCurrency(Math.min(available, row.payment))
+    available = roundCurrency(available - paid)
+    principalPaid += paid - Math.min(paid, row.interest)
+    if (nextDueMonth === null && paid < row.payment) {
+      nextDueMonth = row.month
+    }
+  }
+
+  return {
+    outstandingPrincipal: roundCurrency(loan.amount - principalPaid),
+    nextDueDate: nextDueMonth === null ? null : addMonths(getRepaymentStart(loan), nextDueMonth)
+  }
+}
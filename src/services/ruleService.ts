@@ -0,0 +1,397 @@
+import type { DecisionCheck } from '../types/loan'
+import type {
+  AffordabilityPolicy,
+  DecisionOutcome,
+  DecisionRule,
+  RuleCondition,
+  RuleOperator,
+  RuleSet,
+  RuleSetInput
+} from '../types/rules'
+import type { Scorecard } from '../types/scoring'
+import type { MessageKey } from '../i18n'
+import { getStorage } from './storage'
+import { ValidationError } from './errors'
+import { DEFAULT_SCORECARD } from './scoringService'
+
+const STORAGE_KEY = 'tredgate_rule_sets'
+
+/**
+ * How a rule field's values are displayed
+ */
+export type RuleFieldFormat = 'currency' | 'percent' | 'number'
+
+/**
+ * Loan fields offered when editing rule conditions
+ * The engine itself accepts any field present on the loan.
+ */
+export const RULE_FIELDS: { field: string; labelKey: MessageKey; format: RuleFieldFormat }[] = [
+  { field: 'amount', labelKey: 'ruleField.amount', format: 'currency' },
+  { field: 'termMonths', labelKey: 'ruleField.termMonths', format: 'number' },
+  { field: 'interestRate', labelKey: 'ruleField.interestRate', format: 'percent' },
+  { field: 'dti', labelKey: 'ruleField.dti', format: 'percent' },
+  { field: 'disposableIncome', labelKey: 'ruleField.disposableIncome', format: 'currency' },
+  { field: 'creditScore', labelKey: 'ruleField.creditScore', format: 'number' }
+]
+
+/**
+ * ID under which the debt-to-income limit appears in decisions, as if it were the first rule
+ */
+export const AFFORDABILITY_RULE_ID = 'affordability'
+
+/**
+ * Debt-to-income limit used until the credit policy sets its own
+ */
+export const DEFAULT_AFFORDABILITY: AffordabilityPolicy = { maxDti: 0.4, outcome: 'refer' }
+
+/**
+ * Rule referring loans scored below band C for a manual decision, added with the scorecard
+ * Loans without applicant or income data have no score to check and never match it.
+ */
+export const SCORE_CUTOFF_RULE: DecisionRule = {
+  id: 'score-cutoff',
+  name: 'Minimum credit score',
+  combinator: 'and',
+  conditions: [{ field: 'creditScore', operator: 'lt', value: 600 }],
+  outcome: 'refer'
+}
+
+/**
+ * Operators with their display symbols
+ */
+export const RULE_OPERATORS: { operator: RuleOperator; label: string }[] = [
+  { operator: 'lt', label: '<' },
+  { operator: 'lte', label: '≤' },
+  { operator: 'gt', label: '>' },
+  { operator: 'gte', label: '≥' },
+  { operator: 'eq', label: '=' },
+  { operator: 'neq', label: '≠' }
+]
+
+/**
+ * First rule set, as shipped
+ * Mirrors the original policy: approve if amount <= 100000 AND termMonths <= 60.
+ * Later policy changes are added as new versions by RULE_SET_UPGRADES.
+ */
+export const DEFAULT_RULE_SET: RuleSet = {
+  version: 1,
+  updatedAt: '1970-01-01T00:00:00.000Z',
+  rules: [
+    {
+      id: 'standard-limits',
+      name: 'Standard limits',
+      combinator: 'and',
+      conditions: [
+        { field: 'amount', operator: 'lte', value: 100000 },
+        { field: 'termMonths', operator: 'lte', value: 60 }
+      ],
+      outcome: 'approve'
+    }
+  ],
+  defaultOutcome: 'reject'
+}
+
+/**
+ * A policy change shipped after the first rule set
+ * It is added to the rule set history as a new version built on the latest
+ * one, so decisions already made keep the version they were made with.
+ */
+interface RuleSetUpgrade {
+  id: string
+  apply: (ruleSet: RuleSet) => RuleSetInput
+}
+
+/**
+ * Built-in policy changes, in the order they were shipped
+ */
+const RULE_SET_UPGRADES: RuleSetUpgrade[] = [
+  // Debt-to-income limit, unless the policy already sets one
+  {
+    id: 'affordability',
+    apply: ruleSet => ({ ...ruleSet, affordability: ruleSet.affordability ?? DEFAULT_AFFORDABILITY })
+  },
+  // Credit scorecard, with a score cut-off checked before the other rules
+  {
+    id: 'credit-score',
+    apply: ruleSet => ({
+      ...ruleSet,
+      rules: ruleSet.rules.some(rule => rule.id === SCORE_CUTOFF_RULE.id)
+        ? ruleSet.rules
+        : [SCORE_CUTOFF_RULE, ...ruleSet.rules],
+      scorecard: ruleSet.scorecard ?? DEFAULT_SCORECARD
+    })
+  }
+]
+
+/**
+ * Result of evaluating a rule set against a loan
+ */
+export interface RuleSetEvaluation {
+  outcome: DecisionOutcome
+  rule: DecisionRule | null // matching rule, null when the default outcome applied
+  checks: DecisionCheck[]   // conditions of every rule evaluated, in order
+}
+
+/**
+ * Append a version for every built-in upgrade the history does not contain yet
+ * Returns the same array when there is nothing to add.
+ */
+function upgradeRuleSetHistory(history: RuleSet[], updatedAt: string): RuleSet[] {
+  return RULE_SET_UPGRADES.reduce((upgraded, upgrade) => {
+    if (upgraded.some(ruleSet => ruleSet.upgrade === upgrade.id)) {
+      return upgraded
+    }
+    const current = upgraded[upgraded.length - 1] ?? DEFAULT_RULE_SET
+    const { rules, defaultOutcome, affordability, scorecard } = upgrade.apply(current)
+    return [...upgraded, {
+      version: current.version + 1,
+      updatedAt,
+      rules,
+      defaultOutcome,
+      ...(affordability ? { affordability } : {}),
+      ...(scorecard ? { scorecard } : {}),
+      upgrade: upgrade.id
+    }]
+  }, history)
+}
+
+function readStoredHistory(): RuleSet[] {
+  try {
+    const stored = getStorage().getItem(STORAGE_KEY)
+    return stored ? JSON.parse(stored) as RuleSet[] : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Load every rule set version, oldest first
+ * Without a stored history the built-in versions apply. A stored history
+ * missing a built-in upgrade gets it as a new version, which is saved.
+ */
+export function getRuleSetHistory(): RuleSet[] {
+  const stored = readStoredHistory()
+  if (stored.length === 0) {
+    return upgradeRuleSetHistory([DEFAULT_RULE_SET], DEFAULT_RULE_SET.updatedAt)
+  }
+  const history = upgradeRuleSetHistory(stored, new Date().toISOString())
+  if (history !== stored) {
+    getStorage().setItem(STORAGE_KEY, JSON.stringify(history))
+  }
+  return history
+}
+
+/**
+ * Get the current (latest) rule set
+ */
+export function getRuleSet(): RuleSet {
+  const history = getRuleSetHistory()
+  return history[history.length - 1] ?? DEFAULT_RULE_SET
+}
+
+/**
+ * Find a specific rule set version, e.g. the one recorded on a decision
+ */
+export function getRuleSetVersion(version: number): RuleSet | undefined {
+  return getRuleSetHistory().find(ruleSet => ruleSet.version === version)
+}
+
+/**
+ * Scorecard of a rule set, falling back to the default for versions saved before scoring
+ */
+export function getScorecard(ruleSet: RuleSet = getRuleSet()): Scorecard {
+  return ruleSet.scorecard ?? DEFAULT_SCORECARD
+}
+
+function isFiniteNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+/**
+ * Check that every score and points value is a number and the band cut-offs go down
+ */
+function validateScorecard(scorecard: Scorecard): void {
+  const values = [
+    scorecard.baseScore,
+    ...scorecard.attributes.flatMap(attribute => [attribute.missingPoints, ...attribute.bins.map(bin => bin.points)]),
+    ...scorecard.bands.map(band => band.minScore)
+  ]
+  if (scorecard.bands.length === 0 || !values.every(isFiniteNumber)) {
+    throw new ValidationError({ code: 'scorecardInvalid' })
+  }
+  scorecard.bands.forEach((entry, index) => {
+    const better = scorecard.bands[index - 1]
+    if (better && entry.minScore >= better.minScore) {
+      throw new ValidationError({ code: 'scoreBandsUnordered', params: { band: entry.band, better: better.band } })
+    }
+  })
+}
+
+/**
+ * Validate a rule set before it is saved, throwing ValidationError on the first problem
+ */
+function validateRuleSet(input: RuleSetInput): void {
+  const operators = RULE_OPERATORS.map(o => o.operator)
+
+  if (input.affordability) {
+    const { maxDti, outcome } = input.affordability
+    if (typeof maxDti !== 'number' || !Number.isFinite(maxDti) || maxDti <= 0) {
+      throw new ValidationError({ code: 'maxDtiInvalid' })
+    }
+    if (outcome !== 'reject' && outcome !== 'refer') {
+      throw new ValidationError({ code: 'affordabilityOutcomeInvalid', params: { outcome: String(outcome) } })
+    }
+  }
+  if (input.scorecard) {
+    validateScorecard(input.scorecard)
+  }
+
+  input.rules.forEach((rule, index) => {
+    if (!rule.name || rule.name.trim() === '') {
+      throw new ValidationError({ code: 'ruleNameRequired', params: { index: index + 1 } })
+    }
+    if (rule.conditions.length === 0) {
+      throw new ValidationError({ code: 'ruleConditionsRequired', params: { name: rule.name } })
+    }
+    rule.conditions.forEach(condition => {
+      if (!condition.field) {
+        throw new ValidationError({ code: 'conditionFieldRequired', params: { name: rule.name } })
+      }
+      if (!operators.includes(condition.operator)) {
+        throw new ValidationError({ code: 'conditionOperatorUnknown', params: { name: rule.name, operator: condition.operator } })
+      }
+      if (condition.value === '' || Number.isNaN(condition.value)) {
+        throw new ValidationError({ code: 'conditionValueRequired', params: { name: rule.name } })
+      }
+    })
+  })
+}
+
+/**
+ * Save the rule set as a new version
+ * Previous versions are kept so past decisions can be traced back to their rules.
+ */
+export function saveRuleSet(input: RuleSetInput): RuleSet {
+  validateRuleSet(input)
+
+  const history = getRuleSetHistory()
+  const current = history[history.length - 1] ?? DEFAULT_RULE_SET
+  const ruleSet: RuleSet = {
+    version: current.version + 1,
+    updatedAt: new Date().toISOString(),
+    rules: input.rules.map(rule => ({ ...rule, name: rule.name.trim() })),
+    defaultOutcome: input.defaultOutcome,
+    ...(input.affordability ? { affordability: { ...input.affordability } } : {}),
+    ...(input.scorecard ? { scorecard: JSON.parse(JSON.stringify(input.scorecard)) as Scorecard } : {})
+  }
+
+  history.push(ruleSet)
+  getStorage().setItem(STORAGE_KEY, JSON.stringify(history))
+
+  return ruleSet
+}
+
+/**
+ * Replace the whole rule set history, e.g. when restoring a backup
+ */
+export function restoreRuleSetHistory(history: RuleSet[]): void {
+  getStorage().setItem(STORAGE_KEY, JSON.stringify(history))
+}
+
+/**
+ * Read a field value from the facts a rule is evaluated against
+ */
+function readField(facts: object, field: string): number | string | null {
+  const value = (facts as Record<string, unknown>)[field]
+  if (typeof value === 'number' || typeof value === 'string') {
+    return value
+  }
+  return null
+}
+
+/**
+ * Compare a single field value against a condition threshold
+ * Missing fields never match.
+ */
+export function evaluateCondition(condition: RuleCondition, facts: object): boolean {
+  const actual = readField(facts, condition.field)
+  if (actual === null) {
+    return false
+  }
+
+  const expected = condition.value
+  switch (condition.operator) {
+    case 'lt':
+      return Number(actual) < Number(expected)
+    case 'lte':
+      return Number(actual) <= Number(expected)
+    case 'gt':
+      return Number(actual) > Number(expected)
+    case 'gte':
+      return Number(actual) >= Number(expected)
+    case 'eq':
+      return String(actual) === String(expected)
+    case 'neq':
+      return String(actual) !== String(expected)
+  }
+}
+
+/**
+ * Check whether all (AND) or any (OR) of a rule's conditions match
+ */
+export function evaluateRule(rule: DecisionRule, facts: object): boolean {
+  return rule.combinator === 'and'
+    ? rule.conditions.every(condition => evaluateCondition(condition, facts))
+    : rule.conditions.some(condition => evaluateCondition(condition, facts))
+}
+
+/**
+ * Record the result of every condition of a rule
+ */
+function checkRule(rule: DecisionRule, facts: object): DecisionCheck[] {
+  return rule.conditions.map(condition => ({
+    ruleId: rule.id,
+    ruleName: rule.name,
+    field: condition.field,
+    operator: condition.operator,
+    threshold: condition.value,
+    actual: readField(facts, condition.field),
+    passed: evaluateCondition(condition, facts)
+  }))
+}
+
+/**
+ * The debt-to-income limit as a rule that matches when the ratio is too high
+ * Facts without a ratio (no income given) never match it.
+ */
+function affordabilityRule(policy: AffordabilityPolicy): DecisionRule {
+  return {
+    id: AFFORDABILITY_RULE_ID,
+    name: 'Debt-to-income limit',
+    combinator: 'and',
+    conditions: [{ field: 'dti', operator: 'gt', value: policy.maxDti }],
+    outcome: policy.outcome
+  }
+}
+
+/**
+ * Evaluate a rule set top to bottom; the first matching rule decides
+ * The debt-to-income limit, if any, is checked before the rules. Checks are
+ * collected for each rule evaluated up to and including the match, so the
+ * decision can be explained afterwards.
+ */
+export function evaluateRuleSet(ruleSet: RuleSet, facts: object): RuleSetEvaluation {
+  const checks: DecisionCheck[] = []
+  const rules = ruleSet.affordability
+    ? [affordabilityRule(ruleSet.affordability), ...ruleSet.rules]
+    : ruleSet.rules
+
+  for (const rule of rules) {
+    checks.push(...checkRule(rule, facts))
+    if (evaluateRule(rule, facts)) {
+      return { outcome: rule.outcome, rule, checks }
+    }
+  }
+
+  return { outcome: ruleSet.defaultOutcome, rule: null, checks }
+}
@@ -0,0 +1,183 @@
+import type { Applicant } from '../types/applicant'
+import type {
+  CreditScore,
+  ScoreAttribute,
+  ScoreBand,
+  ScoreBin,
+  Scorecard
+} from '../types/scoring'
+import { calculateAffordability } from './affordability'
+import type { AffordabilityInput } from './affordability'
+
+/**
+ * Attributes known from the applicant and their income rather than from the loan terms
+ */
+const APPLICANT_ATTRIBUTES: ScoreAttribute[] = ['age', 'employment', 'monthlyIncome', 'dti']
+
+/**
+ * Score bands from the best to the worst
+ */
+export const SCORE_BANDS: ScoreBand[] = ['A', 'B', 'C', 'D', 'E']
+
+/**
+ * Scorecard used until the credit policy sets its own
+ * Scores range from 500 to 785. Amount bins are compared with the amount in
+ * the loan's own currency, like the decision rules.
+ */
+export const DEFAULT_SCORECARD: Scorecard = {
+  baseScore: 500,
+  attributes: [
+    {
+      attribute: 'age',
+      bins: [
+        { max: 25, points: 10 },
+        { min: 25, max: 35, points: 30 },
+        { min: 35, max: 50, points: 45 },
+        { min: 50, max: 65, points: 40 },
+        { min: 65, points: 20 }
+      ],
+      missingPoints: 15
+    },
+    {
+      attribute: 'employment',
+      bins: [
+        { value: 'employed', points: 50 },
+        { value: 'self_employed', points: 35 },
+        { value: 'retired', points: 35 },
+        { value: 'student', points: 10 },
+        { value: 'unemployed', points: 0 }
+      ],
+      missingPoints: 15
+    },
+    {
+      attribute: 'monthlyIncome',
+      bins: [
+        { max: 1500, points: 5 },
+        { min: 1500, max: 3000, points: 25 },
+        { min: 3000, max: 6000, points: 45 },
+        { min: 6000, points: 60 }
+      ],
+      missingPoints: 0
+    },
+    {
+      attribute: 'dti',
+      bins: [
+        { max: 0.2, points: 70 },
+        { min: 0.2, max: 0.35, points: 50 },
+        { min: 0.35, max: 0.5, points: 20 },
+        { min: 0.5, points: 0 }
+      ],
+      missingPoints: 10
+    },
+    {
+      attribute: 'amount',
+      bins: [
+        { max: 10000, points: 30 },
+        { min: 10000, max: 50000, points: 20 },
+        { min: 50000, max: 100000, points: 10 },
+        { min: 100000, points: 0 }
+      ],
+      missingPoints: 0
+    },
+    {
+      attribute: 'termMonths',
+      bins: [
+        { max: 25, points: 30 },
+        { min: 25, max: 61, points: 20 },
+        { min: 61, points: 5 }
+      ],
+      missingPoints: 0
+    }
+  ],
+  bands: [
+    { band: 'A', minScore: 720 },
+    { band: 'B', minScore: 660 },
+    { band: 'C', minScore: 600 },
+    { band: 'D', minScore: 540 },
+    { band: 'E', minScore: 0 }
+  ]
+}
+
+/**
+ * Attribute values a score is calculated from, null when unknown
+ */
+export type ScoringFacts = Record<ScoreAttribute, number | string | null>
+
+/**
+ * Score and band without the details of when and with which rule set they were calculated
+ */
+export type ScoreResult = Pick<CreditScore, 'score' | 'band' | 'contributions'>
+
+/**
+ * Age in whole years on a given date
+ * dateOfBirth is a YYYY-MM-DD date.
+ */
+export function ageOn(dateOfBirth: string, date: Date): number {
+  const [year = 0, month = 1, day = 1] = dateOfBirth.split('-').map(Number)
+  let age = date.getFullYear() - year
+  if (date.getMonth() + 1 < month || (date.getMonth() + 1 === month && date.getDate() < day)) {
+    age -= 1
+  }
+  return age
+}
+
+/**
+ * Collect the attributes to score from a loan and its registered applicant
+ */
+export function getScoringFacts(
+  loan: AffordabilityInput,
+  applicant?: Pick<Applicant, 'dateOfBirth' | 'employment'>,
+  date: Date = new Date()
+): ScoringFacts {
+  const affordability = calculateAffordability(loan)
+  return {
+    age: applicant?.dateOfBirth ? ageOn(applicant.dateOfBirth, date) : null,
+    employment: applicant?.employment ?? null,
+    monthlyIncome: loan.monthlyIncome ?? null,
+    dti: affordability ? affordability.dti : null,
+    amount: loan.amount,
+    termMonths: loan.termMonths
+  }
+}
+
+function matchesBin(bin: ScoreBin, value: number | string): boolean {
+  if (bin.value !== undefined) {
+    return String(value) === bin.value
+  }
+  if (typeof value !== 'number') {
+    return false
+  }
+  return (bin.min === undefined || value >= bin.min) && (bin.max === undefined || value < bin.max)
+}
+
+/**
+ * Band earned by a score: the first band whose cut-off the score reaches, the last band otherwise
+ */
+export function getScoreBand(scorecard: Scorecard, score: number): ScoreBand {
+  const cutoff = scorecard.bands.find(entry => score >= entry.minScore)
+  return cutoff?.band ?? scorecard.bands[scorecard.bands.length - 1]?.band ?? 'E'
+}
+
+/**
+ * Calculate a credit score: the base score plus the points of the first matching bin of every attribute
+ * Unknown values and values outside every bin get the attribute's missing points.
+ */
+export function calculateScore(scorecard: Scorecard, facts: ScoringFacts): ScoreResult {
+  const contributions = scorecard.attributes.map(({ attribute, bins, missingPoints }) => {
+    const value = facts[attribute]
+    const bin = value === null ? undefined : bins.find(candidate => matchesBin(candidate, value))
+    return { attribute, value, points: bin ? bin.points : missingPoints }
+  })
+  const score = contributions.reduce((total, contribution) => total + contribution.points, scorecard.baseScore)
+
+  return { score, band: getScoreBand(scorecard, score), contributions }
+}
+
+/**
+ * Check whether a score rests on anything known about the applicant or their income
+ * A score of the loan terms alone only reflects the missing points.
+ */
+export function hasApplicantData(score: Pick<ScoreResult, 'contributions'>): boolean {
+  return score.contributions.some(contribution =>
+    APPLICANT_ATTRIBUTES.includes(contribution.attribute) && contribution.value !== null)
+}
@@ -0,0 +1,164 @@
+/**
+ * Synchronous key/value storage used by all services
+ * Mirrors the subset of the Web Storage API the app needs, so localStorage
+ * itself is a valid backend.
+ */
+export interface StorageAdapter {
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+  removeItem(key: string): void
+  // notify about keys changed by other tabs; returns an unsubscribe function
+  subscribe?(listener: StorageListener): () => void
+}
+
+/**
+ * Called with the key of an entry changed by another tab
+ */
+export type StorageListener = (key: string) => void
+
+/**
+ * Message broadcast to other tabs after a write to a cached adapter
+ */
+export interface StorageChangeMessage {
+  key: string
+  value: string | null // null when the entry was removed
+}
+
+/**
+ * Asynchronous key/value backend (IndexedDB, HTTP, …)
+ * Wrapped by createCachedStorageAdapter to provide the synchronous API.
+ */
+export interface AsyncStorageBackend {
+  loadAll(): Promise<Record<string, string>>
+  set(key: string, value: string): Promise<void>
+  remove(key: string): Promise<void>
+}
+
+/**
+ * Storage adapter backed by an asynchronous backend
+ * Reads are served from an in-memory cache; writes update the cache
+ * immediately and are written through to the backend in order.
+ */
+export interface CachedStorageAdapter extends StorageAdapter {
+  load(): Promise<void>  // fill the cache from the backend
+  flush(): Promise<void> // resolves once all pending writes are stored
+}
+
+/**
+ * Storage backends selectable at app start
+ */
+export type StorageBackendKind = 'local' | 'memory' | 'indexeddb' | 'http'
+
+/**
+ * Storage adapter using the browser's localStorage
+ * localStorage is looked up on every call so it can be replaced in tests.
+ * Changes from other tabs are reported through the window storage event.
+ */
+export function createLocalStorageAdapter(): StorageAdapter {
+  return {
+    getItem: key => localStorage.getItem(key),
+    setItem: (key, value) => localStorage.setItem(key, value),
+    removeItem: key => localStorage.removeItem(key),
+    subscribe: listener => {
+      const handler = (event: StorageEvent) => {
+        if (event.key !== null && event.storageArea === localStorage) {
+          listener(event.key)
+        }
+      }
+      window.addEventListener('storage', handler)
+      return () => window.removeEventListener('storage', handler)
+    }
+  }
+}
+
+/**
+ * Storage adapter keeping everything in memory (lost on reload)
+ */
+export function createMemoryStorageAdapter(initial: Record<string, string> = {}): StorageAdapter {
+  const store = new Map<string, string>(Object.entries(initial))
+  return {
+    getItem: key => store.get(key) ?? null,
+    setItem: (key, value) => {
+      store.set(key, value)
+    },
+    removeItem: key => {
+      store.delete(key)
+    }
+  }
+}
+
+/**
+ * Wrap an asynchronous backend in a synchronous, write-through cache
+ * Write failures are passed to onWriteError; the cache keeps the new value.
+ * When a channel is given, writes are broadcast on it so the caches of
+ * other tabs using the same backend stay current.
+ */
+export function createCachedStorageAdapter(
+  backend: AsyncStorageBackend,
+  onWriteError: (error: unknown) => void = () => {},
+  channel?: BroadcastChannel
+): CachedStorageAdapter {
+  const cache = new Map<string, string>()
+  const listeners = new Set<StorageListener>()
+  let pending: Promise<void> = Promise.resolve()
+
+  function enqueue(write: () => Promise<void>) {
+    pending = pending.then(write).catch(onWriteError)
+  }
+
+  function broadcast(message: StorageChangeMessage) {
+    channel?.postMessage(message)
+  }
+
+  channel?.addEventListener('message', (event: MessageEvent<StorageChangeMessage>) => {
+    const { key, value } = event.data
+    if (value === null) {
+      cache.delete(key)
+    } else {
+      cache.set(key, value)
+    }
+    listeners.forEach(listener => listener(key))
+  })
+
+  return {
+    getItem: key => cache.get(key) ?? null,
+    setItem: (key, value) => {
+      cache.set(key, value)
+      enqueue(() => backend.set(key, value))
+      broadcast({ key, value })
+    },
+    removeItem: key => {
+      cache.delete(key)
+      enqueue(() => backend.remove(key))
+      broadcast({ key, value: null })
+    },
+    subscribe: listener => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    load: async () => {
+      const entries = await backend.loadAll()
+      cache.clear()
+      Object.entries(entries).forEach(([key, value]) => cache.set(key, value))
+    },
+    flush: () => pending
+  }
+}
+
+let activeStorage: StorageAdapter = createLocalStorageAdapter()
+
+/**
+ * Get the storage adapter currently used by the services
+ */
+export function getStorage(): StorageAdapter {
+  return activeStorage
+}
+
+/**
+ * Replace the storage adapter used by the services
+ */
+export function setStorage(adapter: StorageAdapter): void {
+  activeStorage = adapter
+}
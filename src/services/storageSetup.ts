@@ -0,0 +1,106 @@
+import type { StorageAdapter, StorageBackendKind } from './storage'
+import {
+  createCachedStorageAdapter,
+  createLocalStorageAdapter,
+  createMemoryStorageAdapter,
+  setStorage
+} from './storage'
+import { createIndexedDbBackend } from './indexedDbStorage'
+import { createHttpBackend } from './httpStorage'
+
+const DEFAULT_HTTP_URL = 'http://localhost:3001'
+const SYNC_CHANNEL_NAME = 'tredgate_storage'
+
+/**
+ * Storage failure shown to the user
+ * - init: the selected backend could not be loaded, so localStorage is used instead
+ * - write: a change could not be written to the backend
+ * - newerSchema: the stored loans were written by a newer build and cannot be read or changed
+ */
+export type StorageErrorKind = 'init' | 'write' | 'newerSchema'
+
+let storageError: StorageErrorKind | null = null
+const errorListeners = new Set<(kind: StorageErrorKind) => void>()
+
+/**
+ * Record a storage failure and tell the listeners about it
+ */
+export function reportStorageError(kind: StorageErrorKind): void {
+  storageError = kind
+  errorListeners.forEach(listener => listener(kind))
+}
+
+/**
+ * The last storage failure reported, or null if storage works
+ */
+export function getStorageError(): StorageErrorKind | null {
+  return storageError
+}
+
+/**
+ * Call the listener whenever a storage failure is reported
+ * Returns a function that stops listening.
+ */
+export function subscribeToStorageErrors(listener: (kind: StorageErrorKind) => void): () => void {
+  errorListeners.add(listener)
+  return () => {
+    errorListeners.delete(listener)
+  }
+}
+
+/**
+ * Channel used to keep the caches of several tabs in sync, if supported
+ */
+function createSyncChannel(): BroadcastChannel | undefined {
+  return typeof BroadcastChannel === 'undefined' ? undefined : new BroadcastChannel(SYNC_CHANNEL_NAME)
+}
+
+/**
+ * Options for selecting the storage backend
+ */
+export interface StorageSetupOptions {
+  url?: string                        // base URL of the HTTP backend
+  onWriteError?: (error: unknown) => void
+}
+
+/**
+ * Create the storage adapter for a backend kind and make the services use it
+ * Asynchronous backends are fully loaded before the promise resolves.
+ * An unset kind selects localStorage.
+ */
+export async function initStorage(
+  kind: StorageBackendKind | undefined,
+  options: StorageSetupOptions = {}
+): Promise<StorageAdapter> {
+  let adapter: StorageAdapter
+
+  switch (kind ?? 'local') {
+    case 'local':
+      adapter = createLocalStorageAdapter()
+      break
+    case 'memory':
+      adapter = createMemoryStorageAdapter()
+      break
+    case 'indexeddb': {
+      const cached = createCachedStorageAdapter(createIndexedDbBackend(), options.onWriteError, createSyncChannel())
+      await cached.load()
+      adapter = cached
+      break
+    }
+    case 'http': {
+      const cached = createCachedStorageAdapter(
+        createHttpBackend(options.url ?? DEFAULT_HTTP_URL),
+        options.onWriteError,
+        createSyncChannel()
+      )
+      await cached.load()
+      adapter = cached
+      break
+    }
+    default:
+      throw new Error(`Unknown storage backend "${kind}"`)
+  }
+
+  setStorage(adapter)
+  return adapter
+}
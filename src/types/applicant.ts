@@ -0,0 +1,32 @@
+/**
+ * Employment situation of an applicant
+ */
+export type EmploymentStatus =
+  | 'employed'
+  | 'self_employed'
+  | 'unemployed'
+  | 'retired'
+  | 'student'
+
+/**
+ * A person applying for loans
+ * Loans link to their applicant through applicantId, so all applications
+ * of the same person can be found.
+ */
+export interface Applicant {
+  id: string
+  name: string
+  dateOfBirth?: string     // ISO date, e.g. "1985-04-23"
+  email?: string
+  phone?: string
+  nationalId?: string      // unique among applicants
+  monthlyIncome?: number   // net income per month
+  employment?: EmploymentStatus
+  employer?: string
+  createdAt: string        // ISO timestamp
+}
+
+/**
+ * Input for registering a new applicant
+ */
+export type CreateApplicantInput = Omit<Applicant, 'id' | 'createdAt'>
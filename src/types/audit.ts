@@ -0,0 +1,39 @@
+/**
+ * Kind of change recorded in the audit log
+ */
+export type AuditAction =
+  | 'created'
+  | 'edited'
+  | 'status_changed'
+  | 'auto_decided'
+  | 'reverted'
+  | 'deleted'
+  | 'restored'
+  | 'purged'
+  | 'payment_recorded'
+
+/**
+ * A value as it appears in the audit log
+ */
+export type AuditValue = string | number | boolean | null
+
+/**
+ * Before/after values of a single changed field
+ */
+export interface AuditChange {
+  field: string
+  before: AuditValue
+  after: AuditValue
+}
+
+/**
+ * An append-only audit log entry describing one change to a loan
+ */
+export interface AuditEntry {
+  id: string
+  loanId: string
+  timestamp: string // ISO timestamp
+  actor: string     // who made the change
+  action: AuditAction
+  changes: AuditChange[]
+}
@@ -0,0 +1,37 @@
+import type { Applicant } from './applicant'
+import type { AuditEntry } from './audit'
+import type { LoanApplication, QuarantinedLoan } from './loan'
+import type { RuleSet } from './rules'
+
+/**
+ * A complete backup of the workspace, as written to a JSON file
+ */
+export interface WorkspaceBackup {
+  format: 'tredgate-backup'
+  backupVersion: number   // version of this file format
+  createdAt: string       // ISO timestamp
+  schemaVersion: number   // loan schema version of the loans below
+  loans: LoanApplication[] // including loans in the trash
+  applicants: Applicant[] // empty in version 1 backups, written before the applicant registry
+  ruleSets: RuleSet[]     // full rule set history, oldest first
+  auditLog: AuditEntry[]
+  actor: string
+  quarantine: QuarantinedLoan[]
+}
+
+/**
+ * How a backup is applied to the current storage
+ * - merge: keep current data and add what only the backup has
+ * - replace: make the storage match the backup exactly
+ */
+export type RestoreMode = 'merge' | 'replace'
+
+/**
+ * Loans and rule set versions that differ between a backup and the current storage
+ */
+export interface BackupDiff {
+  added: LoanApplication[]   // only in the backup
+  changed: LoanApplication[] // in both but different (backup version)
+  removed: LoanApplication[] // only in the current storage
+  ruleSetConflicts: number[] // rule set versions in both but with different rules; merge keeps the current ones
+}
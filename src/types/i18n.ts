@@ -0,0 +1,69 @@
+/**
+ * Languages the UI can be shown in
+ */
+export type Locale = 'en' | 'cs'
+
+/**
+ * Values inserted into the {placeholders} of a message
+ */
+export type MessageParams = Record<string, string | number>
+
+/**
+ * Problems found when validating user input, named independently of the language
+ * Each code has a message under `validation.<code>` in the catalogs.
+ */
+export type ValidationCode =
+  | 'applicantNameRequired'
+  | 'amountNotANumber'
+  | 'amountNotPositive'
+  | 'currencyUnsupported'
+  | 'termNotANumber'
+  | 'termNotPositive'
+  | 'termNotWhole'
+  | 'rateNotANumber'
+  | 'rateNegative'
+  | 'incomeNotPositive'
+  | 'obligationsNegative'
+  | 'productUnknown'
+  | 'amountOutsideProduct'
+  | 'termNotOffered'
+  | 'rateOutsideProduct'
+  | 'paymentNotPositive'
+  | 'paymentDateInvalid'
+  | 'paymentExceedsBalance'
+  | 'applicantUnknown'
+  | 'dateOfBirthInvalid'
+  | 'emailInvalid'
+  | 'nationalIdTaken'
+  | 'incomeInvalid'
+  | 'ruleNameRequired'
+  | 'ruleConditionsRequired'
+  | 'conditionFieldRequired'
+  | 'conditionOperatorUnknown'
+  | 'conditionValueRequired'
+  | 'maxDtiInvalid'
+  | 'affordabilityOutcomeInvalid'
+  | 'scorecardInvalid'
+  | 'scoreBandsUnordered'
+  | 'csvEmpty'
+  | 'csvMissingColumn'
+  | 'backupNotJson'
+  | 'backupWrongFormat'
+  | 'backupNoVersion'
+  | 'backupTooNew'
+  | 'backupSchemaTooNew'
+  | 'backupLoansUnreadable'
+  | 'backupInvalidLoan'
+  | 'backupInvalidApplicants'
+  | 'backupInvalidRules'
+  | 'backupInvalidAuditLog'
+  | 'backupInvalidQuarantine'
+  | 'backupNoActor'
+
+/**
+ * A validation problem with the values for its message
+ */
+export interface ValidationIssue {
+  code: ValidationCode
+  params?: MessageParams
+}
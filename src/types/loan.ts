@@ -1,7 +1,27 @@
+import type { DecisionOutcome, RuleOperator } from './rules'
+import type { CreditScore } from './scoring'
+import type { ProductId } from './product'
+
 /**
  * Union type for loan application status
+ * See LOAN_TRANSITIONS in services/loanLifecycle for the allowed transitions.
  */
-export type LoanStatus = 'pending' | 'approved' | 'rejected'
+export type LoanStatus =
+  | 'draft'
+  | 'submitted'
+  | 'under_review'
+  | 'approved'
+  | 'rejected'
+  | 'withdrawn'
+  | 'disbursed'
+  | 'repaid'
+  | 'defaulted'
+
+/**
+ * ISO 4217 code of a currency loans can be granted in
+ * See CURRENCIES in services/currency for the supported list.
+ */
+export type Currency = 'CZK' | 'EUR' | 'USD'
 
 /**
  * Represents a loan application
@@ -9,11 +29,67 @@ export type LoanStatus = 'pending' | 'approved' | 'rejected'
 export interface LoanApplication {
   id: string
   applicantName: string
+  applicantId?: string  // registered applicant; absent on loans from before the registry or CSV imports
+  productId?: ProductId // product whose limits the terms were checked against; absent for custom terms
   amount: number        // loan amount
+  currency: Currency    // currency of the amount and all payments
   termMonths: number    // number of months to repay
   interestRate: number  // e.g. 0.08 for 8% p.a.
+  monthlyIncome?: number      // applicant's net income per month; loans without it are not checked for affordability
+  monthlyObligations?: number // installments of the applicant's existing debts per month
   status: LoanStatus
   createdAt: string     // ISO timestamp
+  disbursedAt?: string  // ISO timestamp, set on disbursement; installments fall due monthly from then
+  payments?: LoanPayment[] // installment payments received, in the order they were recorded
+  revision: number      // incremented on every change, starting at 1
+  deletedAt?: string    // ISO timestamp, set while the loan is in the trash
+  decision?: LoanDecision // set when the loan was auto-decided
+  creditScore?: CreditScore // recalculated on every change and decision; absent on loans from before scoring
+}
+
+/**
+ * A payment received from the applicant towards the installments of a loan
+ */
+export interface LoanPayment {
+  id: string
+  amount: number     // in the loan's currency
+  paidOn: string     // YYYY-MM-DD
+  recordedAt: string // ISO timestamp
+}
+
+/**
+ * Record of an automatic decision made by the rule engine
+ */
+export interface LoanDecision {
+  outcome: DecisionOutcome
+  ruleSetVersion: number // version of the rule set that produced the decision
+  ruleId: string | null  // matching rule, null when the default outcome applied
+  ruleName: string | null
+  decidedAt: string      // ISO timestamp
+  checks: DecisionCheck[] // every condition evaluated to reach the decision
+  affordability?: Affordability // at the time of the decision, when the income was known
+}
+
+/**
+ * How well an applicant can afford the installment of a loan
+ */
+export interface Affordability {
+  installment: number      // monthly installment of the loan
+  dti: number              // debt-to-income ratio: (obligations + installment) / income, e.g. 0.35
+  disposableIncome: number // income left after obligations and the installment
+}
+
+/**
+ * A single condition check performed during an automatic decision
+ */
+export interface DecisionCheck {
+  ruleId: string
+  ruleName: string
+  field: string
+  operator: RuleOperator
+  threshold: number | string
+  actual: number | string | null // null when the loan has no such field
+  passed: boolean
 }
 
 /**
@@ -21,7 +97,38 @@ export interface LoanApplication {
  */
 export interface CreateLoanInput {
   applicantName: string
+  applicantId?: string // must be a registered applicant
+  productId?: ProductId // amount, term and rate must be within the product's limits
   amount: number
   termMonths: number
   interestRate: number
+  monthlyIncome?: number
+  monthlyObligations?: number
+  currency?: Currency // defaults to DEFAULT_CURRENCY
+}
+
+/**
+ * Input for recording a payment on a loan
+ */
+export type RecordPaymentInput = Pick<LoanPayment, 'amount' | 'paidOn'>
+
+/**
+ * A single month of a loan repayment schedule
+ */
+export interface AmortizationRow {
+  month: number      // 1-based installment number
+  payment: number    // total installment paid this month
+  principal: number  // part of the installment repaying principal
+  interest: number   // part of the installment paying interest
+  balance: number    // principal remaining after this installment
+}
+
+/**
+ * Stored loan record that failed validation and was set aside
+ */
+export interface QuarantinedLoan {
+  id: string
+  quarantinedAt: string
+  reason: string
+  record: unknown
 }
@@ -0,0 +1,78 @@
+import type { Currency, LoanApplication, LoanStatus } from './loan'
+
+/**
+ * Columns of the loan list the loans can be sorted by
+ */
+export type LoanSortKey =
+  | 'applicantName'
+  | 'amount'
+  | 'termMonths'
+  | 'interestRate'
+  | 'monthlyPayment'
+  | 'creditScore'
+  | 'status'
+  | 'balance'
+  | 'nextDue'
+  | 'createdAt'
+
+export type SortDirection = 'asc' | 'desc'
+
+export interface LoanSort {
+  key: LoanSortKey
+  direction: SortDirection
+}
+
+/**
+ * Criteria a loan must meet to be listed; criteria left out match every loan
+ * Ranges include their bounds.
+ */
+export interface LoanFilter {
+  search?: string       // part of the applicant name, ignoring case
+  status?: LoanStatus
+  minAmount?: number    // in the loan's own currency
+  maxAmount?: number
+  minRate?: number      // e.g. 0.05 for 5% p.a.
+  maxRate?: number
+  createdFrom?: string  // YYYY-MM-DD
+  createdTo?: string
+}
+
+/**
+ * Filter and sort order of the loan list, as shared in the page URL
+ */
+export interface LoanListQuery {
+  filter: LoanFilter
+  sort?: LoanSort
+  page?: number      // 1-based, the first page when left out
+  pageSize?: number
+}
+
+/**
+ * Loans requested from storage: a filter, a sort order and a window of the results
+ */
+export interface LoanQuery {
+  filter?: LoanFilter
+  sort?: LoanSort
+  offset?: number  // number of matching loans to skip, 0 when left out
+  limit?: number   // every remaining loan when left out
+}
+
+/**
+ * One window of the loans matching a query
+ */
+export interface LoanPage {
+  loans: LoanApplication[]
+  total: number  // loans matching the filter, on every page together
+}
+
+/**
+ * Counts and approved amounts of the whole portfolio, for the summary cards
+ */
+export interface LoanStats {
+  total: number     // loans not in the trash
+  pending: number   // awaiting a decision
+  approved: number  // approved, including those later disbursed, repaid or defaulted
+  rejected: number
+  approvedTotals: { currency: Currency; total: number }[]  // per currency, in CURRENCIES order
+  trashed: number
+}
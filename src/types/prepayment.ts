@@ -0,0 +1,53 @@
+import type { AmortizationRow } from './loan'
+
+/**
+ * How often an extra payment is made
+ */
+export type PrepaymentFrequency = 'once' | 'monthly' | 'yearly'
+
+/**
+ * What a prepayment is used for: paying the loan off sooner with the same installment,
+ * or lowering the installment over the remaining term
+ */
+export type PrepaymentStrategy = 'shorten_term' | 'reduce_installment'
+
+/**
+ * Extra payment made on top of the regular installments
+ */
+export interface PrepaymentPlan {
+  amount: number
+  frequency: PrepaymentFrequency
+  startMonth: number // 1-based installment the first prepayment is made with
+}
+
+/**
+ * Schedule row with the extra payment made after the installment
+ */
+export interface PrepaymentRow extends AmortizationRow {
+  prepayment: number // balance is what remains after the installment and the prepayment
+}
+
+/**
+ * Revised schedule of a loan under one prepayment strategy
+ */
+export interface PrepaymentScenario {
+  strategy: PrepaymentStrategy
+  schedule: PrepaymentRow[]
+  installment: number    // regular installment after the first prepayment
+  termMonths: number
+  totalInterest: number
+  totalPrepaid: number
+  interestSaved: number  // compared with the original schedule
+}
+
+/**
+ * Original schedule of a loan next to the schedule under each strategy
+ */
+export interface PrepaymentComparison {
+  original: {
+    installment: number
+    termMonths: number
+    totalInterest: number
+  }
+  scenarios: Record<PrepaymentStrategy, PrepaymentScenario>
+}
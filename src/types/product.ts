@@ -0,0 +1,28 @@
+import type { Currency } from './loan'
+
+/**
+ * Loan products offered to applicants
+ * See LOAN_PRODUCTS in services/productService for their limits.
+ */
+export type ProductId = 'personal' | 'auto' | 'mortgage' | 'refinancing'
+
+/**
+ * Smallest and largest amount a product is granted for in one currency
+ */
+export interface AmountLimits {
+  min: number
+  max: number
+}
+
+/**
+ * A loan product with the terms it can be granted on
+ * Amounts are compared with the limits for the loan's own currency.
+ */
+export interface LoanProduct {
+  id: ProductId
+  amountLimits: Record<Currency, AmountLimits>
+  terms: number[]      // allowed terms in months, ascending
+  minRate: number      // e.g. 0.06 for 6% p.a.
+  maxRate: number
+  defaultRate: number  // offered unless the officer agrees another rate within the range
+}
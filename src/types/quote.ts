@@ -0,0 +1,15 @@
+import type { LoanApplication } from './loan'
+
+/**
+ * Loan terms a quote is calculated for
+ */
+export type QuoteInput = Pick<LoanApplication, 'amount' | 'termMonths' | 'interestRate'>
+
+/**
+ * What a loan costs the applicant on given terms
+ */
+export interface LoanQuote extends QuoteInput {
+  installment: number
+  totalRepayable: number
+  totalInterest: number
+}
@@ -0,0 +1,30 @@
+import type { AmortizationRow } from './loan'
+
+/**
+ * A scheduled installment with its due date and how much of it was paid
+ */
+export interface InstallmentStatus extends AmortizationRow {
+  dueDate: string // YYYY-MM-DD
+  paid: number    // part of the installment covered by payments, interest first
+}
+
+/**
+ * Repayment position of a loan on a given day
+ */
+export interface RepaymentStatus {
+  installments: InstallmentStatus[]
+  paidTotal: number
+  outstandingPrincipal: number
+  outstandingInterest: number        // scheduled interest not yet paid
+  nextDue: InstallmentStatus | null  // first installment not paid in full, null when paid off
+  overdueAmount: number              // unpaid part of the installments past their due date
+  daysPastDue: number                // since the oldest unpaid due date, 0 when nothing is overdue
+}
+
+/**
+ * Part of the repayment position that does not change from day to day
+ */
+export interface RepaymentBalance {
+  outstandingPrincipal: number
+  nextDueDate: string | null  // YYYY-MM-DD of the first installment not paid in full, null when paid off
+}
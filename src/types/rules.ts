@@ -0,0 +1,67 @@
+import type { Scorecard } from './scoring'
+
+/**
+ * Outcome a decision rule can produce
+ * - approve / reject decide the loan automatically
+ * - refer leaves the loan for a manual decision by an officer
+ */
+export type DecisionOutcome = 'approve' | 'reject' | 'refer'
+
+/**
+ * Comparison operators supported in rule conditions
+ */
+export type RuleOperator = 'lt' | 'lte' | 'gt' | 'gte' | 'eq' | 'neq'
+
+/**
+ * How the conditions of a rule are combined
+ */
+export type RuleCombinator = 'and' | 'or'
+
+/**
+ * A single comparison of a loan field against a threshold
+ */
+export interface RuleCondition {
+  field: string          // loan field name, e.g. 'amount'
+  operator: RuleOperator
+  value: number | string // threshold the field is compared to
+}
+
+/**
+ * A decision rule: when its conditions match, it yields its outcome
+ */
+export interface DecisionRule {
+  id: string
+  name: string
+  combinator: RuleCombinator
+  conditions: RuleCondition[]
+  outcome: DecisionOutcome
+}
+
+/**
+ * Debt-to-income limit checked before the decision rules
+ * A loan whose ratio exceeds maxDti gets the outcome without evaluating
+ * the rules. Loans without an income are not checked.
+ */
+export interface AffordabilityPolicy {
+  maxDti: number                                // e.g. 0.4 for 40%
+  outcome: Exclude<DecisionOutcome, 'approve'>  // reject or refer
+}
+
+/**
+ * A versioned, ordered set of decision rules
+ * Rules are evaluated top to bottom; the first matching rule wins.
+ */
+export interface RuleSet {
+  version: number
+  updatedAt: string        // ISO timestamp
+  rules: DecisionRule[]
+  defaultOutcome: DecisionOutcome // used when no rule matches
+  affordability?: AffordabilityPolicy // absent when debt-to-income is not limited
+  scorecard?: Scorecard    // absent on versions saved before credit scoring; DEFAULT_SCORECARD applies
+  upgrade?: string         // built-in policy change that added this version
+}
+
+/**
+ * Input for saving a new version of the rule set
+ */
+export type RuleSetInput = Pick<RuleSet, 'rules' | 'defaultOutcome' | 'affordability' | 'scorecard'>
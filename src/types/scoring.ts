@@ -0,0 +1,68 @@
+/**
+ * Credit score bands, from the best (A) to the worst (E)
+ */
+export type ScoreBand = 'A' | 'B' | 'C' | 'D' | 'E'
+
+/**
+ * Applicant and loan attributes a scorecard can award points for
+ * Age and employment come from the registered applicant, dti from the affordability check.
+ */
+export type ScoreAttribute = 'age' | 'employment' | 'monthlyIncome' | 'dti' | 'amount' | 'termMonths'
+
+/**
+ * A range or category of an attribute with the points it is worth
+ * Numeric attributes match min <= value < max, either bound may be left open;
+ * categorical attributes (employment) match on value.
+ */
+export interface ScoreBin {
+  min?: number
+  max?: number
+  value?: string
+  points: number
+}
+
+/**
+ * Points awarded for a single attribute
+ */
+export interface ScorecardAttribute {
+  attribute: ScoreAttribute
+  bins: ScoreBin[]
+  missingPoints: number // when the value is unknown or falls in no bin
+}
+
+/**
+ * Lowest score that still earns a band
+ */
+export interface ScoreBandCutoff {
+  band: ScoreBand
+  minScore: number
+}
+
+/**
+ * Configurable scorecard: the score is the base score plus the points of every attribute
+ */
+export interface Scorecard {
+  baseScore: number
+  attributes: ScorecardAttribute[]
+  bands: ScoreBandCutoff[] // best band first; scores below every cut-off get the last band
+}
+
+/**
+ * Points an attribute contributed to a score
+ */
+export interface ScoreContribution {
+  attribute: ScoreAttribute
+  value: number | string | null // null when the value was unknown
+  points: number
+}
+
+/**
+ * Credit score calculated for a loan
+ */
+export interface CreditScore {
+  score: number
+  band: ScoreBand
+  ruleSetVersion: number // version of the rule set whose scorecard was used
+  scoredAt: string       // ISO timestamp
+  contributions: ScoreContribution[]
+}
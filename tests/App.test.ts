@@ -3,24 +3,46 @@
  * Tests component rendering, child component integration, event handling,
  * and data flow between components.
  */
-import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { mount, flushPromises } from '@vue/test-utils'
 import App from '../src/App.vue'
 import type { LoanApplication } from '../src/types/loan'
 
 /**
  * Mock loanService module to isolate App component tests.
- * All service functions are mocked with default implementations.
+ * All service functions are mocked with default implementations; a page
+ * of loans and the loan stats cover every loan getLoans returns.
  */
 vi.mock('../src/services/loanService', () => ({
   getLoans: vi.fn(() => []),
+  getLoanStats: vi.fn(),
+  queryLoans: vi.fn(() => ({ loans: [], total: 0 })),
   updateLoanStatus: vi.fn(),
-  autoDecideLoan: vi.fn(),
+  autoDecideLoan: vi.fn(() => ({ outcome: 'refer' })),
   calculateMonthlyPayment: vi.fn(() => 1000),
-  createLoanApplication: vi.fn()
+  createLoanApplication: vi.fn(),
+  deleteLoan: vi.fn(),
+  getTrashedLoans: vi.fn(() => []),
+  restoreLoan: vi.fn(),
+  purgeLoan: vi.fn(),
+  revertLoanStatus: vi.fn(),
+  subscribeToLoanChanges: vi.fn(() => () => {})
+}))
+
+/**
+ * Mock the storage setup so that storage failures can be reported by the tests.
+ */
+vi.mock('../src/services/storageSetup', () => ({
+  getStorageError: vi.fn(() => null),
+  subscribeToStorageErrors: vi.fn(() => () => {})
 }))
 
 import * as loanService from '../src/services/loanService'
+import { summarizeLoans } from '../src/services/loanQuery'
+import type { LoanQuery } from '../src/types/loanQuery'
+import * as storageSetup from '../src/services/storageSetup'
+import { InvalidStatusTransitionError, LoanConflictError } from '../src/services/errors'
+import { setLocale } from '../src/i18n'
 
 /**
  * Test suite for the main App component.
@@ -29,6 +51,16 @@ import * as loanService from '../src/services/loanService'
 describe('App', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    // Answered from the loans getLoans is set up to return, without counting as a getLoans call
+    const storedLoans = () => vi.mocked(loanService.getLoans).getMockImplementation()?.() ?? []
+    vi.mocked(loanService.queryLoans).mockImplementation(() => {
+      const loans = storedLoans()
+      return { loans, total: loans.length }
+    })
+    vi.mocked(loanService.getLoanStats).mockImplementation(() => ({
+      ...summarizeLoans(storedLoans()),
+      trashed: vi.mocked(loanService.getTrashedLoans).getMockImplementation()?.().length ?? 0
+    }))
   })
 
   /**
@@ -40,10 +72,12 @@ describe('App', () => {
     id: 'test-id',
     applicantName: 'John Doe',
     amount: 50000,
+    currency: 'USD',
     termMonths: 24,
     interestRate: 0.08,
-    status: 'pending',
+    status: 'submitted',
     createdAt: '2024-01-15T10:30:00.000Z',
+    revision: 1,
     ...overrides
   })
 
@@ -107,19 +141,108 @@ describe('App', () => {
     })
   })
 
+  /**
+   * Tests for switching between the loans and settings views.
+   */
+  describe('navigation', () => {
+    /**
+     * Verifies the decision rules settings screen replaces the loan view.
+     * @test {App}
+     */
+    it('toggles the decision rules settings view', async () => {
+      const wrapper = mount(App)
+
+      await wrapper.find('.nav-btn').trigger('click')
+
+      expect(wrapper.findComponent({ name: 'RuleSettings' }).exists()).toBe(true)
+      expect(wrapper.findComponent({ name: 'LoanList' }).exists()).toBe(false)
+
+      await wrapper.find('.nav-btn').trigger('click')
+
+      expect(wrapper.findComponent({ name: 'RuleSettings' }).exists()).toBe(false)
+      expect(wrapper.findComponent({ name: 'LoanList' }).exists()).toBe(true)
+    })
+
+    /**
+     * Verifies the applicant registry replaces the loan view and gets the loans.
+     * @test {App}
+     */
+    it('toggles the applicants view', async () => {
+      const loans = [createMockLoan({ applicantId: 'applicant-1' })]
+      vi.mocked(loanService.getLoans).mockReturnValue(loans)
+      const wrapper = mount(App)
+      await flushPromises()
+
+      await wrapper.find('.applicants-nav-btn').trigger('click')
+
+      const list = wrapper.findComponent({ name: 'ApplicantList' })
+      expect(list.props('loans')).toEqual(loans)
+      expect(wrapper.findComponent({ name: 'LoanList' }).exists()).toBe(false)
+
+      await list.vm.$emit('close')
+
+      expect(wrapper.findComponent({ name: 'ApplicantList' }).exists()).toBe(false)
+      expect(wrapper.findComponent({ name: 'LoanList' }).exists()).toBe(true)
+    })
+
+    /**
+     * Verifies a restored backup reloads the loans.
+     * @test {App}
+     */
+    it('reloads the loans after restoring a backup', async () => {
+      const wrapper = mount(App)
+      const calls = vi.mocked(loanService.getLoanStats).mock.calls.length
+
+      await wrapper.find('.backup-nav-btn').trigger('click')
+      const modal = wrapper.findComponent({ name: 'BackupModal' })
+      expect(modal.props('show')).toBe(true)
+
+      modal.vm.$emit('restored')
+      await flushPromises()
+
+      expect(modal.props('show')).toBe(false)
+      expect(vi.mocked(loanService.getLoanStats).mock.calls.length).toBe(calls + 1)
+    })
+  })
+
+  /**
+   * Tests for the quarantine banner.
+   */
+  describe('quarantine', () => {
+    /**
+     * Verifies quarantined records are shown and can be discarded.
+     * @test {App}
+     */
+    it('shows and discards quarantined records', async () => {
+      localStorage.setItem('tredgate_loans_quarantine', JSON.stringify([
+        { id: 'q1', quarantinedAt: '2024-01-15T10:30:00.000Z', reason: 'Invalid fields: amount', record: {} }
+      ]))
+      const wrapper = mount(App)
+      await flushPromises()
+
+      expect(wrapper.find('.quarantine-banner').exists()).toBe(true)
+
+      await wrapper.find('.discard-all-btn').trigger('click')
+
+      expect(wrapper.find('.quarantine-banner').exists()).toBe(false)
+      expect(localStorage.getItem('tredgate_loans_quarantine')).toBeNull()
+    })
+  })
+
   /**
    * Tests for initial data loading on component mount.
    * Verifies loans are fetched and passed to child components.
    */
   describe('initial data loading', () => {
     /**
-     * Verifies getLoans is called when component mounts.
+     * Verifies the loan stats are loaded when component mounts, and not every loan.
      * @test {App}
      */
-    it('calls getLoans on mount', () => {
+    it('loads the loan stats on mount', () => {
       mount(App)
       
-      expect(loanService.getLoans).toHaveBeenCalled()
+      expect(loanService.getLoanStats).toHaveBeenCalled()
+      expect(loanService.getLoans).not.toHaveBeenCalled()
     })
 
     /**
@@ -136,8 +259,26 @@ describe('App', () => {
       const loanSummary = wrapper.findComponent({ name: 'LoanSummary' })
       const loanList = wrapper.findComponent({ name: 'LoanList' })
       
-      expect(loanSummary.props('loans')).toEqual(mockLoans)
-      expect(loanList.props('loans')).toEqual(mockLoans)
+      expect(loanSummary.props('stats')).toEqual(summarizeLoans(mockLoans))
+      expect(loanList.props('loanPage')).toEqual({ loans: mockLoans, total: 1 })
+      expect(loanList.props('loanCount')).toBe(1)
+    })
+
+    /**
+     * Verifies only the page the loan list asks for is loaded for it.
+     * @test {App}
+     */
+    it('loads the page the loan list asks for', async () => {
+      const wrapper = mount(App)
+      await flushPromises()
+      const query: LoanQuery = { filter: { search: 'jane' }, offset: 25, limit: 25 }
+      vi.mocked(loanService.queryLoans).mockReturnValueOnce({ loans: [createMockLoan()], total: 26 })
+
+      const loanList = wrapper.findComponent({ name: 'LoanList' })
+      await loanList.vm.$emit('query', query)
+
+      expect(loanService.queryLoans).toHaveBeenLastCalledWith(query)
+      expect(loanList.props('loanPage')).toEqual({ loans: [createMockLoan()], total: 26 })
     })
   })
 
@@ -153,12 +294,12 @@ describe('App', () => {
     it('refreshes loans when LoanForm emits created event', async () => {
       const wrapper = mount(App)
       
-      vi.mocked(loanService.getLoans).mockClear()
+      vi.mocked(loanService.getLoanStats).mockClear()
       
       const loanForm = wrapper.findComponent({ name: 'LoanForm' })
       await loanForm.vm.$emit('created')
       
-      expect(loanService.getLoans).toHaveBeenCalled()
+      expect(loanService.getLoanStats).toHaveBeenCalled()
     })
   })
 
@@ -180,7 +321,7 @@ describe('App', () => {
       
       await loanList.vm.$emit('approve', 'loan-123')
       
-      expect(loanService.updateLoanStatus).toHaveBeenCalledWith('loan-123', 'approved')
+      expect(loanService.updateLoanStatus).toHaveBeenCalledWith('loan-123', 'approved', 1)
     })
 
     /**
@@ -192,12 +333,12 @@ describe('App', () => {
       vi.mocked(loanService.getLoans).mockReturnValue(mockLoans)
       
       const wrapper = mount(App)
-      vi.mocked(loanService.getLoans).mockClear()
+      vi.mocked(loanService.getLoanStats).mockClear()
       
       const loanList = wrapper.findComponent({ name: 'LoanList' })
       await loanList.vm.$emit('approve', 'test-id')
       
-      expect(loanService.getLoans).toHaveBeenCalled()
+      expect(loanService.getLoanStats).toHaveBeenCalled()
     })
   })
 
@@ -219,7 +360,7 @@ describe('App', () => {
       
       await loanList.vm.$emit('reject', 'loan-456')
       
-      expect(loanService.updateLoanStatus).toHaveBeenCalledWith('loan-456', 'rejected')
+      expect(loanService.updateLoanStatus).toHaveBeenCalledWith('loan-456', 'rejected', 1)
     })
 
     /**
@@ -231,12 +372,12 @@ describe('App', () => {
       vi.mocked(loanService.getLoans).mockReturnValue(mockLoans)
       
       const wrapper = mount(App)
-      vi.mocked(loanService.getLoans).mockClear()
+      vi.mocked(loanService.getLoanStats).mockClear()
       
       const loanList = wrapper.findComponent({ name: 'LoanList' })
       await loanList.vm.$emit('reject', 'test-id')
       
-      expect(loanService.getLoans).toHaveBeenCalled()
+      expect(loanService.getLoanStats).toHaveBeenCalled()
     })
   })
 
@@ -258,7 +399,7 @@ describe('App', () => {
       
       await loanList.vm.$emit('auto-decide', 'loan-789')
       
-      expect(loanService.autoDecideLoan).toHaveBeenCalledWith('loan-789')
+      expect(loanService.autoDecideLoan).toHaveBeenCalledWith('loan-789', 1)
     })
 
     /**
@@ -270,12 +411,230 @@ describe('App', () => {
       vi.mocked(loanService.getLoans).mockReturnValue(mockLoans)
       
       const wrapper = mount(App)
-      vi.mocked(loanService.getLoans).mockClear()
+      vi.mocked(loanService.getLoanStats).mockClear()
       
       const loanList = wrapper.findComponent({ name: 'LoanList' })
       await loanList.vm.$emit('auto-decide', 'test-id')
       
-      expect(loanService.getLoans).toHaveBeenCalled()
+      expect(loanService.getLoanStats).toHaveBeenCalled()
+    })
+  })
+
+  /**
+   * Tests for lifecycle transitions and action errors.
+   */
+  describe('lifecycle transitions', () => {
+    /**
+     * Verifies updateLoanStatus is called with the target status of a transition.
+     * @test {App}
+     */
+    it('calls updateLoanStatus for lifecycle transitions', async () => {
+      const wrapper = mount(App)
+      const loanList = wrapper.findComponent({ name: 'LoanList' })
+
+      await loanList.vm.$emit('transition', 'loan-1', 'disbursed')
+
+      expect(loanService.updateLoanStatus).toHaveBeenCalledWith('loan-1', 'disbursed', undefined)
+    })
+
+    /**
+     * Verifies an illegal transition error is shown to the user.
+     * @test {App}
+     */
+    it('shows an error when an action fails', async () => {
+      vi.mocked(loanService.updateLoanStatus).mockImplementationOnce(() => {
+        throw new Error('Cannot change loan status from approved to rejected')
+      })
+      const wrapper = mount(App)
+      const loanList = wrapper.findComponent({ name: 'LoanList' })
+
+      await loanList.vm.$emit('reject', 'loan-1')
+
+      expect(wrapper.find('.action-error').text()).toBe('Cannot change loan status from approved to rejected')
+    })
+  })
+
+  /**
+   * Tests for the trash view and undoing destructive actions.
+   */
+  describe('trash and undo', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+      vi.mocked(loanService.getTrashedLoans).mockReturnValue([])
+    })
+
+    /**
+     * Verifies the trash view lists trashed loans and restores them.
+     * @test {App}
+     */
+    it('shows the trash view', async () => {
+      vi.mocked(loanService.getTrashedLoans).mockReturnValue([
+        createMockLoan({ id: 'gone', deletedAt: '2024-02-01T09:00:00.000Z' })
+      ])
+      const wrapper = mount(App)
+      await flushPromises()
+
+      expect(wrapper.find('.trash-nav-btn').text()).toContain('Trash (1)')
+      expect(loanService.getTrashedLoans).not.toHaveBeenCalled()
+      await wrapper.find('.trash-nav-btn').trigger('click')
+
+      expect(wrapper.findComponent({ name: 'LoanList' }).exists()).toBe(false)
+      await wrapper.find('.restore-btn').trigger('click')
+
+      expect(loanService.restoreLoan).toHaveBeenCalledWith('gone')
+    })
+
+    /**
+     * Verifies an approval can be undone from the toast.
+     * @test {App}
+     */
+    it('undoes an approval', async () => {
+      vi.mocked(loanService.getLoans).mockReturnValue([createMockLoan({ id: 'loan-1', revision: 1 })])
+      const wrapper = mount(App)
+      await flushPromises()
+
+      await wrapper.findComponent({ name: 'LoanList' }).vm.$emit('approve', 'loan-1')
+      expect(wrapper.find('.undo-toast').text()).toContain('Loan for John Doe approved')
+
+      await wrapper.find('.undo-btn').trigger('click')
+
+      expect(loanService.revertLoanStatus).toHaveBeenCalledWith('loan-1', 'submitted', 2, undefined)
+      expect(wrapper.find('.undo-toast').exists()).toBe(false)
+    })
+
+    /**
+     * Verifies an automatic decision can be undone from the toast.
+     * @test {App}
+     */
+    it('undoes an automatic decision', async () => {
+      vi.mocked(loanService.getLoans).mockReturnValue([createMockLoan({ id: 'loan-1', revision: 3 })])
+      const wrapper = mount(App)
+      await flushPromises()
+
+      await wrapper.findComponent({ name: 'LoanList' }).vm.$emit('auto-decide', 'loan-1')
+      expect(wrapper.find('.undo-toast').text()).toContain('Loan for John Doe referred for review')
+
+      await wrapper.find('.undo-btn').trigger('click')
+
+      expect(loanService.revertLoanStatus).toHaveBeenCalledWith('loan-1', 'submitted', 4, undefined)
+    })
+
+    /**
+     * Verifies a deletion can be undone by restoring the loan.
+     * @test {App}
+     */
+    it('undoes a deletion', async () => {
+      vi.mocked(loanService.getLoans).mockReturnValue([createMockLoan({ id: 'loan-1', revision: 4 })])
+      const wrapper = mount(App)
+      await flushPromises()
+
+      await wrapper.findComponent({ name: 'LoanList' }).vm.$emit('delete', 'loan-1')
+      expect(loanService.deleteLoan).toHaveBeenCalledWith('loan-1', 4)
+
+      await wrapper.find('.undo-btn').trigger('click')
+
+      expect(loanService.restoreLoan).toHaveBeenCalledWith('loan-1', 5)
+    })
+
+    /**
+     * Verifies the undo offer disappears after the time window.
+     * @test {App}
+     */
+    it('hides the undo toast after the time window', async () => {
+      vi.useFakeTimers()
+      vi.mocked(loanService.getLoans).mockReturnValue([createMockLoan({ id: 'loan-1' })])
+      const wrapper = mount(App)
+      await flushPromises()
+
+      await wrapper.findComponent({ name: 'LoanList' }).vm.$emit('reject', 'loan-1')
+      expect(wrapper.find('.undo-toast').exists()).toBe(true)
+
+      await vi.advanceTimersByTimeAsync(8000)
+
+      expect(wrapper.find('.undo-toast').exists()).toBe(false)
+    })
+  })
+
+  /**
+   * Tests for conflicts with changes made elsewhere.
+   */
+  describe('conflicts', () => {
+    /**
+     * Verifies actions pass the revision of the loan as shown.
+     * @test {App}
+     */
+    it('passes the shown revision to actions', async () => {
+      vi.mocked(loanService.getLoans).mockReturnValue([createMockLoan({ id: 'loan-1', revision: 3 })])
+      const wrapper = mount(App)
+      await flushPromises()
+      const loanList = wrapper.findComponent({ name: 'LoanList' })
+
+      await loanList.vm.$emit('approve', 'loan-1')
+
+      expect(loanService.updateLoanStatus).toHaveBeenCalledWith('loan-1', 'approved', 3)
+    })
+
+    /**
+     * Verifies a conflict offers to reload instead of refreshing silently.
+     * @test {App}
+     */
+    it('offers to reload after a conflict', async () => {
+      vi.mocked(loanService.updateLoanStatus).mockImplementationOnce(() => {
+        throw new LoanConflictError('loan-1', 1, 2)
+      })
+      const wrapper = mount(App)
+      const loanList = wrapper.findComponent({ name: 'LoanList' })
+      vi.mocked(loanService.getLoanStats).mockClear()
+
+      await loanList.vm.$emit('approve', 'loan-1')
+
+      expect(wrapper.find('.conflict-error').text()).toContain('This loan was changed elsewhere — reload?')
+      expect(loanService.getLoanStats).not.toHaveBeenCalled()
+
+      await wrapper.find('.conflict-error .reload-btn').trigger('click')
+
+      expect(wrapper.find('.conflict-error').exists()).toBe(false)
+      expect(loanService.getLoanStats).toHaveBeenCalled()
+    })
+  })
+
+  /**
+   * Tests for switching the UI language.
+   */
+  describe('locale', () => {
+    afterEach(() => {
+      setLocale('en')
+      localStorage.clear()
+    })
+
+    /**
+     * Verifies choosing Czech re-renders the UI and is remembered.
+     * @test {App}
+     */
+    it('switches the UI to Czech', async () => {
+      const wrapper = mount(App)
+
+      await wrapper.find('.locale-select').setValue('cs')
+
+      expect(wrapper.find('.tagline').text()).toBe('Jednoduchá správa žádostí o úvěr')
+      expect(wrapper.find('.loan-form h2').text()).toBe('Nová žádost o úvěr')
+      expect(localStorage.getItem('tredgate_locale')).toBe('cs')
+    })
+
+    /**
+     * Verifies errors thrown by the services are shown in the chosen language.
+     * @test {App}
+     */
+    it('translates service errors', async () => {
+      vi.mocked(loanService.updateLoanStatus).mockImplementationOnce(() => {
+        throw new InvalidStatusTransitionError('approved', 'rejected')
+      })
+      const wrapper = mount(App)
+      await wrapper.find('.locale-select').setValue('cs')
+
+      await wrapper.findComponent({ name: 'LoanList' }).vm.$emit('reject', 'loan-1')
+
+      expect(wrapper.find('.action-error').text()).toBe('Stav úvěru nelze změnit z „schválená“ na „zamítnutá“')
     })
   })
 
@@ -285,7 +644,7 @@ describe('App', () => {
    */
   describe('data flow', () => {
     /**
-     * Verifies LoanSummary receives updated loans after creation.
+     * Verifies LoanSummary receives updated stats after creation.
      * @test {App}
      */
     it('updates LoanSummary when loans change', async () => {
@@ -303,7 +662,7 @@ describe('App', () => {
       await flushPromises()
       
       const loanSummary = wrapper.findComponent({ name: 'LoanSummary' })
-      expect(loanSummary.props('loans')).toEqual(newLoans)
+      expect(loanSummary.props('stats')).toEqual(summarizeLoans(newLoans))
     })
 
     /**
@@ -325,7 +684,62 @@ describe('App', () => {
       await flushPromises()
       
       const loanList = wrapper.findComponent({ name: 'LoanList' })
-      expect(loanList.props('loans')).toEqual(newLoans)
+      expect(loanList.props('loanPage').loans).toEqual(newLoans)
+    })
+  })
+
+  /**
+   * Tests for showing storage failures.
+   */
+  describe('storage errors', () => {
+    /**
+     * Verifies a storage backend that failed to load is reported.
+     * @test {App}
+     */
+    it('shows a failed storage start-up', () => {
+      vi.mocked(storageSetup.getStorageError).mockReturnValueOnce('init')
+
+      const wrapper = mount(App)
+
+      expect(wrapper.find('.storage-error').text()).toBe(
+        'The configured storage could not be loaded. Loans are saved in this browser only until it is available again.'
+      )
+    })
+
+    /**
+     * Verifies failed writes are shown as they are reported.
+     * @test {App}
+     */
+    it('shows failed writes', async () => {
+      const wrapper = mount(App)
+      expect(wrapper.find('.storage-error').exists()).toBe(false)
+
+      const [listener] = vi.mocked(storageSetup.subscribeToStorageErrors).mock.calls[0]!
+      listener('write')
+      await flushPromises()
+
+      expect(wrapper.find('.storage-error').text()).toBe(
+        'Some changes could not be saved to the storage. They are kept in this tab only; reload to see what was saved.'
+      )
+    })
+
+    /**
+     * Verifies loans saved by a newer version are reported by the first read instead of showing no loans.
+     * @test {App}
+     */
+    it('shows loans saved by a newer version', async () => {
+      vi.mocked(loanService.getLoanStats).mockImplementationOnce(() => {
+        vi.mocked(storageSetup.subscribeToStorageErrors).mock.calls[0]?.[0]('newerSchema')
+        return summarizeLoans([])
+      })
+
+      const wrapper = mount(App)
+      await flushPromises()
+
+      expect(wrapper.find('.storage-error').text()).toBe(
+        'The stored loans were saved by a newer version of the app and cannot be shown or changed here. ' +
+        'Update the app instead of entering the loans again.'
+      )
     })
   })
 })
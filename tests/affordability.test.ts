@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Unit tests for the affordability module.
+ * Tests the debt-to-income ratio and disposable income computed with
+ * the loan's real installment.
+ */
+import { describe, it, expect } from 'vitest'
+import { calculateAffordability } from '../src/services/affordability'
+
+/**
+ * Test suite for affordability module.
+ */
+describe('affordability', () => {
+  /**
+   * Tests for calculateAffordability() function.
+   */
+  describe('calculateAffordability', () => {
+    /**
+     * Verifies the ratio counts existing obligations and the annuity installment.
+     * 100,000 over 60 months at 8% p.a. has an installment of 2,027.64.
+     * @test {calculateAffordability}
+     */
+    it('uses the annuity installment and existing obligations', () => {
+      const result = calculateAffordability({
+        amount: 100000,
+        termMonths: 60,
+        interestRate: 0.08,
+        monthlyIncome: 6000,
+        monthlyObligations: 400
+      })
+
+      expect(result?.installment).toBe(2027.64)
+      expect(result?.dti).toBeCloseTo(2427.64 / 6000)
+      expect(result?.disposableIncome).toBe(3572.36)
+    })
+
+    /**
+     * Verifies obligations default to none.
+     * @test {calculateAffordability}
+     */
+    it('treats missing obligations as none', () => {
+      const result = calculateAffordability({ amount: 12000, termMonths: 12, interestRate: 0, monthlyIncome: 4000 })
+
+      expect(result).toEqual({ installment: 1000, dti: 0.25, disposableIncome: 3000 })
+    })
+
+    /**
+     * Verifies nothing is computed without an income.
+     * @test {calculateAffordability}
+     */
+    it('returns null without an income', () => {
+      expect(calculateAffordability({ amount: 12000, termMonths: 12, interestRate: 0 })).toBeNull()
+      expect(calculateAffordability({ amount: 12000, termMonths: 12, interestRate: 0, monthlyIncome: 0 })).toBeNull()
+    })
+  })
+})
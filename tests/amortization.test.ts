@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Unit tests for the amortization module.
+ * Tests annuity installment calculation and the month-by-month
+ * repayment schedule (principal, interest, remaining balance).
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  roundCurrency,
+  calculateAnnuityPayment,
+  buildAmortizationSchedule,
+  totalInterest,
+  totalRepayable
+} from '../src/services/amortization'
+
+/**
+ * Test suite for the amortization module.
+ */
+describe('amortization', () => {
+  /**
+   * Tests for roundCurrency() function.
+   */
+  describe('roundCurrency', () => {
+    /**
+     * Verifies values are rounded to two decimal places.
+     * @test {roundCurrency}
+     */
+    it('rounds to whole cents', () => {
+      expect(roundCurrency(10.005)).toBe(10.01)
+      expect(roundCurrency(10.004)).toBe(10)
+    })
+  })
+
+  /**
+   * Tests for calculateAnnuityPayment() function.
+   * Verifies the per-annum rate is converted to a monthly rate.
+   */
+  describe('calculateAnnuityPayment', () => {
+    /**
+     * Verifies the installment for a standard 12 month loan at 10% p.a.
+     * @test {calculateAnnuityPayment}
+     */
+    it('calculates the annuity installment from the annual rate', () => {
+      expect(calculateAnnuityPayment(10000, 0.1, 12)).toBeCloseTo(879.16, 2)
+    })
+
+    /**
+     * Verifies long-term loans are not overstated like a flat-interest formula would.
+     * @test {calculateAnnuityPayment}
+     */
+    it('calculates the installment for a 30 year loan', () => {
+      // flat interest would give 300000 * 1.06 / 360 = 883.33
+      expect(calculateAnnuityPayment(300000, 0.06, 360)).toBeCloseTo(1798.65, 2)
+    })
+
+    /**
+     * Verifies a 0% loan splits the principal evenly.
+     * @test {calculateAnnuityPayment}
+     */
+    it('splits principal evenly for 0% interest', () => {
+      expect(calculateAnnuityPayment(12000, 0, 12)).toBe(1000)
+    })
+  })
+
+  /**
+   * Tests for buildAmortizationSchedule() function.
+   * Verifies schedule length, split of each installment and final balance.
+   */
+  describe('buildAmortizationSchedule', () => {
+    /**
+     * Verifies one row is generated per month of the term.
+     * @test {buildAmortizationSchedule}
+     */
+    it('creates one row per month', () => {
+      const schedule = buildAmortizationSchedule(10000, 0.1, 12)
+
+      expect(schedule).toHaveLength(12)
+      expect(schedule[0]?.month).toBe(1)
+      expect(schedule[11]?.month).toBe(12)
+    })
+
+    /**
+     * Verifies the first installment is split into interest and principal correctly.
+     * @test {buildAmortizationSchedule}
+     */
+    it('splits the first installment into interest and principal', () => {
+      const [first] = buildAmortizationSchedule(10000, 0.1, 12)
+
+      // interest = 10000 * 0.1 / 12 = 83.33
+      expect(first?.interest).toBe(83.33)
+      expect(first?.principal).toBe(795.83)
+      expect(first?.payment).toBe(879.16)
+      expect(first?.balance).toBe(9204.17)
+    })
+
+    /**
+     * Verifies the balance reaches exactly zero and principal parts sum to the amount.
+     * @test {buildAmortizationSchedule}
+     */
+    it('fully repays the principal by the last month', () => {
+      const schedule = buildAmortizationSchedule(50000, 0.08, 24)
+      const principalPaid = schedule.reduce((sum, row) => sum + row.principal, 0)
+
+      expect(schedule[schedule.length - 1]?.balance).toBe(0)
+      expect(roundCurrency(principalPaid)).toBe(50000)
+    })
+
+    /**
+     * Verifies interest decreases month over month as the balance shrinks.
+     * @test {buildAmortizationSchedule}
+     */
+    it('has decreasing interest over time', () => {
+      const schedule = buildAmortizationSchedule(50000, 0.08, 24)
+
+      expect(schedule[0]!.interest).toBeGreaterThan(schedule[23]!.interest)
+    })
+
+    /**
+     * Verifies a 0% loan has no interest in any row.
+     * @test {buildAmortizationSchedule}
+     */
+    it('has no interest for 0% loans', () => {
+      const schedule = buildAmortizationSchedule(1200, 0, 12)
+
+      expect(totalInterest(schedule)).toBe(0)
+      expect(schedule.every(row => row.payment === 100)).toBe(true)
+    })
+  })
+
+  /**
+   * Tests for the schedule total helpers.
+   */
+  describe('totals', () => {
+    /**
+     * Verifies total repayable equals principal plus total interest.
+     * @test {totalRepayable}
+     */
+    it('sums total interest and total repayable', () => {
+      const schedule = buildAmortizationSchedule(10000, 0.1, 12)
+
+      expect(totalRepayable(schedule)).toBe(roundCurrency(10000 + totalInterest(schedule)))
+      expect(totalInterest(schedule)).toBeCloseTo(549.91, 1)
+    })
+  })
+})
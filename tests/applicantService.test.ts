@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Unit tests for the applicantService module.
+ * Tests registering applicants, validating their details, linking
+ * loans to them and calculating their exposure.
+ */
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  calculateExposure,
+  createApplicant,
+  deleteApplicant,
+  getApplicant,
+  getApplicantInputErrors,
+  getApplicantLoans,
+  getApplicants
+} from '../src/services/applicantService'
+import { createLoanApplication, getLoanInputErrors } from '../src/services/loanService'
+
+/**
+ * Test suite for applicantService module.
+ */
+describe('applicantService', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  /**
+   * Tests for createApplicant() function.
+   */
+  describe('createApplicant', () => {
+    /**
+     * Verifies the applicant is stored with trimmed details and without empty fields.
+     * @test {createApplicant}
+     */
+    it('registers an applicant', () => {
+      const applicant = createApplicant({
+        name: '  Jane Smith ',
+        email: ' jane@example.com ',
+        phone: '',
+        monthlyIncome: 4200,
+        employment: 'employed'
+      })
+
+      expect(applicant).toMatchObject({
+        name: 'Jane Smith',
+        email: 'jane@example.com',
+        monthlyIncome: 4200,
+        employment: 'employed'
+      })
+      expect(applicant.phone).toBeUndefined()
+      expect(getApplicants()).toEqual([applicant])
+      expect(getApplicant(applicant.id)).toEqual(applicant)
+    })
+
+    /**
+     * Verifies invalid details are refused.
+     * @test {createApplicant}
+     */
+    it('refuses invalid details', () => {
+      expect(() => createApplicant({ name: ' ' })).toThrow('Applicant name is required')
+      expect(() => createApplicant({ name: 'Jane', email: 'jane@' })).toThrow('Email address is not valid')
+      expect(() => createApplicant({ name: 'Jane', dateOfBirth: '2999-01-01' }))
+        .toThrow('Date of birth must be a valid date in the past')
+      expect(() => createApplicant({ name: 'Jane', monthlyIncome: -1 }))
+        .toThrow('Monthly income cannot be negative')
+      expect(getApplicants()).toEqual([])
+    })
+
+    /**
+     * Verifies a national ID can only be registered once.
+     * @test {getApplicantInputErrors}
+     */
+    it('refuses a national ID that is already registered', () => {
+      createApplicant({ name: 'Jane Smith', nationalId: '855423/1234' })
+
+      expect(getApplicantInputErrors({ name: 'Jane S.', nationalId: ' 855423/1234 ' })).toEqual([
+        { code: 'nationalIdTaken', params: { nationalId: '855423/1234' } }
+      ])
+    })
+
+    /**
+     * Verifies a registered applicant can be removed.
+     * @test {deleteApplicant}
+     */
+    it('removes an applicant', () => {
+      const jane = createApplicant({ name: 'Jane Smith' })
+      const john = createApplicant({ name: 'John Doe' })
+
+      deleteApplicant(jane.id)
+
+      expect(getApplicants()).toEqual([john])
+    })
+  })
+
+  /**
+   * Tests for linking loans to applicants.
+   */
+  describe('loans', () => {
+    /**
+     * Verifies only the loans of the applicant are listed.
+     * @test {getApplicantLoans}
+     */
+    it('lists the loans of an applicant', () => {
+      const jane = createApplicant({ name: 'Jane' })
+      const first = createLoanApplication({ applicantName: 'Jane', applicantId: jane.id, amount: 1000, termMonths: 12, interestRate: 0.05 })
+      const other = createLoanApplication({ applicantName: 'John', amount: 2000, termMonths: 12, interestRate: 0.05 })
+      const second = createLoanApplication({ applicantName: 'Jane', applicantId: jane.id, amount: 3000, termMonths: 12, interestRate: 0.05 })
+
+      expect(getApplicantLoans(jane.id, [first, other, second]).map(loan => loan.id)).toEqual([first.id, second.id])
+      expect(first.applicantId).toBe(jane.id)
+    })
+
+    /**
+     * Verifies a loan cannot be linked to an unknown applicant.
+     * @test {getLoanInputErrors}
+     */
+    it('refuses an unknown applicant', () => {
+      const errors = getLoanInputErrors({ applicantName: 'Jane', applicantId: 'missing', amount: 1000, termMonths: 12, interestRate: 0.05 })
+
+      expect(errors).toEqual([{ code: 'applicantUnknown' }])
+    })
+
+    /**
+     * Verifies exposure counts only approved, disbursed and defaulted loans, per currency.
+     * @test {calculateExposure}
+     */
+    it('calculates the exposure per currency', () => {
+      const jane = createApplicant({ name: 'Jane' })
+      const create = (amount: number, currency: 'USD' | 'EUR') =>
+        createLoanApplication({ applicantName: 'Jane', applicantId: jane.id, amount, termMonths: 12, interestRate: 0.05, currency })
+      const loans = [
+        { ...create(1000, 'USD'), status: 'approved' as const },
+        { ...create(2000, 'USD'), status: 'disbursed' as const },
+        { ...create(500, 'EUR'), status: 'defaulted' as const },
+        { ...create(8000, 'USD'), status: 'rejected' as const },
+        create(9000, 'USD')
+      ]
+
+      expect(calculateExposure(loans)).toEqual([
+        { currency: 'EUR', total: 500 },
+        { currency: 'USD', total: 3000 }
+      ])
+    })
+  })
+})
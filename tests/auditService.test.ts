@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Unit tests for the auditService module.
+ * Tests the append-only audit log, per-loan trails, actor handling
+ * and field diffing.
+ */
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  getAuditLog,
+  getAuditTrail,
+  recordAuditEntry,
+  getCurrentActor,
+  setCurrentActor,
+  diffFields
+} from '../src/services/auditService'
+
+/**
+ * Test suite for auditService module.
+ */
+describe('auditService', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  /**
+   * Tests for actor handling.
+   */
+  describe('actor', () => {
+    /**
+     * Verifies a default actor is used until a name is set.
+     * @test {getCurrentActor}
+     */
+    it('defaults to a generic officer', () => {
+      expect(getCurrentActor()).toBe('officer')
+    })
+
+    /**
+     * Verifies the actor name is persisted and blank names reset it.
+     * @test {setCurrentActor}
+     */
+    it('persists the actor name', () => {
+      setCurrentActor('  Jane Officer ')
+      expect(getCurrentActor()).toBe('Jane Officer')
+
+      setCurrentActor('')
+      expect(getCurrentActor()).toBe('officer')
+    })
+  })
+
+  /**
+   * Tests for recording and reading entries.
+   */
+  describe('recordAuditEntry', () => {
+    /**
+     * Verifies entries carry timestamp, actor, action and changes.
+     * @test {recordAuditEntry}
+     */
+    it('records an entry with timestamp and actor', () => {
+      setCurrentActor('Jane')
+
+      const entry = recordAuditEntry('loan-1', 'status_changed', [
+        { field: 'status', before: 'submitted', after: 'approved' }
+      ])
+
+      expect(entry.loanId).toBe('loan-1')
+      expect(entry.actor).toBe('Jane')
+      expect(entry.action).toBe('status_changed')
+      expect(entry.timestamp).toBeDefined()
+      expect(getAuditLog()).toEqual([entry])
+    })
+
+    /**
+     * Verifies entries are appended, never replaced.
+     * @test {recordAuditEntry}
+     */
+    it('appends entries in order', () => {
+      recordAuditEntry('loan-1', 'created', [])
+      recordAuditEntry('loan-2', 'created', [])
+      recordAuditEntry('loan-1', 'deleted', [])
+
+      expect(getAuditLog().map(e => e.action)).toEqual(['created', 'created', 'deleted'])
+    })
+
+    /**
+     * Verifies the trail only contains entries of the requested loan.
+     * @test {getAuditTrail}
+     */
+    it('returns the trail of a single loan', () => {
+      recordAuditEntry('loan-1', 'created', [])
+      recordAuditEntry('loan-2', 'created', [])
+      recordAuditEntry('loan-1', 'edited', [])
+
+      const trail = getAuditTrail('loan-1')
+      expect(trail).toHaveLength(2)
+      expect(trail.every(e => e.loanId === 'loan-1')).toBe(true)
+    })
+  })
+
+  /**
+   * Tests for diffFields() function.
+   */
+  describe('diffFields', () => {
+    /**
+     * Verifies only changed fields are reported with before/after values.
+     * @test {diffFields}
+     */
+    it('lists changed fields with before and after values', () => {
+      const changes = diffFields(
+        { amount: 1000, termMonths: 12 },
+        { amount: 2000, termMonths: 12 },
+        ['amount', 'termMonths']
+      )
+
+      expect(changes).toEqual([{ field: 'amount', before: 1000, after: 2000 }])
+    })
+
+    /**
+     * Verifies missing values are recorded as null.
+     * @test {diffFields}
+     */
+    it('records missing values as null', () => {
+      expect(diffFields({}, { amount: 1000 }, ['amount'])).toEqual([
+        { field: 'amount', before: null, after: 1000 }
+      ])
+    })
+  })
+})
@@ -0,0 +1,277 @@
+/**
+ * @fileoverview Unit tests for the backupService module.
+ * Tests creating, validating, comparing and restoring workspace backups,
+ * including rule set versions that differ between the backup and storage.
+ */
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  BACKUP_VERSION,
+  createBackup,
+  parseBackup,
+  diffBackup,
+  restoreBackup
+} from '../src/services/backupService'
+import {
+  createLoanApplication,
+  deleteLoan,
+  getLoans,
+  getTrashedLoans,
+  updateLoanStatus
+} from '../src/services/loanService'
+import { getRuleSetHistory, saveRuleSet } from '../src/services/ruleService'
+import { getAuditLog, getCurrentActor, setCurrentActor } from '../src/services/auditService'
+import { getQuarantinedLoans, quarantineRecords } from '../src/services/quarantineService'
+import { LOANS_SCHEMA_VERSION } from '../src/services/migrations'
+import { createApplicant, getApplicants } from '../src/services/applicantService'
+import { ValidationError } from '../src/services/errors'
+
+/**
+ * Test suite for backupService module.
+ */
+describe('backupService', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  /**
+   * Create a loan with the given applicant name.
+   * @param applicantName - Name of the applicant
+   * @returns The created loan
+   */
+  const createLoan = (applicantName: string) =>
+    createLoanApplication({ applicantName, amount: 10000, termMonths: 12, interestRate: 0.05 })
+
+  /**
+   * Tests for createBackup() function.
+   */
+  describe('createBackup', () => {
+    /**
+     * Verifies the backup contains loans, settings and metadata.
+     * @test {createBackup}
+     */
+    it('collects the whole workspace', () => {
+      setCurrentActor('Jane Officer')
+      const active = createLoan('Active')
+      const trashed = createLoan('Trashed')
+      deleteLoan(trashed.id)
+      saveRuleSet({ rules: [], defaultOutcome: 'refer' })
+      quarantineRecords([{ record: { broken: true }, reason: 'Invalid fields: id' }])
+
+      const backup = createBackup()
+
+      expect(backup).toMatchObject({
+        format: 'tredgate-backup',
+        backupVersion: BACKUP_VERSION,
+        schemaVersion: LOANS_SCHEMA_VERSION,
+        actor: 'Jane Officer'
+      })
+      expect(backup.loans.map(loan => loan.id)).toEqual([active.id, trashed.id])
+      expect(backup.ruleSets).toHaveLength(4)
+      expect(backup.auditLog).toHaveLength(3)
+      expect(backup.quarantine).toHaveLength(1)
+    })
+  })
+
+  /**
+   * Tests for parseBackup() function.
+   */
+  describe('parseBackup', () => {
+    /**
+     * Verifies a written backup can be read back.
+     * @test {parseBackup}
+     */
+    it('reads a backup file', () => {
+      createLoan('Jane')
+      const backup = createBackup()
+
+      expect(parseBackup(JSON.stringify(backup))).toEqual(backup)
+    })
+
+    /**
+     * Verifies loans of an older schema are migrated.
+     * @test {parseBackup}
+     */
+    it('migrates loans from an older schema', () => {
+      const backup = {
+        ...createBackup(),
+        schemaVersion: 1,
+        loans: [{
+          id: 'old',
+          applicantName: 'Old',
+          amount: 1000,
+          termMonths: 12,
+          interestRate: 0.05,
+          status: 'pending',
+          createdAt: '2024-01-01T00:00:00.000Z'
+        }]
+      }
+
+      const parsed = parseBackup(JSON.stringify(backup))
+
+      expect(parsed.schemaVersion).toBe(LOANS_SCHEMA_VERSION)
+      expect(parsed.loans[0]).toMatchObject({ status: 'submitted', revision: 1 })
+    })
+
+    /**
+     * Verifies invalid files are refused with a reason.
+     * @test {parseBackup}
+     */
+    it('refuses invalid files', () => {
+      const backup = createBackup()
+
+      expect(() => parseBackup('not json')).toThrow('The backup file is not valid JSON')
+      expect(() => parseBackup('{"loans":[]}')).toThrow('The file is not a Tredgate backup')
+      expect(() => parseBackup(JSON.stringify({ ...backup, backupVersion: BACKUP_VERSION + 1 })))
+        .toThrow(`Backup version ${BACKUP_VERSION + 1} is newer than supported version ${BACKUP_VERSION}`)
+      expect(() => parseBackup(JSON.stringify({ ...backup, loans: [{ id: 'x' }] })))
+        .toThrow('Loan 1 in the backup has invalid fields')
+      expect(() => parseBackup(JSON.stringify({ ...backup, auditLog: {} })))
+        .toThrow('The backup has an invalid audit log')
+      expect(() => parseBackup(JSON.stringify({ ...backup, applicants: [{ name: 'No ID' }] })))
+        .toThrow('The backup has invalid applicants')
+    })
+
+    /**
+     * Verifies loans that cannot be migrated are refused with a backup error.
+     * @test {parseBackup}
+     */
+    it('refuses loans that cannot be migrated', () => {
+      const backup = createBackup()
+
+      expect(() => parseBackup(JSON.stringify({ ...backup, schemaVersion: LOANS_SCHEMA_VERSION + 1 })))
+        .toThrow(new ValidationError({
+          code: 'backupSchemaTooNew',
+          params: { version: LOANS_SCHEMA_VERSION + 1, supported: LOANS_SCHEMA_VERSION }
+        }))
+      expect(() => parseBackup(JSON.stringify({ ...backup, loans: {} })))
+        .toThrow('The loans in the backup cannot be read')
+    })
+
+    /**
+     * Verifies backups written before the applicant registry are still read.
+     * @test {parseBackup}
+     */
+    it('reads a version 1 backup without applicants', () => {
+      const backup: Record<string, unknown> = { ...createBackup(), backupVersion: 1 }
+      delete backup.applicants
+
+      expect(parseBackup(JSON.stringify(backup)).applicants).toEqual([])
+    })
+  })
+
+  /**
+   * Tests for diffBackup() function.
+   */
+  describe('diffBackup', () => {
+    /**
+     * Verifies new, changed and removed loans are reported.
+     * @test {diffBackup}
+     */
+    it('compares the backup with the current loans', () => {
+      const kept = createLoan('Kept')
+      const changed = createLoan('Changed')
+      const removed = createLoan('Removed')
+      const backup = createBackup()
+      backup.loans = backup.loans
+        .filter(loan => loan.id !== removed.id)
+        .map(loan => loan.id === changed.id ? { ...loan, amount: 20000 } : loan)
+      backup.loans.push({ ...kept, id: 'new-loan', applicantName: 'New' })
+
+      const diff = diffBackup(backup)
+
+      expect(diff.added.map(loan => loan.applicantName)).toEqual(['New'])
+      expect(diff.changed.map(loan => loan.applicantName)).toEqual(['Changed'])
+      expect(diff.removed.map(loan => loan.applicantName)).toEqual(['Removed'])
+      expect(diff.ruleSetConflicts).toEqual([])
+    })
+
+    /**
+     * Verifies rule set versions with different rules in the backup are reported.
+     * @test {diffBackup}
+     */
+    it('reports rule set versions that differ', () => {
+      const { version } = saveRuleSet({ rules: [], defaultOutcome: 'refer' })
+      const backup = createBackup()
+      localStorage.clear()
+      saveRuleSet({ rules: [], defaultOutcome: 'reject' })
+
+      expect(diffBackup(backup).ruleSetConflicts).toEqual([version])
+    })
+  })
+
+  /**
+   * Tests for restoreBackup() function.
+   */
+  describe('restoreBackup', () => {
+    /**
+     * Verifies replace makes the storage match the backup.
+     * @test {restoreBackup}
+     */
+    it('replaces the current data', () => {
+      setCurrentActor('Backup Officer')
+      const inBackup = createLoan('In backup')
+      const applicant = createApplicant({ name: 'In backup' })
+      const backup = createBackup()
+      localStorage.clear()
+      createLoan('Only current')
+      createApplicant({ name: 'Only current' })
+      saveRuleSet({ rules: [], defaultOutcome: 'refer' })
+
+      restoreBackup(backup, 'replace')
+
+      expect(getLoans()).toEqual([inBackup])
+      expect(getApplicants()).toEqual([applicant])
+      expect(getRuleSetHistory()).toEqual(backup.ruleSets)
+      expect(getAuditLog()).toEqual(backup.auditLog)
+      expect(getCurrentActor()).toBe('Backup Officer')
+    })
+
+    /**
+     * Verifies merge keeps current data and takes newer revisions from the backup.
+     * @test {restoreBackup}
+     */
+    it('merges the backup into the current data', () => {
+      const shared = createLoan('Shared')
+      const onlyBackup = createLoan('Only backup')
+      deleteLoan(onlyBackup.id)
+      updateLoanStatus(shared.id, 'approved')
+      createApplicant({ name: 'Only backup' })
+      const backup = createBackup()
+      localStorage.clear()
+      setCurrentActor('Current Officer')
+      createLoan('Only current')
+      createApplicant({ name: 'Only current' })
+      quarantineRecords([{ record: null, reason: 'Unreadable' }])
+      const sharedBefore = { ...shared, applicantName: 'Shared (current)' }
+      localStorage.setItem('tredgate_loans', JSON.stringify({
+        schemaVersion: LOANS_SCHEMA_VERSION,
+        loans: [...getLoans(), sharedBefore]
+      }))
+
+      restoreBackup(backup, 'merge')
+
+      expect(getLoans().map(loan => loan.applicantName)).toEqual(['Only current', 'Shared'])
+      expect(getLoans()[1]?.status).toBe('approved')
+      expect(getTrashedLoans().map(loan => loan.id)).toEqual([onlyBackup.id])
+      expect(getAuditLog()).toHaveLength(backup.auditLog.length + 1)
+      expect(getQuarantinedLoans()).toHaveLength(1)
+      expect(getApplicants().map(applicant => applicant.name)).toEqual(['Only current', 'Only backup'])
+      expect(getCurrentActor()).toBe('Current Officer')
+    })
+
+    /**
+     * Verifies merge keeps the current rules of a rule set version in both.
+     * @test {restoreBackup}
+     */
+    it('keeps the current rules of a conflicting rule set version', () => {
+      saveRuleSet({ rules: [], defaultOutcome: 'refer' })
+      const backup = createBackup()
+      localStorage.clear()
+      const current = saveRuleSet({ rules: [], defaultOutcome: 'reject' })
+
+      restoreBackup(backup, 'merge')
+
+      expect(getRuleSetHistory().find(ruleSet => ruleSet.version === current.version)).toEqual(current)
+    })
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Unit tests for the ApplicantList component.
+ * Tests listing registered applicants with their loans and opening
+ * an applicant profile.
+ */
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import ApplicantList from '../../src/components/ApplicantList.vue'
+import type { Applicant } from '../../src/types/applicant'
+import type { LoanApplication } from '../../src/types/loan'
+
+/**
+ * Test suite for the ApplicantList component.
+ */
+describe('ApplicantList', () => {
+  const applicant: Applicant = {
+    id: 'applicant-1',
+    name: 'Jane Smith',
+    phone: '+420 601 123 456',
+    createdAt: '2024-01-10T10:30:00.000Z'
+  }
+
+  const loan: LoanApplication = {
+    id: 'loan-1',
+    applicantName: 'Jane Smith',
+    applicantId: 'applicant-1',
+    amount: 200000,
+    currency: 'CZK',
+    termMonths: 12,
+    interestRate: 0.05,
+    status: 'disbursed',
+    createdAt: '2024-01-15T10:30:00.000Z',
+    revision: 2
+  }
+
+  /**
+   * Verifies an empty registry shows a message.
+   * @test {ApplicantList}
+   */
+  it('shows an empty state', () => {
+    const wrapper = mount(ApplicantList, { props: { applicants: [], loans: [] } })
+
+    expect(wrapper.find('.empty-state').exists()).toBe(true)
+  })
+
+  /**
+   * Verifies applicants are listed with their contact, loan count and exposure.
+   * @test {ApplicantList}
+   */
+  it('lists applicants', () => {
+    const wrapper = mount(ApplicantList, { props: { applicants: [applicant], loans: [loan] } })
+
+    const cells = wrapper.findAll('tbody td').map(cell => cell.text())
+    expect(cells.slice(0, 5)).toEqual(['Jane Smith', '—', '+420 601 123 456', '1', 'CZK 200,000.00'])
+  })
+
+  /**
+   * Verifies the profile opens in a modal.
+   * @test {ApplicantList}
+   */
+  it('opens the applicant profile', async () => {
+    const wrapper = mount(ApplicantList, {
+      props: { applicants: [applicant], loans: [loan] },
+      global: { stubs: { teleport: true } }
+    })
+
+    await wrapper.find('.profile-btn').trigger('click')
+
+    expect(wrapper.find('.modal-header h3').text()).toBe('Applicant – Jane Smith')
+    expect(wrapper.findComponent({ name: 'ApplicantProfile' }).props('applicant')).toEqual(applicant)
+  })
+
+  /**
+   * Verifies the back button emits close.
+   * @test {ApplicantList}
+   */
+  it('emits close', async () => {
+    const wrapper = mount(ApplicantList, { props: { applicants: [], loans: [] } })
+
+    await wrapper.find('.applicants-header button').trigger('click')
+
+    expect(wrapper.emitted('close')).toBeTruthy()
+  })
+})
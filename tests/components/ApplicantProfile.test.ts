@@ -0,0 +1,78 @@
+/**
+ * @fileoverview Unit tests for the ApplicantProfile component.
+ * Tests the applicant details, the loans of the applicant and their
+ * total exposure.
+ */
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import ApplicantProfile from '../../src/components/ApplicantProfile.vue'
+import type { Applicant } from '../../src/types/applicant'
+import type { LoanApplication } from '../../src/types/loan'
+
+/**
+ * Test suite for the ApplicantProfile component.
+ */
+describe('ApplicantProfile', () => {
+  const applicant: Applicant = {
+    id: 'applicant-1',
+    name: 'Jane Smith',
+    dateOfBirth: '1985-04-23',
+    email: 'jane@example.com',
+    nationalId: '855423/1234',
+    employment: 'self_employed',
+    createdAt: '2024-01-10T10:30:00.000Z'
+  }
+
+  /**
+   * Create a loan of the applicant.
+   * @param overrides - Partial loan properties to override defaults
+   * @returns Complete LoanApplication object
+   */
+  const createLoan = (overrides: Partial<LoanApplication> = {}): LoanApplication => ({
+    id: 'loan-1',
+    applicantName: 'Jane Smith',
+    applicantId: 'applicant-1',
+    amount: 10000,
+    currency: 'USD',
+    termMonths: 12,
+    interestRate: 0.05,
+    status: 'approved',
+    createdAt: '2024-01-15T10:30:00.000Z',
+    revision: 1,
+    ...overrides
+  })
+
+  /**
+   * Verifies the details that were given are shown.
+   * @test {ApplicantProfile}
+   */
+  it('shows the applicant details', () => {
+    const wrapper = mount(ApplicantProfile, { props: { applicant, loans: [] } })
+
+    const details = wrapper.find('.detail-fields').text()
+    expect(details).toContain('Apr 23, 1985')
+    expect(details).toContain('jane@example.com')
+    expect(details).toContain('855423/1234')
+    expect(details).toContain('Self-employed')
+    expect(details).not.toContain('Phone')
+    expect(wrapper.find('.no-loans').exists()).toBe(true)
+    expect(wrapper.find('.no-exposure').exists()).toBe(true)
+  })
+
+  /**
+   * Verifies only the loans of the applicant are listed and counted in the exposure.
+   * @test {ApplicantProfile}
+   */
+  it('lists the loans and totals the exposure', () => {
+    const loans = [
+      createLoan(),
+      createLoan({ id: 'loan-2', amount: 5000, status: 'disbursed' }),
+      createLoan({ id: 'loan-3', amount: 7000, status: 'rejected' }),
+      createLoan({ id: 'loan-4', applicantId: 'applicant-2', applicantName: 'Someone Else' })
+    ]
+    const wrapper = mount(ApplicantProfile, { props: { applicant, loans } })
+
+    expect(wrapper.findAll('tbody tr')).toHaveLength(3)
+    expect(wrapper.find('.exposure-totals').text()).toBe('$15,000.00')
+  })
+})
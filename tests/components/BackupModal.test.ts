@@ -0,0 +1,154 @@
+/**
+ * @fileoverview Unit tests for the BackupModal component.
+ * Tests downloading a backup and the restore flow with its diff summary
+ * and errors.
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { mount, flushPromises } from '@vue/test-utils'
+import BackupModal from '../../src/components/BackupModal.vue'
+import { createBackup } from '../../src/services/backupService'
+import { createLoanApplication, getLoans } from '../../src/services/loanService'
+import { saveRuleSet } from '../../src/services/ruleService'
+import { downloadTextFile } from '../../src/services/fileDownload'
+
+/**
+ * Mock the file download so backups do not touch the DOM.
+ */
+vi.mock('../../src/services/fileDownload', () => ({
+  downloadTextFile: vi.fn()
+}))
+
+/**
+ * Test suite for the BackupModal component.
+ */
+describe('BackupModal', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    vi.clearAllMocks()
+  })
+
+  /**
+   * Create a loan with the given applicant name.
+   * @param applicantName - Name of the applicant
+   * @returns The created loan
+   */
+  const createLoan = (applicantName: string) =>
+    createLoanApplication({ applicantName, amount: 10000, termMonths: 12, interestRate: 0.05 })
+
+  /**
+   * Mount the modal and select a file with the given content.
+   * @param content - Text of the selected file
+   * @returns Mounted wrapper
+   */
+  const mountWithFile = async (content: string) => {
+    const wrapper = mount(BackupModal, {
+      props: { show: true },
+      global: { stubs: { teleport: true } }
+    })
+    const input = wrapper.find('#backupFile')
+    // jsdom does not implement Blob.text()
+    const file = Object.assign(new File([content], 'backup.json', { type: 'application/json' }), {
+      text: () => Promise.resolve(content)
+    })
+    Object.defineProperty(input.element, 'files', { value: [file] })
+    await input.trigger('change')
+    await flushPromises()
+    return wrapper
+  }
+
+  /**
+   * Verifies the backup is downloaded as JSON.
+   * @test {BackupModal}
+   */
+  it('downloads a backup', async () => {
+    createLoan('Jane')
+    const wrapper = mount(BackupModal, {
+      props: { show: true },
+      global: { stubs: { teleport: true } }
+    })
+
+    await wrapper.find('.download-backup-btn').trigger('click')
+
+    expect(downloadTextFile).toHaveBeenCalledWith(
+      expect.stringMatching(/^tredgate-backup-\d{4}-\d{2}-\d{2}\.json$/),
+      expect.stringContaining('"applicantName": "Jane"'),
+      'application/json'
+    )
+  })
+
+  /**
+   * Verifies the diff summary of a selected backup.
+   * @test {BackupModal}
+   */
+  it('shows the differences to the current data', async () => {
+    createLoan('In backup')
+    const backup = createBackup()
+    createLoan('Only current')
+
+    const wrapper = await mountWithFile(JSON.stringify(backup))
+
+    expect(wrapper.find('.diff-summary').text()).toContain('0 new, 0 changed, 1 not in the backup.')
+    expect(wrapper.find('.diff-removed').text()).toBe('Not in backup: Only current')
+  })
+
+  /**
+   * Verifies invalid files show an error and cannot be restored.
+   * @test {BackupModal}
+   */
+  it('shows an error for invalid files', async () => {
+    const wrapper = await mountWithFile('{}')
+
+    expect(wrapper.find('.error-message').text()).toBe('The file is not a Tredgate backup')
+    expect(wrapper.find('.replace-btn').attributes('disabled')).toBeDefined()
+  })
+
+  /**
+   * Verifies replacing restores the backup and emits restored.
+   * @test {BackupModal}
+   */
+  it('restores the backup', async () => {
+    createLoan('In backup')
+    const backup = createBackup()
+    createLoan('Only current')
+    const wrapper = await mountWithFile(JSON.stringify(backup))
+
+    await wrapper.find('.replace-btn').trigger('click')
+
+    expect(getLoans().map(loan => loan.applicantName)).toEqual(['In backup'])
+    expect(wrapper.emitted('restored')).toHaveLength(1)
+  })
+
+  /**
+   * Verifies rule set versions that differ from the backup are listed.
+   * @test {BackupModal}
+   */
+  it('shows conflicting rule set versions', async () => {
+    saveRuleSet({ rules: [], defaultOutcome: 'refer' })
+    const backup = createBackup()
+    localStorage.clear()
+    saveRuleSet({ rules: [], defaultOutcome: 'reject' })
+
+    const wrapper = await mountWithFile(JSON.stringify(backup))
+
+    expect(wrapper.find('.rule-set-conflicts').text())
+      .toBe('Rule set version 4 differs between the backup and this workspace; merging keeps the current rules.')
+  })
+
+  /**
+   * Verifies a failed restore is shown in the modal.
+   * @test {BackupModal}
+   */
+  it('shows an error when the restore fails', async () => {
+    createLoan('In backup')
+    const wrapper = await mountWithFile(JSON.stringify(createBackup()))
+    const setItem = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new Error('Storage is full')
+    })
+
+    await wrapper.find('.replace-btn').trigger('click')
+    setItem.mockRestore()
+
+    expect(wrapper.find('.error-message').text()).toBe('Storage is full')
+    expect(wrapper.emitted('restored')).toBeUndefined()
+  })
+})
@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Unit tests for the CreditScoreBreakdown component.
+ * Tests the score summary and the points of every scored attribute.
+ */
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import CreditScoreBreakdown from '../../src/components/CreditScoreBreakdown.vue'
+import type { CreditScore } from '../../src/types/scoring'
+
+/**
+ * Test suite for the CreditScoreBreakdown component.
+ */
+describe('CreditScoreBreakdown', () => {
+  const creditScore: CreditScore = {
+    score: 655,
+    band: 'C',
+    ruleSetVersion: 3,
+    scoredAt: '2024-01-15T10:30:00.000Z',
+    contributions: [
+      { attribute: 'age', value: null, points: 15 },
+      { attribute: 'employment', value: 'self_employed', points: 35 },
+      { attribute: 'monthlyIncome', value: 4000, points: 45 },
+      { attribute: 'dti', value: 0.25, points: 50 },
+      { attribute: 'amount', value: 20000, points: 10 }
+    ]
+  }
+
+  /**
+   * Verifies the score, band and scorecard version are shown.
+   * @test {CreditScoreBreakdown}
+   */
+  it('shows the score and band', () => {
+    const wrapper = mount(CreditScoreBreakdown, { props: { creditScore, currency: 'EUR' } })
+
+    expect(wrapper.find('.score-badge').text()).toBe('655 (C)')
+    expect(wrapper.find('.score-badge').classes()).toContain('score-C')
+    expect(wrapper.find('.score-version').text()).toBe('Scorecard of rule set v3')
+  })
+
+  /**
+   * Verifies each attribute is listed with its formatted value and points.
+   * @test {CreditScoreBreakdown}
+   */
+  it('lists the points of every attribute', () => {
+    const wrapper = mount(CreditScoreBreakdown, { props: { creditScore, currency: 'EUR' } })
+
+    const rows = wrapper.findAll('tbody tr').map(row => row.findAll('td').map(cell => cell.text()))
+    expect(rows).toEqual([
+      ['Age', 'Unknown', '15'],
+      ['Employment', 'Self-employed', '35'],
+      ['Monthly income', '€4,000.00', '45'],
+      ['Debt-to-income', '25.0%', '50'],
+      ['Amount', '€20,000.00', '10']
+    ])
+  })
+})
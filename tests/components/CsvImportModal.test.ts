@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Unit tests for the CsvImportModal component.
+ * Tests the per-row report of a selected CSV file, importing valid rows
+ * and reporting failed imports.
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { mount, flushPromises } from '@vue/test-utils'
+import CsvImportModal from '../../src/components/CsvImportModal.vue'
+import { getLoans } from '../../src/services/loanService'
+
+/**
+ * Test suite for the CsvImportModal component.
+ */
+describe('CsvImportModal', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  /**
+   * Mount the modal and select a CSV file with the given content.
+   * @param content - Text of the selected file
+   * @returns Mounted wrapper
+   */
+  const mountWithFile = async (content: string) => {
+    const wrapper = mount(CsvImportModal, {
+      props: { show: true },
+      global: { stubs: { teleport: true } }
+    })
+    const input = wrapper.find('#csvFile')
+    // jsdom does not implement Blob.text()
+    const file = Object.assign(new File([content], 'loans.csv', { type: 'text/csv' }), {
+      text: () => Promise.resolve(content)
+    })
+    Object.defineProperty(input.element, 'files', { value: [file] })
+    await input.trigger('change')
+    await flushPromises()
+    return wrapper
+  }
+
+  /**
+   * Verifies each row is listed with its errors.
+   * @test {CsvImportModal}
+   */
+  it('shows a per-row report', async () => {
+    const wrapper = await mountWithFile('applicantName,amount,termMonths,interestRate\nJane,1000,12,0.05\nBad,-5,12,0.05')
+
+    expect(wrapper.find('.import-summary').text()).toBe('1 of 2 rows can be imported.')
+    expect(wrapper.findAll('.row-valid')).toHaveLength(1)
+    expect(wrapper.find('.row-invalid .row-errors').text()).toBe('Amount must be greater than 0')
+  })
+
+  /**
+   * Verifies a file with missing columns shows an error.
+   * @test {CsvImportModal}
+   */
+  it('shows an error for unreadable files', async () => {
+    const wrapper = await mountWithFile('name,amount\nJane,1000')
+
+    expect(wrapper.find('.error-message').text()).toBe('Missing column "termMonths"')
+    expect(wrapper.find('.import-btn').attributes('disabled')).toBeDefined()
+  })
+
+  /**
+   * Verifies only valid rows are imported.
+   * @test {CsvImportModal}
+   */
+  it('imports the valid rows', async () => {
+    const wrapper = await mountWithFile('applicantName,amount,termMonths,interestRate\nJane,1000,12,0.05\nBad,-5,12,0.05')
+
+    await wrapper.find('.import-btn').trigger('click')
+
+    expect(getLoans().map(loan => loan.applicantName)).toEqual(['Jane'])
+    expect(wrapper.emitted('imported')).toEqual([[1]])
+  })
+
+  /**
+   * Verifies a failed import is reported in the modal and nothing is imported.
+   * @test {CsvImportModal}
+   */
+  it('shows an error when the import fails', async () => {
+    const wrapper = await mountWithFile('applicantName,amount,termMonths,interestRate\nJane,1000,12,0.05')
+    const setItem = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new Error('Storage is full')
+    })
+
+    await wrapper.find('.import-btn').trigger('click')
+    setItem.mockRestore()
+
+    expect(wrapper.find('.error-message').text()).toBe('Storage is full')
+    expect(wrapper.emitted('imported')).toBeUndefined()
+    expect(getLoans()).toEqual([])
+  })
+})
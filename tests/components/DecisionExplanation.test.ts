@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Unit tests for the DecisionExplanation component.
+ * Tests display of the decision outcome, matched rule and
+ * each check with its actual value versus threshold.
+ */
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import DecisionExplanation from '../../src/components/DecisionExplanation.vue'
+import type { LoanDecision } from '../../src/types/loan'
+
+/**
+ * Test suite for the DecisionExplanation component.
+ */
+describe('DecisionExplanation', () => {
+  /**
+   * Helper function to create a decision for testing.
+   * @param overrides - Partial decision properties to override defaults
+   * @returns Complete LoanDecision object
+   */
+  const createDecision = (overrides: Partial<LoanDecision> = {}): LoanDecision => ({
+    outcome: 'reject',
+    ruleSetVersion: 4,
+    ruleId: null,
+    ruleName: null,
+    decidedAt: '2024-01-15T10:30:00.000Z',
+    checks: [
+      { ruleId: 'standard-limits', ruleName: 'Standard limits', field: 'amount', operator: 'lte', threshold: 100000, actual: 150000, passed: false },
+      { ruleId: 'standard-limits', ruleName: 'Standard limits', field: 'termMonths', operator: 'lte', threshold: 60, actual: 24, passed: true }
+    ],
+    ...overrides
+  })
+
+  /**
+   * Verifies the outcome, rule set version and default-outcome note are shown.
+   * @test {DecisionExplanation}
+   */
+  it('renders the outcome and rule set version', () => {
+    const wrapper = mount(DecisionExplanation, {
+      props: { decision: createDecision() }
+    })
+
+    expect(wrapper.find('.decision-outcome').text()).toBe('Rejected')
+    expect(wrapper.find('.decision-meta').text()).toContain('No rule matched')
+    expect(wrapper.find('.decision-meta').text()).toContain('rule set v4')
+  })
+
+  /**
+   * Verifies a decision by the debt-to-income limit shows the ratio to the officer.
+   * @test {DecisionExplanation}
+   */
+  it('shows the debt-to-income ratio', () => {
+    const wrapper = mount(DecisionExplanation, {
+      props: {
+        decision: createDecision({
+          outcome: 'refer',
+          ruleId: 'affordability',
+          ruleName: 'Debt-to-income limit',
+          checks: [
+            { ruleId: 'affordability', ruleName: 'Debt-to-income limit', field: 'dti', operator: 'gt', threshold: 0.4, actual: 0.5, passed: true }
+          ],
+          affordability: { installment: 1000, dti: 0.5, disposableIncome: 1500 }
+        }),
+        currency: 'EUR'
+      }
+    })
+
+    expect(wrapper.find('.decision-meta').text()).toContain('Matched rule Debt-to-income limit')
+    expect(wrapper.find('.affordability .dti').text()).toBe('50.0%')
+    expect(wrapper.find('.affordability').text()).toContain('€1,500.00')
+    expect(wrapper.find('.check-passed').text()).toContain('Debt-to-income ratio > 40.0%')
+  })
+
+  /**
+   * Verifies the matched rule name is shown for approvals.
+   * @test {DecisionExplanation}
+   */
+  it('shows the matched rule', () => {
+    const wrapper = mount(DecisionExplanation, {
+      props: { decision: createDecision({ outcome: 'approve', ruleId: 'standard-limits', ruleName: 'Standard limits' }) }
+    })
+
+    expect(wrapper.find('.decision-outcome').text()).toBe('Approved')
+    expect(wrapper.find('.decision-meta').text()).toContain('Matched rule Standard limits')
+  })
+
+  /**
+   * Verifies each check shows threshold, formatted actual value and result.
+   * @test {DecisionExplanation}
+   */
+  it('lists each check with actual value versus threshold', () => {
+    const wrapper = mount(DecisionExplanation, {
+      props: { decision: createDecision() }
+    })
+
+    const rows = wrapper.findAll('tbody tr')
+    expect(rows).toHaveLength(2)
+    expect(rows[0]?.text()).toContain('Amount ≤ $100,000.00')
+    expect(rows[0]?.text()).toContain('$150,000.00')
+    expect(rows[0]?.classes()).toContain('check-failed')
+    expect(rows[1]?.text()).toContain('Term (months) ≤ 60')
+    expect(rows[1]?.classes()).toContain('check-passed')
+  })
+})
@@ -0,0 +1,202 @@
+/**
+ * @fileoverview Unit tests for the LoanDetail component.
+ * Tests display of loan fields, the audit timeline and editing loan terms.
+ */
+import { describe, it, expect, beforeEach } from 'vitest'
+import { mount } from '@vue/test-utils'
+import LoanDetail from '../../src/components/LoanDetail.vue'
+import { createLoanApplication, getLoans, updateLoan, updateLoanStatus } from '../../src/services/loanService'
+import { setCurrentActor } from '../../src/services/auditService'
+
+/**
+ * Test suite for the LoanDetail component.
+ */
+describe('LoanDetail', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    setCurrentActor('Jane Officer')
+  })
+
+  /**
+   * Helper to create a stored loan with an audit trail.
+   * @returns The created loan
+   */
+  const createStoredLoan = () =>
+    createLoanApplication({
+      applicantName: 'John Doe',
+      amount: 50000,
+      termMonths: 24,
+      interestRate: 0.08
+    })
+
+  /**
+   * Verifies loan fields are displayed.
+   * @test {LoanDetail}
+   */
+  it('renders the loan fields', () => {
+    const wrapper = mount(LoanDetail, { props: { loan: createStoredLoan() } })
+
+    const text = wrapper.find('.detail-fields').text()
+    expect(text).toContain('John Doe')
+    expect(text).toContain('$50,000.00')
+    expect(text).toContain('24 mo')
+    expect(text).toContain('submitted')
+    expect(wrapper.find('.product').exists()).toBe(false)
+  })
+
+  /**
+   * Verifies the loan product is shown when the loan has one.
+   * @test {LoanDetail}
+   */
+  it('shows the loan product', () => {
+    const loan = createLoanApplication({
+      applicantName: 'John Doe',
+      productId: 'auto',
+      amount: 20000,
+      termMonths: 48,
+      interestRate: 0.065
+    })
+    const wrapper = mount(LoanDetail, { props: { loan } })
+
+    expect(wrapper.find('.product').text()).toBe('Auto loan')
+  })
+
+  /**
+   * Verifies the debt-to-income ratio and disposable income are shown when the income is known.
+   * @test {LoanDetail}
+   */
+  it('shows the affordability of the loan', () => {
+    const loan = createLoanApplication({
+      applicantName: 'John Doe',
+      amount: 12000,
+      termMonths: 12,
+      interestRate: 0,
+      monthlyIncome: 4000,
+      monthlyObligations: 600
+    })
+
+    const wrapper = mount(LoanDetail, { props: { loan } })
+
+    expect(wrapper.find('.affordability-fields .dti').text()).toBe('40.0%')
+    expect(wrapper.find('.affordability-fields').text()).toContain('$2,400.00')
+    expect(mount(LoanDetail, { props: { loan: createStoredLoan() } }).find('.affordability-fields').exists()).toBe(false)
+  })
+
+  /**
+   * Verifies the audit trail is shown as a timeline with actor.
+   * @test {LoanDetail}
+   */
+  it('shows the audit timeline', () => {
+    const loan = createStoredLoan()
+    updateLoanStatus(loan.id, 'under_review')
+
+    const wrapper = mount(LoanDetail, { props: { loan: getLoans()[0]! } })
+
+    const entries = wrapper.findAll('.timeline-entry')
+    expect(entries).toHaveLength(2)
+    expect(entries[0]?.text()).toContain('Created')
+    expect(entries[0]?.text()).toContain('Jane Officer')
+    expect(entries[1]?.text()).toContain('Status changed')
+    expect(entries[1]?.text()).toContain('submitted → under_review')
+  })
+
+  /**
+   * Verifies disbursed loans show their repayment, and recorded payments refresh the timeline.
+   * @test {LoanDetail}
+   */
+  it('records payments on disbursed loans', async () => {
+    const loan = createStoredLoan()
+    updateLoanStatus(loan.id, 'under_review')
+    updateLoanStatus(loan.id, 'approved')
+    updateLoanStatus(loan.id, 'disbursed')
+    const wrapper = mount(LoanDetail, { props: { loan: getLoans()[0]! } })
+
+    await wrapper.find('.payment-amount').setValue(1000)
+    await wrapper.find('.payment-form').trigger('submit')
+
+    expect(getLoans()[0]?.payments?.[0]?.amount).toBe(1000)
+    expect(wrapper.emitted('updated')).toHaveLength(1)
+    expect(wrapper.findAll('.timeline-entry').map(entry => entry.text()).pop()).toContain('Payment recorded')
+  })
+
+  /**
+   * Verifies editing saves changes, records them and emits updated.
+   * @test {LoanDetail}
+   */
+  it('edits the loan terms', async () => {
+    const wrapper = mount(LoanDetail, { props: { loan: createStoredLoan() } })
+
+    await wrapper.find('.edit-btn').trigger('click')
+    await wrapper.find('#editAmount').setValue(60000)
+    await wrapper.find('form').trigger('submit')
+
+    expect(getLoans()[0]?.amount).toBe(60000)
+    expect(wrapper.emitted('updated')).toBeTruthy()
+    expect(wrapper.findAll('.timeline-entry')).toHaveLength(2)
+  })
+
+  /**
+   * Verifies validation errors are shown while editing.
+   * @test {LoanDetail}
+   */
+  it('shows validation errors when editing', async () => {
+    const wrapper = mount(LoanDetail, { props: { loan: createStoredLoan() } })
+
+    await wrapper.find('.edit-btn').trigger('click')
+    await wrapper.find('#editApplicantName').setValue('')
+    await wrapper.find('form').trigger('submit')
+
+    expect(wrapper.find('.error-message').text()).toBe('Applicant name is required')
+    expect(wrapper.emitted('updated')).toBeFalsy()
+  })
+
+  /**
+   * Verifies decided loans cannot be edited.
+   * @test {LoanDetail}
+   */
+  it('hides the edit button for decided loans', () => {
+    const loan = createStoredLoan()
+    updateLoanStatus(loan.id, 'approved')
+
+    const wrapper = mount(LoanDetail, { props: { loan: getLoans()[0]! } })
+
+    expect(wrapper.find('.edit-btn').exists()).toBe(false)
+  })
+
+  /**
+   * Verifies a warning is shown when the loan changes elsewhere during editing.
+   * @test {LoanDetail}
+   */
+  it('warns when the loan is changed in another tab while editing', async () => {
+    const loan = createStoredLoan()
+    const wrapper = mount(LoanDetail, { props: { loan } })
+
+    await wrapper.find('.edit-btn').trigger('click')
+    expect(wrapper.find('.conflict-warning').exists()).toBe(false)
+
+    await wrapper.setProps({ loan: { ...loan, amount: 75000, revision: 2 } })
+    expect(wrapper.find('.conflict-warning').exists()).toBe(true)
+
+    await wrapper.find('.reload-btn').trigger('click')
+    expect(wrapper.find('.conflict-warning').exists()).toBe(false)
+    expect((wrapper.find('#editAmount').element as HTMLInputElement).value).toBe('75000')
+  })
+
+  /**
+   * Verifies saving over a newer revision is refused with the reload prompt.
+   * @test {LoanDetail}
+   */
+  it('does not overwrite a loan changed since editing started', async () => {
+    const loan = createStoredLoan()
+    const wrapper = mount(LoanDetail, { props: { loan } })
+
+    await wrapper.find('.edit-btn').trigger('click')
+    updateLoan(loan.id, { amount: 75000 })
+    await wrapper.find('#editAmount').setValue(60000)
+    await wrapper.find('form').trigger('submit')
+
+    expect(wrapper.find('.conflict-warning').text()).toContain('changed elsewhere')
+    expect(getLoans()[0]?.amount).toBe(75000)
+    expect(wrapper.emitted('updated')).toBeFalsy()
+  })
+})
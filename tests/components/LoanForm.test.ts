@@ -7,6 +7,9 @@ import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { mount } from '@vue/test-utils'
 import LoanForm from '../../src/components/LoanForm.vue'
 import * as loanService from '../../src/services/loanService'
+import * as applicantService from '../../src/services/applicantService'
+import { ValidationError } from '../../src/services/errors'
+import type { Applicant } from '../../src/types/applicant'
 
 /**
  * Mock loanService module to isolate component tests.
@@ -15,6 +18,33 @@ vi.mock('../../src/services/loanService', () => ({
   createLoanApplication: vi.fn()
 }))
 
+/**
+ * Mock applicantService so that new applicants get a known ID.
+ */
+vi.mock('../../src/services/applicantService', () => ({
+  EMPLOYMENT_STATUSES: ['employed', 'retired'],
+  deleteApplicant: vi.fn(),
+  createApplicant: vi.fn((input: { name: string }) => ({
+    id: 'applicant-1',
+    name: input.name.trim(),
+    createdAt: '2024-01-15T10:30:00.000Z'
+  }))
+}))
+
+const registered: Applicant = {
+  id: 'applicant-7',
+  name: 'Jane Smith',
+  nationalId: '855423/1234',
+  createdAt: '2024-01-10T10:30:00.000Z'
+}
+
+/**
+ * Mount the form with the given registered applicants
+ */
+function mountForm(applicants: Applicant[] = []) {
+  return mount(LoanForm, { props: { applicants } })
+}
+
 /**
  * Test suite for the LoanForm component.
  * Covers form rendering, validation, submission, and error scenarios.
@@ -34,7 +64,7 @@ describe('LoanForm', () => {
      * @test {LoanForm}
      */
     it('renders form with all required inputs', () => {
-      const wrapper = mount(LoanForm)
+      const wrapper = mountForm()
       
       expect(wrapper.find('h2').text()).toBe('New Loan Application')
       expect(wrapper.find('#applicantName').exists()).toBe(true)
@@ -49,7 +79,7 @@ describe('LoanForm', () => {
      * @test {LoanForm}
      */
     it('does not show error message initially', () => {
-      const wrapper = mount(LoanForm)
+      const wrapper = mountForm()
       
       expect(wrapper.find('.error-message').exists()).toBe(false)
     })
@@ -65,7 +95,7 @@ describe('LoanForm', () => {
      * @test {LoanForm}
      */
     it('shows error when applicant name is empty', async () => {
-      const wrapper = mount(LoanForm)
+      const wrapper = mountForm()
       
       await wrapper.find('form').trigger('submit')
       
@@ -77,7 +107,7 @@ describe('LoanForm', () => {
      * @test {LoanForm}
      */
     it('shows error when amount is empty or zero', async () => {
-      const wrapper = mount(LoanForm)
+      const wrapper = mountForm()
       
       await wrapper.find('#applicantName').setValue('John Doe')
       await wrapper.find('form').trigger('submit')
@@ -90,7 +120,7 @@ describe('LoanForm', () => {
      * @test {LoanForm}
      */
     it('shows error when termMonths is empty or zero', async () => {
-      const wrapper = mount(LoanForm)
+      const wrapper = mountForm()
       
       await wrapper.find('#applicantName').setValue('John Doe')
       await wrapper.find('#amount').setValue(10000)
@@ -104,7 +134,7 @@ describe('LoanForm', () => {
      * @test {LoanForm}
      */
     it('shows error when interest rate is negative', async () => {
-      const wrapper = mount(LoanForm)
+      const wrapper = mountForm()
       
       await wrapper.find('#applicantName').setValue('John Doe')
       await wrapper.find('#amount').setValue(10000)
@@ -126,20 +156,47 @@ describe('LoanForm', () => {
      * @test {LoanForm}
      */
     it('calls createLoanApplication with correct data', async () => {
-      const wrapper = mount(LoanForm)
+      const wrapper = mountForm()
       
       await wrapper.find('#applicantName').setValue('John Doe')
       await wrapper.find('#amount').setValue(50000)
       await wrapper.find('#termMonths').setValue(24)
       await wrapper.find('#interestRate').setValue(0.08)
+      await wrapper.find('#currency').setValue('EUR')
       await wrapper.find('form').trigger('submit')
       
       expect(loanService.createLoanApplication).toHaveBeenCalledWith({
         applicantName: 'John Doe',
+        applicantId: 'applicant-1',
         amount: 50000,
         termMonths: 24,
-        interestRate: 0.08
-      })
+        interestRate: 0.08,
+        currency: 'EUR'
+      }, 'submitted')
+    })
+
+    /**
+     * Verifies the draft button creates the loan as a draft.
+     * @test {LoanForm}
+     */
+    it('saves the application as a draft', async () => {
+      const wrapper = mountForm()
+
+      await wrapper.find('#applicantName').setValue('John Doe')
+      await wrapper.find('#amount').setValue(50000)
+      await wrapper.find('#termMonths').setValue(24)
+      await wrapper.find('#interestRate').setValue(0.08)
+      await wrapper.find('.draft-btn').trigger('click')
+
+      expect(loanService.createLoanApplication).toHaveBeenCalledWith({
+        applicantName: 'John Doe',
+        applicantId: 'applicant-1',
+        amount: 50000,
+        termMonths: 24,
+        interestRate: 0.08,
+        currency: 'USD'
+      }, 'draft')
+      expect(wrapper.emitted('created')).toBeTruthy()
     })
 
     /**
@@ -147,7 +204,7 @@ describe('LoanForm', () => {
      * @test {LoanForm}
      */
     it('emits created event after successful submission', async () => {
-      const wrapper = mount(LoanForm)
+      const wrapper = mountForm()
       
       await wrapper.find('#applicantName').setValue('John Doe')
       await wrapper.find('#amount').setValue(50000)
@@ -164,7 +221,7 @@ describe('LoanForm', () => {
      * @test {LoanForm}
      */
     it('resets form after successful submission', async () => {
-      const wrapper = mount(LoanForm)
+      const wrapper = mountForm()
       
       await wrapper.find('#applicantName').setValue('John Doe')
       await wrapper.find('#amount').setValue(50000)
@@ -185,7 +242,7 @@ describe('LoanForm', () => {
         throw new Error('Service error')
       })
       
-      const wrapper = mount(LoanForm)
+      const wrapper = mountForm()
       
       await wrapper.find('#applicantName').setValue('John Doe')
       await wrapper.find('#amount').setValue(50000)
@@ -205,7 +262,7 @@ describe('LoanForm', () => {
         throw 'String error'
       })
       
-      const wrapper = mount(LoanForm)
+      const wrapper = mountForm()
       
       await wrapper.find('#applicantName').setValue('John Doe')
       await wrapper.find('#amount').setValue(50000)
@@ -216,4 +273,270 @@ describe('LoanForm', () => {
       expect(wrapper.find('.error-message').text()).toBe('Failed to create loan application')
     })
   })
+
+  /**
+   * Tests for choosing or registering the applicant.
+   */
+  describe('applicant', () => {
+    /**
+     * Verifies a loan for a registered applicant is linked to it without registering anyone.
+     * @test {LoanForm}
+     */
+    it('links the loan to a registered applicant', async () => {
+      const wrapper = mountForm([registered])
+
+      await wrapper.find('#applicantId').setValue('applicant-7')
+      expect(wrapper.find('#applicantName').exists()).toBe(false)
+
+      await wrapper.find('#amount').setValue(50000)
+      await wrapper.find('#termMonths').setValue(24)
+      await wrapper.find('#interestRate').setValue(0.08)
+      await wrapper.find('form').trigger('submit')
+
+      expect(applicantService.createApplicant).not.toHaveBeenCalled()
+      expect(loanService.createLoanApplication).toHaveBeenCalledWith({
+        applicantName: 'Jane Smith',
+        applicantId: 'applicant-7',
+        amount: 50000,
+        termMonths: 24,
+        interestRate: 0.08,
+        currency: 'USD'
+      }, 'submitted')
+    })
+
+    /**
+     * Verifies the optional details are passed on when registering a new applicant.
+     * @test {LoanForm}
+     */
+    it('registers a new applicant with their details', async () => {
+      const wrapper = mountForm([registered])
+
+      await wrapper.find('#applicantName').setValue('John Doe')
+      await wrapper.find('#email').setValue('john@example.com')
+      await wrapper.find('#monthlyIncome').setValue(4200)
+      await wrapper.find('#employment').setValue('employed')
+      await wrapper.find('#amount').setValue(50000)
+      await wrapper.find('#termMonths').setValue(24)
+      await wrapper.find('#interestRate').setValue(0.08)
+      await wrapper.find('form').trigger('submit')
+
+      expect(applicantService.createApplicant).toHaveBeenCalledWith({
+        name: 'John Doe',
+        dateOfBirth: '',
+        email: 'john@example.com',
+        phone: '',
+        nationalId: '',
+        monthlyIncome: 4200,
+        employment: 'employed',
+        employer: ''
+      })
+      expect(loanService.createLoanApplication).toHaveBeenCalledWith(
+        expect.objectContaining({ applicantId: 'applicant-1' }),
+        'submitted'
+      )
+    })
+
+    /**
+     * Verifies the income on record is offered for a registered applicant and sent with the obligations.
+     * @test {LoanForm}
+     */
+    it('passes the income and obligations for the affordability check', async () => {
+      const wrapper = mountForm([{ ...registered, monthlyIncome: 5200 }])
+
+      await wrapper.find('#applicantId').setValue('applicant-7')
+      expect((wrapper.find('#monthlyIncome').element as HTMLInputElement).value).toBe('5200')
+
+      await wrapper.find('#monthlyObligations').setValue(300)
+      await wrapper.find('#amount').setValue(50000)
+      await wrapper.find('#termMonths').setValue(24)
+      await wrapper.find('#interestRate').setValue(0.08)
+      await wrapper.find('form').trigger('submit')
+
+      expect(loanService.createLoanApplication).toHaveBeenCalledWith(
+        expect.objectContaining({ monthlyIncome: 5200, monthlyObligations: 300 }),
+        'submitted'
+      )
+    })
+
+    /**
+     * Verifies no loan is created when the applicant cannot be registered.
+     * @test {LoanForm}
+     */
+    it('shows the error when the applicant cannot be registered', async () => {
+      vi.mocked(applicantService.createApplicant).mockImplementationOnce(() => {
+        throw new ValidationError({ code: 'emailInvalid' })
+      })
+      const wrapper = mountForm()
+
+      await wrapper.find('#applicantName').setValue('John Doe')
+      await wrapper.find('#email').setValue('john@')
+      await wrapper.find('#amount').setValue(50000)
+      await wrapper.find('#termMonths').setValue(24)
+      await wrapper.find('#interestRate').setValue(0.08)
+      await wrapper.find('form').trigger('submit')
+
+      expect(wrapper.find('.error-message').text()).toBe('Email address is not valid')
+      expect(loanService.createLoanApplication).not.toHaveBeenCalled()
+    })
+
+    /**
+     * Verifies a new applicant with a registered national ID is not filed under the existing record
+     * until the officer chooses to use it.
+     * @test {LoanForm}
+     */
+    it('offers the applicant registered with the same national ID', async () => {
+      const wrapper = mountForm([registered])
+
+      await wrapper.find('#applicantName').setValue('Jane S.')
+      await wrapper.find('#nationalId').setValue(' 855423/1234 ')
+      await wrapper.find('#amount').setValue(50000)
+      await wrapper.find('#termMonths').setValue(24)
+      await wrapper.find('#interestRate').setValue(0.08)
+      await wrapper.find('form').trigger('submit')
+
+      expect(wrapper.find('.error-message').text()).toContain(
+        'National ID 855423/1234 is already registered to Jane Smith.'
+      )
+      expect(applicantService.createApplicant).not.toHaveBeenCalled()
+      expect(loanService.createLoanApplication).not.toHaveBeenCalled()
+
+      await wrapper.find('.use-registered-btn').trigger('click')
+
+      expect(wrapper.find('.error-message').exists()).toBe(false)
+      expect((wrapper.find('#applicantId').element as HTMLSelectElement).value).toBe('applicant-7')
+
+      await wrapper.find('form').trigger('submit')
+
+      expect(applicantService.createApplicant).not.toHaveBeenCalled()
+      expect(loanService.createLoanApplication).toHaveBeenCalledWith(
+        expect.objectContaining({ applicantName: 'Jane Smith', applicantId: 'applicant-7' }),
+        'submitted'
+      )
+    })
+
+    /**
+     * Verifies a new applicant is removed again when their loan cannot be saved.
+     * @test {LoanForm}
+     */
+    it('removes the new applicant when the loan cannot be saved', async () => {
+      vi.mocked(loanService.createLoanApplication).mockImplementationOnce(() => {
+        throw new Error('Service error')
+      })
+      const wrapper = mountForm()
+
+      await wrapper.find('#applicantName').setValue('John Doe')
+      await wrapper.find('#amount').setValue(50000)
+      await wrapper.find('#termMonths').setValue(24)
+      await wrapper.find('#interestRate').setValue(0.08)
+      await wrapper.find('form').trigger('submit')
+
+      expect(wrapper.find('.error-message').text()).toBe('Service error')
+      expect(applicantService.deleteApplicant).toHaveBeenCalledWith('applicant-1')
+    })
+  })
+
+  /**
+   * Tests for the loan product picker.
+   */
+  describe('product', () => {
+    /**
+     * Verifies picking a product offers its terms and default rate and shows its limits.
+     * @test {LoanForm}
+     */
+    it('constrains the inputs to the product', async () => {
+      const wrapper = mountForm()
+
+      expect(wrapper.find('input#termMonths').exists()).toBe(true)
+      await wrapper.find('#productId').setValue('mortgage')
+
+      const terms = wrapper.findAll('select#termMonths option').map(option => option.text())
+      expect(terms).toEqual(['Select a term', '120 mo', '180 mo', '240 mo', '300 mo', '360 mo'])
+      expect((wrapper.find('#interestRate').element as HTMLInputElement).value).toBe('0.045')
+      expect(wrapper.find('#amount').attributes('max')).toBe('1000000')
+      expect(wrapper.find('.product-limits').text()).toBe('Amount $50,000 – $1,000,000, rate 3.0% – 8.0% p.a.')
+
+      await wrapper.find('#currency').setValue('CZK')
+      expect(wrapper.find('#amount').attributes('max')).toBe('25000000')
+      expect(wrapper.find('.product-limits').text()).toBe('Amount CZK\u00a01,000,000 – CZK\u00a025,000,000, rate 3.0% – 8.0% p.a.')
+    })
+
+    /**
+     * Verifies a loan within the limits is created with the product.
+     * @test {LoanForm}
+     */
+    it('passes the product to the service', async () => {
+      const wrapper = mountForm()
+
+      await wrapper.find('#applicantName').setValue('John Doe')
+      await wrapper.find('#productId').setValue('auto')
+      await wrapper.find('#amount').setValue(20000)
+      await wrapper.find('#termMonths').setValue(48)
+      await wrapper.find('form').trigger('submit')
+
+      expect(loanService.createLoanApplication).toHaveBeenCalledWith({
+        applicantName: 'John Doe',
+        applicantId: 'applicant-1',
+        productId: 'auto',
+        amount: 20000,
+        termMonths: 48,
+        interestRate: 0.065,
+        currency: 'USD'
+      }, 'submitted')
+    })
+
+    /**
+     * Verifies an amount outside the product's limits is refused before the applicant is registered.
+     * @test {LoanForm}
+     */
+    it('refuses an amount outside the product limits', async () => {
+      const wrapper = mountForm()
+
+      await wrapper.find('#applicantName').setValue('John Doe')
+      await wrapper.find('#productId').setValue('personal')
+      await wrapper.find('#amount').setValue(80000)
+      await wrapper.find('#termMonths').setValue(24)
+      await wrapper.find('form').trigger('submit')
+
+      expect(wrapper.find('.error-message').text()).toBe('Amount must be between 1000 and 50000 USD for this product')
+      expect(applicantService.createApplicant).not.toHaveBeenCalled()
+      expect(loanService.createLoanApplication).not.toHaveBeenCalled()
+    })
+  })
+
+  /**
+   * Tests for the live payment preview.
+   */
+  describe('payment preview', () => {
+    /**
+     * Verifies the installment is shown as soon as the terms are entered.
+     * @test {LoanForm}
+     */
+    it('shows the installment while typing', async () => {
+      const wrapper = mountForm()
+
+      expect(wrapper.find('.preview-hint').exists()).toBe(true)
+      await wrapper.find('#amount').setValue(10000)
+      await wrapper.find('#termMonths').setValue(12)
+      await wrapper.find('#interestRate').setValue(0.1)
+
+      expect(wrapper.find('.preview-installment').text()).toBe('$879.16')
+      expect(loanService.createLoanApplication).not.toHaveBeenCalled()
+    })
+
+    /**
+     * Verifies taking over an alternative fills in its amount and term.
+     * @test {LoanForm}
+     */
+    it('applies an alternative to the form', async () => {
+      const wrapper = mountForm()
+
+      await wrapper.find('#productId').setValue('personal')
+      await wrapper.find('#amount').setValue(20000)
+      await wrapper.find('#termMonths').setValue(24)
+      await wrapper.findAll('.apply-btn')[1]?.trigger('click')
+
+      expect((wrapper.find('#amount').element as HTMLInputElement).value).toBe('20000')
+      expect((wrapper.find('#termMonths').element as HTMLSelectElement).value).toBe('36')
+    })
+  })
 })
@@ -1,22 +1,36 @@
 /**
  * @fileoverview Unit tests for the LoanList component.
  * Tests table rendering, data formatting, status badges,
- * action buttons visibility, and event emission.
+ * action buttons visibility, event emission, and requesting
+ * one page of loans at a time.
  */
-import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { mount } from '@vue/test-utils'
+import type { VueWrapper } from '@vue/test-utils'
 import LoanList from '../../src/components/LoanList.vue'
-import type { LoanApplication } from '../../src/types/loan'
+import type { LoanApplication, LoanStatus } from '../../src/types/loan'
+import type { LoanQuery } from '../../src/types/loanQuery'
+import { parseLoanListQuery, queryLoanList, toLoanQuery } from '../../src/services/loanQuery'
 import * as loanService from '../../src/services/loanService'
+import { downloadTextFile } from '../../src/services/fileDownload'
 
 /**
- * Mock the calculateMonthlyPayment function to isolate component tests.
- * Uses the same formula as the actual implementation.
+ * Mock the calculateMonthlyPayment function to isolate component tests
+ * from the amortization math, and the loan reads used outside the shown page.
  */
 vi.mock('../../src/services/loanService', () => ({
   calculateMonthlyPayment: vi.fn((loan: LoanApplication) => {
     return (loan.amount * (1 + loan.interestRate)) / loan.termMonths
-  })
+  }),
+  getLoan: vi.fn(),
+  queryLoans: vi.fn(() => ({ loans: [], total: 0 }))
+}))
+
+/**
+ * Mock the file download so exports do not touch the DOM.
+ */
+vi.mock('../../src/services/fileDownload', () => ({
+  downloadTextFile: vi.fn()
 }))
 
 /**
@@ -37,13 +51,36 @@ describe('LoanList', () => {
     id: 'test-id',
     applicantName: 'John Doe',
     amount: 50000,
+    currency: 'USD',
     termMonths: 24,
     interestRate: 0.08,
-    status: 'pending',
+    status: 'submitted',
     createdAt: '2024-01-15T10:30:00.000Z',
+    revision: 1,
     ...overrides
   })
 
+  /**
+   * Mount the list over the given loans, answering its page requests as the app does.
+   * @param loans - All loans outside the trash
+   * @param options - Further mounting options
+   * @returns Mounted wrapper
+   */
+  const mountList = (loans: LoanApplication[], options: { global?: { stubs: Record<string, boolean> } } = {}) => {
+    // The first request is emitted while mounting, before the wrapper exists
+    const mounted: { wrapper?: VueWrapper } = {}
+    mounted.wrapper = mount(LoanList, {
+      props: {
+        // The first page is requested while mounting, for the view in the page URL
+        loanPage: queryLoanList(loans, toLoanQuery(parseLoanListQuery(window.location.search))),
+        loanCount: loans.length,
+        onQuery: (query: LoanQuery) => mounted.wrapper?.setProps({ loanPage: queryLoanList(loans, query) })
+      },
+      ...options
+    })
+    return mounted.wrapper
+  }
+
   /**
    * Tests for component rendering.
    * Verifies table structure, headers, and empty state.
@@ -54,9 +91,7 @@ describe('LoanList', () => {
      * @test {LoanList}
      */
     it('renders the component title', () => {
-      const wrapper = mount(LoanList, {
-        props: { loans: [] }
-      })
+      const wrapper = mountList([])
       
       expect(wrapper.find('h2').text()).toBe('Loan Applications')
     })
@@ -66,9 +101,7 @@ describe('LoanList', () => {
      * @test {LoanList}
      */
     it('shows empty state when no loans', () => {
-      const wrapper = mount(LoanList, {
-        props: { loans: [] }
-      })
+      const wrapper = mountList([])
       
       expect(wrapper.find('.empty-state').exists()).toBe(true)
       expect(wrapper.find('.empty-state').text()).toContain('No loan applications yet')
@@ -79,9 +112,7 @@ describe('LoanList', () => {
      * @test {LoanList}
      */
     it('does not show empty state when loans exist', () => {
-      const wrapper = mount(LoanList, {
-        props: { loans: [createMockLoan()] }
-      })
+      const wrapper = mountList([createMockLoan()])
       
       expect(wrapper.find('.empty-state').exists()).toBe(false)
     })
@@ -91,9 +122,7 @@ describe('LoanList', () => {
      * @test {LoanList}
      */
     it('renders table with correct headers', () => {
-      const wrapper = mount(LoanList, {
-        props: { loans: [createMockLoan()] }
-      })
+      const wrapper = mountList([createMockLoan()])
       
       const headers = wrapper.findAll('th')
       const headerTexts = headers.map(h => h.text())
@@ -114,16 +143,14 @@ describe('LoanList', () => {
      */
     it('renders loan data in table rows', () => {
       const loan = createMockLoan()
-      const wrapper = mount(LoanList, {
-        props: { loans: [loan] }
-      })
+      const wrapper = mountList([loan])
       
       const row = wrapper.find('tbody tr')
       expect(row.text()).toContain('John Doe')
       expect(row.text()).toContain('$50,000.00')
       expect(row.text()).toContain('24 mo')
       expect(row.text()).toContain('8.0%')
-      expect(row.text()).toContain('pending')
+      expect(row.text()).toContain('submitted')
     })
 
     /**
@@ -136,9 +163,7 @@ describe('LoanList', () => {
         createMockLoan({ id: '2', applicantName: 'Bob' }),
         createMockLoan({ id: '3', applicantName: 'Charlie' })
       ]
-      const wrapper = mount(LoanList, {
-        props: { loans }
-      })
+      const wrapper = mountList(loans)
       
       const rows = wrapper.findAll('tbody tr')
       expect(rows.length).toBe(3)
@@ -156,22 +181,29 @@ describe('LoanList', () => {
      */
     it('formats currency correctly', () => {
       const loan = createMockLoan({ amount: 123456.78 })
-      const wrapper = mount(LoanList, {
-        props: { loans: [loan] }
-      })
+      const wrapper = mountList([loan])
       
       expect(wrapper.text()).toContain('$123,456.78')
     })
 
+    /**
+     * Verifies amounts are shown in the loan's own currency.
+     * @test {LoanList}
+     */
+    it('formats amounts in the loan currency', () => {
+      const loan = createMockLoan({ amount: 1000, currency: 'EUR' })
+      const wrapper = mountList([loan])
+
+      expect(wrapper.text()).toContain('€1,000.00')
+    })
+
     /**
      * Verifies interest rate is formatted as percentage with % symbol.
      * @test {LoanList}
      */
     it('formats percentage correctly', () => {
       const loan = createMockLoan({ interestRate: 0.125 })
-      const wrapper = mount(LoanList, {
-        props: { loans: [loan] }
-      })
+      const wrapper = mountList([loan])
       
       expect(wrapper.text()).toContain('12.5%')
     })
@@ -182,9 +214,7 @@ describe('LoanList', () => {
      */
     it('formats date correctly', () => {
       const loan = createMockLoan({ createdAt: '2024-03-15T10:30:00.000Z' })
-      const wrapper = mount(LoanList, {
-        props: { loans: [loan] }
-      })
+      const wrapper = mountList([loan])
       
       // Date format should include Mar 15, 2024
       expect(wrapper.text()).toContain('Mar')
@@ -201,9 +231,7 @@ describe('LoanList', () => {
         createMockLoan({ id: '1' }),
         createMockLoan({ id: '2' })
       ]
-      mount(LoanList, {
-        props: { loans }
-      })
+      mountList(loans)
       
       expect(loanService.calculateMonthlyPayment).toHaveBeenCalledTimes(2)
     })
@@ -215,18 +243,16 @@ describe('LoanList', () => {
    */
   describe('status badges', () => {
     /**
-     * Verifies pending status badge has correct class and text.
+     * Verifies submitted status badge has correct class and text.
      * @test {LoanList}
      */
-    it('shows pending status badge', () => {
-      const loan = createMockLoan({ status: 'pending' })
-      const wrapper = mount(LoanList, {
-        props: { loans: [loan] }
-      })
+    it('shows submitted status badge', () => {
+      const loan = createMockLoan({ status: 'submitted' })
+      const wrapper = mountList([loan])
       
       const badge = wrapper.find('.status-badge')
-      expect(badge.classes()).toContain('status-pending')
-      expect(badge.text()).toBe('pending')
+      expect(badge.classes()).toContain('status-submitted')
+      expect(badge.text()).toBe('submitted')
     })
 
     /**
@@ -235,9 +261,7 @@ describe('LoanList', () => {
      */
     it('shows approved status badge', () => {
       const loan = createMockLoan({ status: 'approved' })
-      const wrapper = mount(LoanList, {
-        props: { loans: [loan] }
-      })
+      const wrapper = mountList([loan])
       
       const badge = wrapper.find('.status-badge')
       expect(badge.classes()).toContain('status-approved')
@@ -250,9 +274,7 @@ describe('LoanList', () => {
      */
     it('shows rejected status badge', () => {
       const loan = createMockLoan({ status: 'rejected' })
-      const wrapper = mount(LoanList, {
-        props: { loans: [loan] }
-      })
+      const wrapper = mountList([loan])
       
       const badge = wrapper.find('.status-badge')
       expect(badge.classes()).toContain('status-rejected')
@@ -260,6 +282,76 @@ describe('LoanList', () => {
     })
   })
 
+  /**
+   * Tests for the credit score column.
+   */
+  describe('credit score', () => {
+    /**
+     * Verifies the score and band are shown, and a dash for unscored loans.
+     * @test {LoanList}
+     */
+    it('shows the score with its band', () => {
+      const scored = createMockLoan({
+        id: '1',
+        creditScore: { score: 712, band: 'B', ruleSetVersion: 1, scoredAt: '2024-01-15T10:30:00.000Z', contributions: [] }
+      })
+      const wrapper = mountList([scored, createMockLoan({ id: '2' })])
+
+      expect(wrapper.findAll('th').map(h => h.text())).toContain('Score')
+      const badge = wrapper.find('.score-badge')
+      expect(badge.text()).toBe('712 (B)')
+      expect(badge.classes()).toContain('score-B')
+      expect(wrapper.findAll('tbody tr')[1]?.find('.not-scored').text()).toBe('—')
+    })
+  })
+
+  /**
+   * Tests for the balance and next installment columns.
+   */
+  describe('repayment', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(new Date('2024-04-20T12:00:00.000Z'))
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    /**
+     * Verifies disbursed loans show their balance, next installment and days overdue.
+     * @test {LoanList}
+     */
+    it('shows the balance and overdue installments of disbursed loans', () => {
+      const disbursed = createMockLoan({
+        id: '1',
+        amount: 1200,
+        termMonths: 12,
+        interestRate: 0,
+        status: 'disbursed',
+        disbursedAt: '2024-01-15T10:00:00.000Z',
+        payments: [{ id: 'p1', amount: 150, paidOn: '2024-02-15', recordedAt: '2024-02-15T12:00:00.000Z' }]
+      })
+      const wrapper = mountList([disbursed, createMockLoan({ id: '2' })])
+
+      const [first, second] = wrapper.findAll('tbody tr')
+      expect(first?.find('.balance').text()).toBe('$1,050.00')
+      expect(first?.find('.next-due').text()).toBe('Mar 15, 2024 36 days past due')
+      expect(second?.find('.balance').text()).toBe('—')
+      expect(second?.find('.overdue-badge').exists()).toBe(false)
+    })
+
+    /**
+     * Verifies repaid loans are never shown as overdue.
+     * @test {LoanList}
+     */
+    it('does not show repaid loans as overdue', () => {
+      const wrapper = mountList([createMockLoan({ status: 'repaid', disbursedAt: '2024-01-15T10:00:00.000Z' })])
+
+      expect(wrapper.find('.overdue-badge').exists()).toBe(false)
+    })
+  })
+
   /**
    * Tests for action buttons visibility.
    * Verifies buttons are shown/hidden based on loan status.
@@ -270,10 +362,8 @@ describe('LoanList', () => {
      * @test {LoanList}
      */
     it('shows all action buttons for pending loan', () => {
-      const loan = createMockLoan({ status: 'pending' })
-      const wrapper = mount(LoanList, {
-        props: { loans: [loan] }
-      })
+      const loan = createMockLoan({ status: 'submitted' })
+      const wrapper = mountList([loan])
       
       const actionButtons = wrapper.findAll('.action-btn')
       expect(actionButtons.length).toBeGreaterThan(0)
@@ -286,13 +376,11 @@ describe('LoanList', () => {
      * @test {LoanList}
      */
     it('shows delete button for all loan statuses', () => {
-      const statuses: Array<'pending' | 'approved' | 'rejected'> = ['pending', 'approved', 'rejected']
+      const statuses: LoanStatus[] = ['draft', 'submitted', 'under_review', 'approved', 'rejected', 'withdrawn', 'disbursed', 'repaid', 'defaulted']
       
       statuses.forEach(status => {
         const loan = createMockLoan({ status })
-        const wrapper = mount(LoanList, {
-          props: { loans: [loan] }
-        })
+        const wrapper = mountList([loan])
         
         const deleteButtons = wrapper.findAll('.action-btn').filter(btn => 
           btn.attributes('title') === 'Delete'
@@ -302,22 +390,36 @@ describe('LoanList', () => {
     })
 
     /**
-     * Verifies approve/reject/auto-decide buttons only show for pending loans.
+     * Verifies approve/reject/auto-decide buttons only show for loans awaiting a decision.
      * @test {LoanList}
      */
-    it('shows approve/reject/auto-decide buttons only for pending loans', () => {
-      const pendingLoan = createMockLoan({ status: 'pending' })
+    it('shows approve/reject/auto-decide buttons only for loans awaiting a decision', () => {
+      const submittedLoan = createMockLoan({ status: 'submitted' })
       const approvedLoan = createMockLoan({ status: 'approved' })
       
-      const pendingWrapper = mount(LoanList, {
-        props: { loans: [pendingLoan] }
-      })
-      const approvedWrapper = mount(LoanList, {
-        props: { loans: [approvedLoan] }
-      })
+      const submittedWrapper = mountList([submittedLoan])
+      const approvedWrapper = mountList([approvedLoan])
       
-      expect(pendingWrapper.find('.action-btn.success').exists()).toBe(true)
+      expect(submittedWrapper.find('.action-btn.success').exists()).toBe(true)
       expect(approvedWrapper.find('.action-btn.success').exists()).toBe(false)
+      expect(approvedWrapper.find('.action-btn.secondary').exists()).toBe(false)
+    })
+
+    /**
+     * Verifies only the lifecycle actions valid for the current status are shown.
+     * @test {LoanList}
+     */
+    it('shows only lifecycle actions valid for the current status', () => {
+      const titlesFor = (status: LoanStatus) => {
+        const wrapper = mountList([createMockLoan({ status })])
+        return wrapper.findAll('.action-btn').map(btn => btn.attributes('title'))
+      }
+
+      expect(titlesFor('draft')).toEqual(expect.arrayContaining(['Submit', 'Withdraw']))
+      expect(titlesFor('draft')).not.toContain('Approve')
+      expect(titlesFor('approved')).toEqual(expect.arrayContaining(['Disburse', 'Withdraw']))
+      expect(titlesFor('disbursed')).toEqual(expect.arrayContaining(['Mark repaid', 'Mark defaulted']))
+      expect(titlesFor('repaid')).toEqual(['Repayment schedule', 'Delete'])
     })
   })
 
@@ -332,9 +434,7 @@ describe('LoanList', () => {
      */
     it('emits approve event when approve button clicked', async () => {
       const loan = createMockLoan({ id: 'loan-123' })
-      const wrapper = mount(LoanList, {
-        props: { loans: [loan] }
-      })
+      const wrapper = mountList([loan])
       
       await wrapper.find('.action-btn.success').trigger('click')
       
@@ -348,9 +448,7 @@ describe('LoanList', () => {
      */
     it('emits reject event when reject button clicked', async () => {
       const loan = createMockLoan({ id: 'loan-456' })
-      const wrapper = mount(LoanList, {
-        props: { loans: [loan] }
-      })
+      const wrapper = mountList([loan])
       
       const dangerButtons = wrapper.findAll('.action-btn.danger')
       const rejectButton = dangerButtons.find(btn => btn.attributes('title') === 'Reject')
@@ -367,9 +465,7 @@ describe('LoanList', () => {
      */
     it('emits autoDecide event when auto-decide button clicked', async () => {
       const loan = createMockLoan({ id: 'loan-789' })
-      const wrapper = mount(LoanList, {
-        props: { loans: [loan] }
-      })
+      const wrapper = mountList([loan])
       
       await wrapper.find('.action-btn.secondary').trigger('click')
       
@@ -377,14 +473,133 @@ describe('LoanList', () => {
       expect(wrapper.emitted('autoDecide')?.[0]).toEqual(['loan-789'])
     })
 
+    /**
+     * Verifies 'transition' event is emitted with loan ID and target status.
+     * @test {LoanList}
+     */
+    it('emits transition event for lifecycle actions', async () => {
+      const loan = createMockLoan({ id: 'loan-approved', status: 'approved' })
+      const wrapper = mountList([loan])
+
+      const disburseButton = wrapper.findAll('.action-btn').find(btn =>
+        btn.attributes('title') === 'Disburse'
+      )
+      await disburseButton?.trigger('click')
+
+      expect(wrapper.emitted('transition')?.[0]).toEqual(['loan-approved', 'disbursed'])
+    })
+
+    /**
+     * Verifies clicking the applicant opens the loan detail view.
+     * @test {LoanList}
+     */
+    it('opens the loan detail view when applicant clicked', async () => {
+      const loan = createMockLoan({ applicantName: 'Detail User' })
+      const wrapper = mountList([loan], {
+        global: {
+          stubs: {
+            teleport: true
+          }
+        }
+      })
+
+      await wrapper.find('.applicant-link').trigger('click')
+
+      expect(wrapper.find('.loan-detail').exists()).toBe(true)
+      expect(wrapper.find('.audit-timeline').exists()).toBe(true)
+    })
+
+    /**
+     * Verifies the detail view stays open when its loan moves to another page.
+     * @test {LoanList}
+     */
+    it('keeps the detail of a loan that moved to another page', async () => {
+      const loan = createMockLoan({ applicantName: 'Detail User' })
+      vi.mocked(loanService.getLoan).mockReturnValue({ ...loan, amount: 90000 })
+      const wrapper = mountList([loan], {
+        global: {
+          stubs: {
+            teleport: true
+          }
+        }
+      })
+
+      await wrapper.find('.applicant-link').trigger('click')
+      await wrapper.setProps({ loanPage: { loans: [], total: 1 } })
+
+      expect(loanService.getLoan).toHaveBeenCalledWith(loan.id)
+      expect(wrapper.find('.loan-detail').exists()).toBe(true)
+      vi.mocked(loanService.getLoan).mockReset()
+    })
+
+    /**
+     * Verifies the repayment schedule modal opens for the clicked loan.
+     * @test {LoanList}
+     */
+    it('opens the repayment schedule when schedule button clicked', async () => {
+      const loan = createMockLoan({ amount: 12000, termMonths: 12, interestRate: 0 })
+      const wrapper = mountList([loan], {
+        global: {
+          stubs: {
+            teleport: true
+          }
+        }
+      })
+
+      const scheduleButton = wrapper.findAll('.action-btn').find(btn =>
+        btn.attributes('title') === 'Repayment schedule'
+      )
+      await scheduleButton?.trigger('click')
+
+      expect(wrapper.find('.amortization-schedule').exists()).toBe(true)
+      expect(wrapper.findAll('.amortization-schedule tbody tr')).toHaveLength(12)
+    })
+
+    /**
+     * Verifies the decision explanation is only offered for auto-decided loans and opens on click.
+     * @test {LoanList}
+     */
+    it('opens the decision explanation for auto-decided loans', async () => {
+      const decided = createMockLoan({
+        id: 'decided',
+        status: 'rejected',
+        decision: {
+          outcome: 'reject',
+          ruleSetVersion: 1,
+          ruleId: null,
+          ruleName: null,
+          decidedAt: '2024-01-16T10:30:00.000Z',
+          checks: [
+            { ruleId: 'standard-limits', ruleName: 'Standard limits', field: 'amount', operator: 'lte', threshold: 100000, actual: 150000, passed: false }
+          ]
+        }
+      })
+      const wrapper = mountList([decided, createMockLoan({ id: 'manual' })], {
+        global: {
+          stubs: {
+            teleport: true
+          }
+        }
+      })
+
+      const explainButtons = wrapper.findAll('.action-btn').filter(btn =>
+        btn.attributes('title') === 'Why this decision?'
+      )
+      expect(explainButtons).toHaveLength(1)
+
+      await explainButtons[0]?.trigger('click')
+
+      expect(wrapper.find('.decision-explanation').exists()).toBe(true)
+      expect(wrapper.find('.decision-explanation').text()).toContain('$150,000.00')
+    })
+
     /**
      * Verifies 'delete' event is emitted with loan ID when delete button clicked and confirmed.
      * @test {LoanList}
      */
     it('emits delete event when delete button clicked and confirmed', async () => {
       const loan = createMockLoan({ id: 'loan-delete', applicantName: 'Test User' })
-      const wrapper = mount(LoanList, {
-        props: { loans: [loan] },
+      const wrapper = mountList([loan], {
         global: {
           stubs: {
             teleport: true
@@ -399,7 +614,7 @@ describe('LoanList', () => {
       
       // Modal should be visible
       expect(wrapper.find('.modal-overlay').exists()).toBe(true)
-      expect(wrapper.text()).toContain('Are you sure you want to delete the loan application for Test User?')
+      expect(wrapper.text()).toContain('Move the loan application for Test User to the trash?')
       
       // Click the confirm button
       await wrapper.find('.btn-delete').trigger('click')
@@ -414,8 +629,7 @@ describe('LoanList', () => {
      */
     it('does not emit delete event when user cancels confirmation', async () => {
       const loan = createMockLoan({ id: 'loan-cancel' })
-      const wrapper = mount(LoanList, {
-        props: { loans: [loan] },
+      const wrapper = mountList([loan], {
         global: {
           stubs: {
             teleport: true
@@ -437,4 +651,287 @@ describe('LoanList', () => {
       expect(wrapper.emitted('delete')).toBeFalsy()
     })
   })
+
+  /**
+   * Tests for the printable loan offer.
+   */
+  describe('loan offer', () => {
+    /**
+     * Verifies the offer action is only offered for approved or disbursed loans.
+     * @test {LoanList}
+     */
+    it('shows the offer action only once approved', () => {
+      const wrapper = mountList([createMockLoan({ id: 'a', status: 'approved' }), createMockLoan({ id: 'b' })])
+
+      expect(wrapper.findAll('.offer-btn')).toHaveLength(1)
+    })
+
+    /**
+     * Verifies the offer opens and can be printed.
+     * @test {LoanList}
+     */
+    it('opens and prints the offer', async () => {
+      const print = vi.spyOn(window, 'print').mockImplementation(() => {})
+      const wrapper = mountList([createMockLoan({ status: 'approved' })], {
+        global: {
+          stubs: {
+            teleport: true
+          }
+        }
+      })
+
+      await wrapper.find('.offer-btn').trigger('click')
+      expect(wrapper.find('.loan-offer').exists()).toBe(true)
+
+      await wrapper.find('.print-btn').trigger('click')
+      expect(print).toHaveBeenCalled()
+      print.mockRestore()
+    })
+  })
+
+  /**
+   * Tests for searching, filtering and sorting the list.
+   */
+  describe('search, filter and sort', () => {
+    beforeEach(() => {
+      window.history.replaceState(null, '', '/')
+    })
+
+    afterEach(() => {
+      window.history.replaceState(null, '', '/')
+    })
+
+    const loans = [
+      createMockLoan({ id: 'a', applicantName: 'Zoe Smith', amount: 10000, termMonths: 12, status: 'approved' }),
+      createMockLoan({ id: 'b', applicantName: 'John Doe', amount: 30000, termMonths: 60 }),
+      createMockLoan({ id: 'c', applicantName: 'Anna Smith', amount: 20000, termMonths: 36 })
+    ]
+
+    /**
+     * Helper to read the applicant names in the order shown.
+     * @param wrapper - Mounted LoanList
+     * @returns Applicant names of the shown rows
+     */
+    const shownNames = (wrapper: ReturnType<typeof mount>) =>
+      wrapper.findAll('tbody .applicant-link').map(link => link.text())
+
+    /**
+     * Verifies the search and status filter narrow the list and can be cleared.
+     * @test {LoanList}
+     */
+    it('filters by applicant and status', async () => {
+      const wrapper = mountList(loans)
+
+      await wrapper.find('.search-input').setValue('smith')
+      expect(shownNames(wrapper)).toEqual(['Zoe Smith', 'Anna Smith'])
+      expect(wrapper.find('.result-count').text()).toBe('Showing 2 of 3 applications')
+
+      await wrapper.find('.status-filter').setValue('approved')
+      expect(shownNames(wrapper)).toEqual(['Zoe Smith'])
+
+      await wrapper.find('.clear-filters').trigger('click')
+      expect(shownNames(wrapper)).toHaveLength(3)
+      expect(wrapper.find('.result-count').exists()).toBe(false)
+    })
+
+    /**
+     * Verifies amount ranges include their bounds and a message is shown when nothing matches.
+     * @test {LoanList}
+     */
+    it('filters by amount range', async () => {
+      const wrapper = mountList(loans)
+
+      await wrapper.find('.amount-min').setValue(20000)
+      expect(shownNames(wrapper)).toEqual(['John Doe', 'Anna Smith'])
+
+      await wrapper.find('.amount-max').setValue(15000)
+      expect(wrapper.find('.no-matches').exists()).toBe(true)
+      expect(wrapper.find('.export-btn').attributes('disabled')).toBeDefined()
+    })
+
+    /**
+     * Verifies clicking a column header sorts by it and clicking again reverses the order.
+     * @test {LoanList}
+     */
+    it('sorts by a column header', async () => {
+      const wrapper = mountList(loans)
+      const header = () => wrapper.findAll('th').find(th => th.text().startsWith('Monthly Payment'))!
+
+      await header().find('.sort-btn').trigger('click')
+      expect(shownNames(wrapper)).toEqual(['John Doe', 'Anna Smith', 'Zoe Smith'])
+      expect(header().attributes('aria-sort')).toBe('ascending')
+
+      await header().find('.sort-btn').trigger('click')
+      expect(shownNames(wrapper)).toEqual(['Zoe Smith', 'Anna Smith', 'John Doe'])
+      expect(header().attributes('aria-sort')).toBe('descending')
+    })
+
+    /**
+     * Verifies the filter and sort order are kept in the URL and restored from it.
+     * @test {LoanList}
+     */
+    it('shares the view through the URL', async () => {
+      const wrapper = mountList(loans)
+
+      await wrapper.find('.search-input').setValue('smith')
+      await wrapper.findAll('.sort-btn')[0]?.trigger('click')
+      expect(window.location.search).toBe('?q=smith&sort=applicantName&dir=asc')
+
+      const reopened = mountList(loans)
+      expect((reopened.find('.search-input').element as HTMLInputElement).value).toBe('smith')
+      expect(shownNames(reopened)).toEqual(['Anna Smith', 'Zoe Smith'])
+    })
+  })
+
+  /**
+   * Tests for paging through long lists.
+   */
+  describe('pagination', () => {
+    beforeEach(() => {
+      window.history.replaceState(null, '', '/')
+    })
+
+    afterEach(() => {
+      window.history.replaceState(null, '', '/')
+    })
+
+    const loans = Array.from({ length: 60 }, (_, index) =>
+      createMockLoan({ id: `loan-${index}`, applicantName: `Applicant ${String(index + 1).padStart(2, '0')}` }))
+
+    /**
+     * Verifies short lists are shown whole without paging controls.
+     * @test {LoanList}
+     */
+    it('shows no paging for a short list', () => {
+      const wrapper = mountList(loans.slice(0, 25))
+
+      expect(wrapper.findAll('tbody tr')).toHaveLength(25)
+      expect(wrapper.find('.pagination').exists()).toBe(false)
+    })
+
+    /**
+     * Verifies only one page of rows is rendered and the buttons move between pages.
+     * @test {LoanList}
+     */
+    it('renders one page at a time', async () => {
+      const wrapper = mountList(loans)
+      const firstName = () => wrapper.find('tbody .applicant-link').text()
+
+      expect(wrapper.findAll('tbody tr')).toHaveLength(25)
+      expect(wrapper.find('.page-info').text()).toBe('Page 1 of 3')
+      expect(wrapper.find('.prev-page').attributes('disabled')).toBeDefined()
+
+      await wrapper.find('.next-page').trigger('click')
+      const requests = wrapper.emitted('query') ?? []
+      expect(requests[requests.length - 1]).toEqual([{ filter: {}, sort: undefined, offset: 25, limit: 25 }])
+      expect(firstName()).toBe('Applicant 26')
+      expect(wrapper.find('.page-range').text()).toBe('26–50 of 60')
+      expect(window.location.search).toBe('?page=2')
+
+      await wrapper.find('.last-page').trigger('click')
+      expect(wrapper.findAll('tbody tr')).toHaveLength(10)
+      expect(wrapper.find('.next-page').attributes('disabled')).toBeDefined()
+
+      await wrapper.find('.page-size').setValue('100')
+      expect(wrapper.findAll('tbody tr')).toHaveLength(60)
+      expect(wrapper.find('.page-info').text()).toBe('Page 1 of 1')
+      expect(window.location.search).toBe('?size=100')
+    })
+
+    /**
+     * Verifies the page is restored from the URL and a new filter starts from the first page.
+     * @test {LoanList}
+     */
+    it('opens the page from the URL and returns to the first page on a new filter', async () => {
+      window.history.replaceState(null, '', '/?page=3')
+      const wrapper = mountList(loans)
+
+      expect(wrapper.find('.page-info').text()).toBe('Page 3 of 3')
+
+      await wrapper.find('.search-input').setValue('applicant')
+      expect(wrapper.find('.page-info').text()).toBe('Page 1 of 3')
+      expect(window.location.search).toBe('?q=applicant')
+    })
+  })
+
+  /**
+   * Tests for the prepayment calculator.
+   */
+  describe('prepayment', () => {
+    /**
+     * Verifies the calculator is offered for open loans and opens for the chosen loan.
+     * @test {LoanList}
+     */
+    it('opens the prepayment calculator', async () => {
+      const wrapper = mountList([createMockLoan({ id: 'a', status: 'disbursed' }), createMockLoan({ id: 'b', status: 'repaid' })], {
+        global: {
+          stubs: {
+            teleport: true
+          }
+        }
+      })
+
+      expect(wrapper.findAll('.prepayment-btn')).toHaveLength(1)
+
+      await wrapper.find('.prepayment-btn').trigger('click')
+      expect(wrapper.find('.prepayment-calculator').exists()).toBe(true)
+    })
+  })
+
+  /**
+   * Tests for CSV export and import.
+   */
+  describe('csv', () => {
+    afterEach(() => {
+      window.history.replaceState(null, '', '/')
+    })
+
+    /**
+     * Verifies export is disabled without loans.
+     * @test {LoanList}
+     */
+    it('disables export for an empty list', () => {
+      const wrapper = mountList([])
+
+      expect(wrapper.find('.export-btn').attributes('disabled')).toBeDefined()
+    })
+
+    /**
+     * Verifies every loan matching the filter is loaded and downloaded as a CSV file.
+     * @test {LoanList}
+     */
+    it('downloads the shown loans as CSV', async () => {
+      const loan = createMockLoan({ id: 'loan-csv' })
+      vi.mocked(loanService.queryLoans).mockReturnValueOnce({ loans: [loan], total: 1 })
+      const wrapper = mountList([loan])
+
+      await wrapper.find('.search-input').setValue('john')
+      await wrapper.find('.export-btn').trigger('click')
+
+      expect(loanService.queryLoans).toHaveBeenCalledWith({ filter: { search: 'john' }, sort: undefined })
+      expect(downloadTextFile).toHaveBeenCalledWith(
+        expect.stringMatching(/^loans-\d{4}-\d{2}-\d{2}\.csv$/),
+        expect.stringContaining('loan-csv,John Doe,50000'),
+        'text/csv'
+      )
+    })
+
+    /**
+     * Verifies the import dialog opens from the list.
+     * @test {LoanList}
+     */
+    it('opens the import dialog', async () => {
+      const wrapper = mountList([], {
+        global: {
+          stubs: {
+            teleport: true
+          }
+        }
+      })
+
+      await wrapper.find('.import-open-btn').trigger('click')
+
+      expect(wrapper.find('#csvFile').exists()).toBe(true)
+    })
+  })
 })
\ No newline at end of file
@@ -0,0 +1,62 @@
+/**
+ * @fileoverview Unit tests for the LoanOffer component.
+ * Tests the printable offer document generated from a loan application.
+ */
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import LoanOffer from '../../src/components/LoanOffer.vue'
+import type { LoanApplication } from '../../src/types/loan'
+
+/**
+ * Test suite for the LoanOffer component.
+ */
+describe('LoanOffer', () => {
+  const loan: LoanApplication = {
+    id: 'abc123',
+    applicantName: 'Jane Doe',
+    amount: 12000,
+    currency: 'USD',
+    termMonths: 12,
+    interestRate: 0.06,
+    status: 'approved',
+    createdAt: '2024-03-05T10:00:00.000Z',
+    revision: 2
+  }
+
+  /**
+   * Verifies the applicant, reference, date and loan terms are shown.
+   * @test {LoanOffer}
+   */
+  it('shows the applicant and loan terms', () => {
+    const wrapper = mount(LoanOffer, { props: { loan } })
+
+    expect(wrapper.find('.offer-applicant').text()).toBe('Jane Doe')
+    expect(wrapper.find('.offer-reference').text()).toBe('ABC123')
+    expect(wrapper.find('.offer-created').text()).toBe('March 5, 2024')
+    expect(wrapper.find('.offer-amount').text()).toBe('$12,000.00')
+    expect(wrapper.find('.offer-term').text()).toBe('12 months')
+    expect(wrapper.find('.offer-rate').text()).toBe('6.00% p.a.')
+  })
+
+  /**
+   * Verifies the installment, totals and full schedule are included.
+   * @test {LoanOffer}
+   */
+  it('includes the repayment schedule', () => {
+    const wrapper = mount(LoanOffer, { props: { loan } })
+
+    expect(wrapper.find('.schedule-totals').text()).toContain('Monthly Installment$1,032.80')
+    expect(wrapper.find('.schedule-totals').text()).toContain('Total Repayable$12,393.')
+    expect(wrapper.findAll('tbody tr')).toHaveLength(12)
+  })
+
+  /**
+   * Verifies the document is marked for printing.
+   * @test {LoanOffer}
+   */
+  it('is marked as printable', () => {
+    const wrapper = mount(LoanOffer, { props: { loan } })
+
+    expect(wrapper.classes()).toContain('printable')
+  })
+})
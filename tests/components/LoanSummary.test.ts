@@ -1,11 +1,12 @@
 /**
  * @fileoverview Unit tests for the LoanSummary component.
- * Tests statistics calculation, currency formatting, CSS styling,
- * and reactivity when loan data changes.
+ * Tests statistics of the given loans, currency formatting, CSS styling,
+ * and reactivity when the stats change.
  */
 import { describe, it, expect } from 'vitest'
 import { mount } from '@vue/test-utils'
 import LoanSummary from '../../src/components/LoanSummary.vue'
+import { summarizeLoans } from '../../src/services/loanQuery'
 import type { LoanApplication } from '../../src/types/loan'
 
 /**
@@ -22,10 +23,12 @@ describe('LoanSummary', () => {
     id: 'test-id',
     applicantName: 'John Doe',
     amount: 50000,
+    currency: 'USD',
     termMonths: 24,
     interestRate: 0.08,
-    status: 'pending',
+    status: 'submitted',
     createdAt: '2024-01-15T10:30:00.000Z',
+    revision: 1,
     ...overrides
   })
 
@@ -58,7 +61,7 @@ describe('LoanSummary', () => {
      */
     it('renders all stat cards', () => {
       const wrapper = mount(LoanSummary, {
-        props: { loans: [] }
+        props: { stats: summarizeLoans([]) }
       })
       
       const statCards = wrapper.findAll('.stat-card')
@@ -71,7 +74,7 @@ describe('LoanSummary', () => {
      */
     it('renders stat labels correctly', () => {
       const wrapper = mount(LoanSummary, {
-        props: { loans: [] }
+        props: { stats: summarizeLoans([]) }
       })
       
       const labels = wrapper.findAll('.stat-label')
@@ -96,7 +99,7 @@ describe('LoanSummary', () => {
      */
     it('shows zero values when no loans', () => {
       const wrapper = mount(LoanSummary, {
-        props: { loans: [] }
+        props: { stats: summarizeLoans([]) }
       })
       
       const values = getStatValues(wrapper)
@@ -118,7 +121,7 @@ describe('LoanSummary', () => {
         createMockLoan({ id: '3' })
       ]
       const wrapper = mount(LoanSummary, {
-        props: { loans }
+        props: { stats: summarizeLoans(loans) }
       })
       
       const values = getStatValues(wrapper)
@@ -126,17 +129,18 @@ describe('LoanSummary', () => {
     })
 
     /**
-     * Verifies pending loans are counted correctly.
+     * Verifies pending loans (submitted or under review) are counted correctly.
      * @test {LoanSummary}
      */
     it('correctly counts pending loans', () => {
       const loans = [
-        createMockLoan({ id: '1', status: 'pending' }),
-        createMockLoan({ id: '2', status: 'pending' }),
-        createMockLoan({ id: '3', status: 'approved' })
+        createMockLoan({ id: '1', status: 'submitted' }),
+        createMockLoan({ id: '2', status: 'under_review' }),
+        createMockLoan({ id: '3', status: 'approved' }),
+        createMockLoan({ id: '4', status: 'draft' })
       ]
       const wrapper = mount(LoanSummary, {
-        props: { loans }
+        props: { stats: summarizeLoans(loans) }
       })
       
       const values = getStatValues(wrapper)
@@ -154,7 +158,7 @@ describe('LoanSummary', () => {
         createMockLoan({ id: '3', status: 'rejected' })
       ]
       const wrapper = mount(LoanSummary, {
-        props: { loans }
+        props: { stats: summarizeLoans(loans) }
       })
       
       const values = getStatValues(wrapper)
@@ -170,10 +174,10 @@ describe('LoanSummary', () => {
         createMockLoan({ id: '1', status: 'rejected' }),
         createMockLoan({ id: '2', status: 'rejected' }),
         createMockLoan({ id: '3', status: 'rejected' }),
-        createMockLoan({ id: '4', status: 'pending' })
+        createMockLoan({ id: '4', status: 'submitted' })
       ]
       const wrapper = mount(LoanSummary, {
-        props: { loans }
+        props: { stats: summarizeLoans(loans) }
       })
       
       const values = getStatValues(wrapper)
@@ -190,30 +194,49 @@ describe('LoanSummary', () => {
         createMockLoan({ id: '1', status: 'approved', amount: 25000 }),
         createMockLoan({ id: '2', status: 'approved', amount: 50000 }),
         createMockLoan({ id: '3', status: 'rejected', amount: 100000 }), // Should not be counted
-        createMockLoan({ id: '4', status: 'pending', amount: 30000 }) // Should not be counted
+        createMockLoan({ id: '4', status: 'submitted', amount: 30000 }) // Should not be counted
       ]
       const wrapper = mount(LoanSummary, {
-        props: { loans }
+        props: { stats: summarizeLoans(loans) }
       })
       
       const values = getStatValues(wrapper)
       expect(values[4]).toBe('$75,000')
     })
 
+    /**
+     * Verifies loans approved and later disbursed or repaid still count as approved.
+     * @test {LoanSummary}
+     */
+    it('counts disbursed and repaid loans as approved', () => {
+      const loans = [
+        createMockLoan({ id: '1', status: 'disbursed', amount: 10000 }),
+        createMockLoan({ id: '2', status: 'repaid', amount: 5000 }),
+        createMockLoan({ id: '3', status: 'withdrawn', amount: 7000 })
+      ]
+      const wrapper = mount(LoanSummary, {
+        props: { stats: summarizeLoans(loans) }
+      })
+
+      const values = getStatValues(wrapper)
+      expect(values[2]).toBe('2')
+      expect(values[4]).toBe('$15,000')
+    })
+
     /**
      * Verifies all statistics are calculated correctly with mixed statuses.
      * @test {LoanSummary}
      */
     it('handles mixed statuses correctly', () => {
       const loans = [
-        createMockLoan({ id: '1', status: 'pending' }),
+        createMockLoan({ id: '1', status: 'submitted' }),
         createMockLoan({ id: '2', status: 'approved', amount: 10000 }),
         createMockLoan({ id: '3', status: 'rejected' }),
         createMockLoan({ id: '4', status: 'approved', amount: 20000 }),
-        createMockLoan({ id: '5', status: 'pending' })
+        createMockLoan({ id: '5', status: 'submitted' })
       ]
       const wrapper = mount(LoanSummary, {
-        props: { loans }
+        props: { stats: summarizeLoans(loans) }
       })
       
       const values = getStatValues(wrapper)
@@ -223,6 +246,24 @@ describe('LoanSummary', () => {
       expect(values[3]).toBe('1') // Rejected
       expect(values[4]).toBe('$30,000') // Total Approved Amount
     })
+
+    /**
+     * Verifies approved amounts in different currencies are totalled separately.
+     * @test {LoanSummary}
+     */
+    it('shows a total per currency', () => {
+      const loans = [
+        createMockLoan({ id: '1', status: 'approved', amount: 10000, currency: 'EUR' }),
+        createMockLoan({ id: '2', status: 'approved', amount: 250000, currency: 'CZK' }),
+        createMockLoan({ id: '3', status: 'approved', amount: 5000, currency: 'EUR' })
+      ]
+      const wrapper = mount(LoanSummary, {
+        props: { stats: summarizeLoans(loans) }
+      })
+
+      const totals = wrapper.findAll('.stat-card.amount .stat-value').map(v => v.text())
+      expect(totals).toEqual(['CZK\u00a0250,000', '€15,000'])
+    })
   })
 
   /**
@@ -239,7 +280,7 @@ describe('LoanSummary', () => {
         createMockLoan({ id: '1', status: 'approved', amount: 1234567 })
       ]
       const wrapper = mount(LoanSummary, {
-        props: { loans }
+        props: { stats: summarizeLoans(loans) }
       })
       
       const values = getStatValues(wrapper)
@@ -252,10 +293,10 @@ describe('LoanSummary', () => {
      */
     it('formats zero amount correctly', () => {
       const loans = [
-        createMockLoan({ id: '1', status: 'pending' }) // No approved loans
+        createMockLoan({ id: '1', status: 'submitted' }) // No approved loans
       ]
       const wrapper = mount(LoanSummary, {
-        props: { loans }
+        props: { stats: summarizeLoans(loans) }
       })
       
       const values = getStatValues(wrapper)
@@ -274,7 +315,7 @@ describe('LoanSummary', () => {
      */
     it('applies correct CSS class to pending card', () => {
       const wrapper = mount(LoanSummary, {
-        props: { loans: [] }
+        props: { stats: summarizeLoans([]) }
       })
       
       const cards = getStatCards(wrapper)
@@ -287,7 +328,7 @@ describe('LoanSummary', () => {
      */
     it('applies correct CSS class to approved card', () => {
       const wrapper = mount(LoanSummary, {
-        props: { loans: [] }
+        props: { stats: summarizeLoans([]) }
       })
       
       const cards = getStatCards(wrapper)
@@ -300,7 +341,7 @@ describe('LoanSummary', () => {
      */
     it('applies correct CSS class to rejected card', () => {
       const wrapper = mount(LoanSummary, {
-        props: { loans: [] }
+        props: { stats: summarizeLoans([]) }
       })
       
       const cards = getStatCards(wrapper)
@@ -313,7 +354,7 @@ describe('LoanSummary', () => {
      */
     it('applies correct CSS class to amount card', () => {
       const wrapper = mount(LoanSummary, {
-        props: { loans: [] }
+        props: { stats: summarizeLoans([]) }
       })
       
       const cards = getStatCards(wrapper)
@@ -327,12 +368,12 @@ describe('LoanSummary', () => {
    */
   describe('reactivity', () => {
     /**
-     * Verifies component re-renders when loans prop is updated.
+     * Verifies component re-renders when stats prop is updated.
      * @test {LoanSummary}
      */
-    it('updates when loans prop changes', async () => {
+    it('updates when stats prop changes', async () => {
       const wrapper = mount(LoanSummary, {
-        props: { loans: [] }
+        props: { stats: summarizeLoans([]) }
       })
       
       let values = getStatValues(wrapper)
@@ -340,7 +381,7 @@ describe('LoanSummary', () => {
       
       // Update props with new loans
       await wrapper.setProps({
-        loans: [createMockLoan({ id: '1' })]
+        stats: summarizeLoans([createMockLoan({ id: '1' })])
       })
       
       values = getStatValues(wrapper)
@@ -0,0 +1,60 @@
+/**
+ * @fileoverview Unit tests for the PaymentPreview component.
+ * Tests the live installment and totals and the what-if alternatives.
+ */
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import PaymentPreview from '../../src/components/PaymentPreview.vue'
+
+/**
+ * Test suite for the PaymentPreview component.
+ */
+describe('PaymentPreview', () => {
+  /**
+   * Verifies nothing is calculated until the terms are complete.
+   * @test {PaymentPreview}
+   */
+  it('waits for complete terms', () => {
+    const wrapper = mount(PaymentPreview, {
+      props: { amount: 10000, termMonths: null, interestRate: 0.1, currency: 'USD' }
+    })
+
+    expect(wrapper.find('.preview-hint').exists()).toBe(true)
+    expect(wrapper.find('.preview-totals').exists()).toBe(false)
+  })
+
+  /**
+   * Verifies the installment and totals follow the entered terms.
+   * @test {PaymentPreview}
+   */
+  it('shows the installment and totals', async () => {
+    const wrapper = mount(PaymentPreview, {
+      props: { amount: 10000, termMonths: 12, interestRate: 0.1, currency: 'USD' }
+    })
+
+    expect(wrapper.find('.preview-installment').text()).toBe('$879.16')
+    expect(wrapper.find('.preview-repayable').text()).toBe('$10,549.89')
+    expect(wrapper.find('.preview-interest').text()).toBe('$549.89')
+
+    await wrapper.setProps({ termMonths: 24 })
+    expect(wrapper.find('.preview-installment').text()).toBe('$461.45')
+  })
+
+  /**
+   * Verifies alternatives are listed next to the current terms and can be taken over.
+   * @test {PaymentPreview}
+   */
+  it('compares alternatives and applies one', async () => {
+    const wrapper = mount(PaymentPreview, {
+      props: { amount: 10000, termMonths: 24, interestRate: 0.1, currency: 'USD' }
+    })
+
+    const rows = wrapper.findAll('.what-if tbody tr')
+    expect(rows).toHaveLength(5)
+    expect(rows[0]?.classes()).toContain('current-quote')
+    expect(rows[1]?.text()).toContain('$879.16')
+
+    await wrapper.findAll('.apply-btn')[1]?.trigger('click')
+    expect(wrapper.emitted('apply')).toEqual([[10000, 36]])
+  })
+})
@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Unit tests for the PrepaymentCalculator component.
+ * Tests the comparison of prepayment strategies and the revised schedule.
+ */
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import PrepaymentCalculator from '../../src/components/PrepaymentCalculator.vue'
+import type { LoanApplication } from '../../src/types/loan'
+
+/**
+ * Test suite for the PrepaymentCalculator component.
+ */
+describe('PrepaymentCalculator', () => {
+  const loan: LoanApplication = {
+    id: 'loan-1',
+    applicantName: 'John Doe',
+    amount: 10000,
+    currency: 'USD',
+    termMonths: 12,
+    interestRate: 0.1,
+    status: 'approved',
+    createdAt: '2024-01-15T10:30:00.000Z',
+    revision: 1
+  }
+
+  /**
+   * Verifies nothing is compared until an extra payment is entered.
+   * @test {PrepaymentCalculator}
+   */
+  it('asks for an extra payment', () => {
+    const wrapper = mount(PrepaymentCalculator, { props: { loan } })
+
+    expect(wrapper.find('.prepayment-hint').exists()).toBe(true)
+    expect(wrapper.find('.prepayment-comparison').exists()).toBe(false)
+  })
+
+  /**
+   * Verifies both strategies are shown next to the original schedule with the interest saved.
+   * @test {PrepaymentCalculator}
+   */
+  it('compares shortening the term with reducing the installment', async () => {
+    const wrapper = mount(PrepaymentCalculator, { props: { loan } })
+
+    await wrapper.find('.prepayment-amount').setValue(2000)
+    await wrapper.find('.prepayment-start').setValue(3)
+
+    const cells = (row: string) => wrapper.findAll(`.${row} td`).map(cell => cell.text())
+    expect(cells('installment-row')).toEqual(['$879.16', '$879.16', '$647.57'])
+    expect(cells('term-row')).toEqual(['12 mo', '10 mo', '12 mo'])
+    expect(cells('saved-row')).toEqual(['—', '$141.36', '$84.25'])
+  })
+
+  /**
+   * Verifies the revised schedule follows the chosen strategy.
+   * @test {PrepaymentCalculator}
+   */
+  it('shows the revised schedule of the chosen strategy', async () => {
+    const wrapper = mount(PrepaymentCalculator, { props: { loan } })
+
+    await wrapper.find('.prepayment-amount').setValue(2000)
+    await wrapper.find('.prepayment-start').setValue(3)
+    expect(wrapper.findAll('.prepayment-schedule tbody tr')).toHaveLength(10)
+
+    await wrapper.find('.schedule-strategy').setValue('reduce_installment')
+    const rows = wrapper.findAll('.prepayment-schedule tbody tr')
+    expect(rows).toHaveLength(12)
+    expect(rows[2]?.text()).toContain('$2,000.00')
+  })
+
+  /**
+   * Verifies the first prepayment defaults to the next installment due on a disbursed loan.
+   * @test {PrepaymentCalculator}
+   */
+  it('starts with the next installment due', () => {
+    const disbursed: LoanApplication = {
+      ...loan,
+      interestRate: 0,
+      amount: 1200,
+      status: 'disbursed',
+      disbursedAt: '2024-01-15T10:00:00.000Z',
+      payments: [{ id: 'p1', amount: 200, paidOn: '2024-03-15', recordedAt: '2024-03-15T12:00:00.000Z' }]
+    }
+    const wrapper = mount(PrepaymentCalculator, { props: { loan: disbursed } })
+
+    expect((wrapper.find('.prepayment-start').element as HTMLInputElement).value).toBe('3')
+  })
+})
@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Unit tests for the QuarantineBanner component.
+ * Tests the recovery notice, inspecting quarantined records and
+ * discard events.
+ */
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import QuarantineBanner from '../../src/components/QuarantineBanner.vue'
+import type { QuarantinedLoan } from '../../src/types/loan'
+
+/**
+ * Test suite for the QuarantineBanner component.
+ */
+describe('QuarantineBanner', () => {
+  const entries: QuarantinedLoan[] = [
+    { id: 'q1', quarantinedAt: '2024-01-15T10:30:00.000Z', reason: 'Invalid fields: amount', record: { id: 'loan-1', amount: 'lots' } },
+    { id: 'q2', quarantinedAt: '2024-01-15T10:30:00.000Z', reason: 'Unexpected token', record: '{broken' }
+  ]
+
+  /**
+   * Verifies nothing is rendered when no records are quarantined.
+   * @test {QuarantineBanner}
+   */
+  it('is hidden without quarantined records', () => {
+    const wrapper = mount(QuarantineBanner, { props: { entries: [] } })
+
+    expect(wrapper.find('.quarantine-banner').exists()).toBe(false)
+  })
+
+  /**
+   * Verifies the banner tells the user how many records were set aside.
+   * @test {QuarantineBanner}
+   */
+  it('shows the number of quarantined records', () => {
+    const wrapper = mount(QuarantineBanner, { props: { entries } })
+
+    expect(wrapper.find('.quarantine-banner').text()).toContain('2 stored records could not be read')
+    expect(wrapper.find('.quarantine-entries').exists()).toBe(false)
+  })
+
+  /**
+   * Verifies inspecting lists each record with its reason.
+   * @test {QuarantineBanner}
+   */
+  it('lists the records when inspected', async () => {
+    const wrapper = mount(QuarantineBanner, { props: { entries } })
+
+    await wrapper.find('.inspect-btn').trigger('click')
+
+    const items = wrapper.findAll('.quarantine-entry')
+    expect(items).toHaveLength(2)
+    expect(items[0]?.text()).toContain('Invalid fields: amount')
+    expect(items[0]?.find('pre').text()).toContain('"amount": "lots"')
+    expect(items[1]?.find('pre').text()).toBe('{broken')
+  })
+
+  /**
+   * Verifies discard buttons emit the matching events.
+   * @test {QuarantineBanner}
+   */
+  it('emits discard events', async () => {
+    const wrapper = mount(QuarantineBanner, { props: { entries } })
+
+    await wrapper.find('.inspect-btn').trigger('click')
+    await wrapper.findAll('.discard-btn')[1]?.trigger('click')
+    await wrapper.find('.discard-all-btn').trigger('click')
+
+    expect(wrapper.emitted('discard')).toEqual([['q2']])
+    expect(wrapper.emitted('discardAll')).toHaveLength(1)
+  })
+})
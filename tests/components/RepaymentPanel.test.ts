@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Unit tests for the RepaymentPanel component.
+ * Tests the outstanding balance, overdue installments and recording payments.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mount } from '@vue/test-utils'
+import RepaymentPanel from '../../src/components/RepaymentPanel.vue'
+import { getLoans, saveLoans } from '../../src/services/loanService'
+import type { LoanApplication } from '../../src/types/loan'
+
+/**
+ * Test suite for the RepaymentPanel component.
+ */
+describe('RepaymentPanel', () => {
+  const loan: LoanApplication = {
+    id: 'loan-1',
+    applicantName: 'John Doe',
+    amount: 1200,
+    currency: 'USD',
+    termMonths: 12,
+    interestRate: 0,
+    status: 'disbursed',
+    createdAt: '2024-01-02T09:00:00.000Z',
+    disbursedAt: '2024-01-15T10:00:00.000Z',
+    payments: [{ id: 'p1', amount: 150, paidOn: '2024-02-15', recordedAt: '2024-02-15T12:00:00.000Z' }],
+    revision: 2
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2024-04-20T12:00:00.000Z'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  /**
+   * Verifies the balance, next installment and overdue amount are shown.
+   * @test {RepaymentPanel}
+   */
+  it('shows the outstanding balance and overdue installments', () => {
+    const wrapper = mount(RepaymentPanel, { props: { loan } })
+
+    expect(wrapper.find('.paid-total').text()).toBe('$150.00')
+    expect(wrapper.find('.outstanding-principal').text()).toBe('$1,050.00')
+    expect(wrapper.find('.next-due').text()).toBe('$50.00 on Mar 15, 2024')
+    expect(wrapper.find('.overdue').text()).toBe('$150.00 · 36 days past due')
+    expect(wrapper.findAll('.payment-list li')).toHaveLength(1)
+  })
+
+  /**
+   * Verifies a payment of the next installment is recorded when no amount is entered.
+   * @test {RepaymentPanel}
+   */
+  it('records a payment', async () => {
+    saveLoans([loan])
+    const wrapper = mount(RepaymentPanel, { props: { loan } })
+
+    await wrapper.find('.payment-form').trigger('submit')
+
+    expect(getLoans()[0]?.payments?.[1]).toMatchObject({ amount: 50, paidOn: '2024-04-20' })
+    expect(wrapper.emitted('recorded')).toHaveLength(1)
+  })
+
+  /**
+   * Verifies refused payments show the reason and are not recorded.
+   * @test {RepaymentPanel}
+   */
+  it('shows why a payment was refused', async () => {
+    saveLoans([loan])
+    const wrapper = mount(RepaymentPanel, { props: { loan } })
+
+    await wrapper.find('.payment-amount').setValue(5000)
+    await wrapper.find('.payment-form').trigger('submit')
+
+    expect(wrapper.find('.error-message').text()).toBe('Payment cannot exceed the outstanding balance of 1050')
+    expect(wrapper.emitted('recorded')).toBeUndefined()
+  })
+
+  /**
+   * Verifies repaid loans show no payment form.
+   * @test {RepaymentPanel}
+   */
+  it('hides the payment form on a repaid loan', () => {
+    const wrapper = mount(RepaymentPanel, {
+      props: { loan: { ...loan, status: 'repaid', payments: [] } }
+    })
+
+    expect(wrapper.find('.no-payments').exists()).toBe(true)
+    expect(wrapper.find('.payment-form').exists()).toBe(false)
+    expect(wrapper.find('.overdue').exists()).toBe(false)
+  })
+})
@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Unit tests for the RuleSettings component.
+ * Tests rendering of the current rule set, editing rules and conditions,
+ * and saving a new rule set version.
+ */
+import { describe, it, expect, beforeEach } from 'vitest'
+import { mount } from '@vue/test-utils'
+import RuleSettings from '../../src/components/RuleSettings.vue'
+import { getRuleSet } from '../../src/services/ruleService'
+
+/**
+ * Test suite for the RuleSettings component.
+ */
+describe('RuleSettings', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  /**
+   * Verifies the default rule set is shown with its version.
+   * @test {RuleSettings}
+   */
+  it('renders the current rule set', () => {
+    const wrapper = mount(RuleSettings)
+
+    expect(wrapper.find('.version-info').text()).toContain('v3')
+    expect(wrapper.findAll('.rule-card')).toHaveLength(2)
+    expect(wrapper.findAll('.condition-row')).toHaveLength(3)
+  })
+
+  /**
+   * Verifies adding a rule and a condition renders new rows.
+   * @test {RuleSettings}
+   */
+  it('adds rules and conditions', async () => {
+    const wrapper = mount(RuleSettings)
+
+    const addButtons = wrapper.findAll('.link-btn')
+    await addButtons.find(b => b.text() === '+ Add rule')?.trigger('click')
+    await wrapper.findAll('.link-btn').find(b => b.text() === '+ Add condition')?.trigger('click')
+
+    expect(wrapper.findAll('.rule-card')).toHaveLength(3)
+    expect(wrapper.findAll('.condition-row')).toHaveLength(5)
+  })
+
+  /**
+   * Verifies saving stores a new rule set version.
+   * @test {RuleSettings}
+   */
+  it('saves the edited rules as a new version', async () => {
+    const wrapper = mount(RuleSettings)
+
+    // The first row is the credit score cut-off, the second the amount limit
+    await wrapper.findAll('.condition-row')[1]?.find('input').setValue(50000)
+    await wrapper.find('.save-btn').trigger('click')
+
+    expect(wrapper.find('.success-message').text()).toBe('Saved as version 4')
+    expect(getRuleSet().version).toBe(4)
+    expect(getRuleSet().rules[1]?.conditions[0]?.value).toBe(50000)
+  })
+
+  /**
+   * Verifies the debt-to-income limit can be changed or switched off.
+   * @test {RuleSettings}
+   */
+  it('saves the debt-to-income limit', async () => {
+    const wrapper = mount(RuleSettings)
+
+    await wrapper.find('.max-dti').setValue(0.35)
+    await wrapper.find('.dti-outcome').setValue('reject')
+    await wrapper.find('.save-btn').trigger('click')
+
+    expect(getRuleSet().affordability).toEqual({ maxDti: 0.35, outcome: 'reject' })
+
+    await wrapper.find('.limit-dti').setValue(false)
+    expect(wrapper.find('.max-dti').exists()).toBe(false)
+    await wrapper.find('.save-btn').trigger('click')
+
+    expect(getRuleSet().affordability).toBeUndefined()
+  })
+
+  /**
+   * Verifies the scorecard points and band cut-offs can be edited.
+   * @test {RuleSettings}
+   */
+  it('saves the scorecard', async () => {
+    const wrapper = mount(RuleSettings)
+
+    expect(wrapper.findAll('.scorecard-attribute')).toHaveLength(6)
+    expect(wrapper.find('.bin-row span').text()).toBe('Below 25')
+    expect(wrapper.find('.lowest-band').text()).toBe('Band E: any lower score')
+
+    await wrapper.find('.base-score').setValue(450)
+    await wrapper.find('.bin-points').setValue(5)
+    await wrapper.find('.band-min').setValue(700)
+    await wrapper.find('.save-btn').trigger('click')
+
+    const scorecard = getRuleSet().scorecard
+    expect(scorecard?.baseScore).toBe(450)
+    expect(scorecard?.attributes[0]?.bins[0]?.points).toBe(5)
+    expect(scorecard?.bands[0]).toEqual({ band: 'A', minScore: 700 })
+  })
+
+  /**
+   * Verifies validation errors from the service are shown.
+   * @test {RuleSettings}
+   */
+  it('shows an error for invalid rules', async () => {
+    const wrapper = mount(RuleSettings)
+
+    await wrapper.find('.rule-name').setValue('')
+    await wrapper.find('.save-btn').trigger('click')
+
+    expect(wrapper.find('.error-message').text()).toBe('Rule 1 must have a name')
+    expect(getRuleSet().version).toBe(3)
+  })
+
+  /**
+   * Verifies the close event is emitted from the back button.
+   * @test {RuleSettings}
+   */
+  it('emits close when going back to loans', async () => {
+    const wrapper = mount(RuleSettings)
+
+    await wrapper.find('.settings-header button').trigger('click')
+
+    expect(wrapper.emitted('close')).toBeTruthy()
+  })
+})
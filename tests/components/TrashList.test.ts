@@ -0,0 +1,80 @@
+/**
+ * @fileoverview Unit tests for the TrashList component.
+ * Tests listing trashed loans, restoring them and confirming permanent deletion.
+ */
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import TrashList from '../../src/components/TrashList.vue'
+import type { LoanApplication } from '../../src/types/loan'
+
+/**
+ * Test suite for the TrashList component.
+ */
+describe('TrashList', () => {
+  const trashedLoan: LoanApplication = {
+    id: 'trashed-1',
+    applicantName: 'Tom Trash',
+    amount: 12000,
+    currency: 'USD',
+    termMonths: 12,
+    interestRate: 0.05,
+    status: 'rejected',
+    createdAt: '2024-01-15T10:30:00.000Z',
+    revision: 3,
+    deletedAt: '2024-02-01T09:00:00.000Z'
+  }
+
+  /**
+   * Verifies an empty trash shows a message.
+   * @test {TrashList}
+   */
+  it('shows an empty state', () => {
+    const wrapper = mount(TrashList, { props: { loans: [] } })
+
+    expect(wrapper.find('.empty-state').text()).toBe('The trash is empty.')
+  })
+
+  /**
+   * Verifies trashed loans are listed with their deletion date.
+   * @test {TrashList}
+   */
+  it('lists trashed loans', () => {
+    const wrapper = mount(TrashList, { props: { loans: [trashedLoan] } })
+
+    const row = wrapper.find('tbody tr')
+    expect(row.text()).toContain('Tom Trash')
+    expect(row.text()).toContain('$12,000.00')
+    expect(row.text()).toContain('Feb 1, 2024')
+  })
+
+  /**
+   * Verifies the restore button emits restore with the loan id.
+   * @test {TrashList}
+   */
+  it('emits restore', async () => {
+    const wrapper = mount(TrashList, { props: { loans: [trashedLoan] } })
+
+    await wrapper.find('.restore-btn').trigger('click')
+
+    expect(wrapper.emitted('restore')).toEqual([['trashed-1']])
+  })
+
+  /**
+   * Verifies permanent deletion is only emitted after confirmation.
+   * @test {TrashList}
+   */
+  it('asks for confirmation before purging', async () => {
+    const wrapper = mount(TrashList, {
+      props: { loans: [trashedLoan] },
+      global: { stubs: { teleport: true } }
+    })
+
+    await wrapper.find('.purge-btn').trigger('click')
+    expect(wrapper.text()).toContain('will be deleted permanently')
+    expect(wrapper.emitted('purge')).toBeFalsy()
+
+    await wrapper.find('.btn-delete').trigger('click')
+
+    expect(wrapper.emitted('purge')).toEqual([['trashed-1']])
+  })
+})
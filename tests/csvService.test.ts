@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Unit tests for the csvService module.
+ * Tests CSV export of loans, CSV parsing, column mapping, row validation
+ * and importing valid rows.
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { loansToCsv, parseCsv, parseLoanCsv, importLoanRows } from '../src/services/csvService'
+import { getLoans } from '../src/services/loanService'
+import type { LoanApplication } from '../src/types/loan'
+
+/**
+ * Test suite for csvService module.
+ */
+describe('csvService', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  /**
+   * Tests for loansToCsv() function.
+   */
+  describe('loansToCsv', () => {
+    /**
+     * Verifies a header row and one row per loan, quoting where needed.
+     * @test {loansToCsv}
+     */
+    it('writes a header and quoted rows', () => {
+      const loan: LoanApplication = {
+        id: 'loan-1',
+        applicantName: 'Doe, "Johnny"',
+        amount: 50000,
+        currency: 'USD',
+        termMonths: 24,
+        interestRate: 0.08,
+        status: 'submitted',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        revision: 1
+      }
+
+      expect(loansToCsv([loan])).toBe(
+        'id,applicantName,amount,currency,termMonths,interestRate,status,createdAt\r\n' +
+        'loan-1,"Doe, ""Johnny""",50000,USD,24,0.08,submitted,2024-01-01T00:00:00.000Z\r\n'
+      )
+    })
+
+    /**
+     * Verifies text a spreadsheet would run as a formula is escaped, and read back unchanged.
+     * @test {loansToCsv}
+     */
+    it('escapes values that start a formula', () => {
+      const loan: LoanApplication = {
+        id: 'loan-1',
+        applicantName: '=HYPERLINK("http://evil.example","Click")',
+        amount: 50000,
+        currency: 'USD',
+        termMonths: 24,
+        interestRate: 0.08,
+        status: 'submitted',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        revision: 1
+      }
+
+      const csv = loansToCsv([loan, { ...loan, applicantName: '@SUM(A1)' }, { ...loan, applicantName: '-1+2' }])
+
+      expect(csv).toContain('loan-1,"\'=HYPERLINK(""http://evil.example"",""Click"")",50000')
+      expect(csv).toContain("loan-1,'@SUM(A1),50000")
+      expect(csv).toContain("loan-1,'-1+2,50000")
+      expect(parseLoanCsv(csv).map(row => row.input.applicantName))
+        .toEqual(['=HYPERLINK("http://evil.example","Click")', '@SUM(A1)', '-1+2'])
+    })
+  })
+
+  /**
+   * Tests for parseCsv() function.
+   */
+  describe('parseCsv', () => {
+    /**
+     * Verifies quoted fields, escaped quotes, line breaks and blank lines.
+     * @test {parseCsv}
+     */
+    it('parses quoted fields and skips blank lines', () => {
+      const text = 'a,b\r\n"x, y","say ""hi"""\n\n"multi\nline",2\n'
+
+      expect(parseCsv(text)).toEqual([
+        ['a', 'b'],
+        ['x, y', 'say "hi"'],
+        ['multi\nline', '2']
+      ])
+    })
+  })
+
+  /**
+   * Tests for parseLoanCsv() function.
+   */
+  describe('parseLoanCsv', () => {
+    /**
+     * Verifies columns are matched by name in any order and case.
+     * @test {parseLoanCsv}
+     */
+    it('maps columns by header name', () => {
+      const rows = parseLoanCsv('Rate,Term,Applicant,Amount\n8%,24,Jane Doe,50000')
+
+      expect(rows).toEqual([{
+        rowNumber: 1,
+        input: { applicantName: 'Jane Doe', amount: 50000, termMonths: 24, interestRate: 0.08, currency: 'USD' },
+        errors: []
+      }])
+    })
+
+    /**
+     * Verifies the optional currency column is read and checked.
+     * @test {parseLoanCsv}
+     */
+    it('reads the currency column', () => {
+      const [czk, unknown] = parseLoanCsv('name,amount,term,rate,currency\nJan,1000,12,0.05,czk\nBob,1000,12,0.05,GBP')
+
+      expect(czk?.input.currency).toBe('CZK')
+      expect(czk?.errors).toEqual([])
+      expect(unknown?.errors).toEqual([{ code: 'currencyUnsupported', params: { currency: 'GBP' } }])
+    })
+
+    /**
+     * Verifies every rule violation of a row is reported.
+     * @test {parseLoanCsv}
+     */
+    it('reports all errors of a row', () => {
+      const [valid, invalid] = parseLoanCsv(
+        'applicantName,amount,termMonths,interestRate\nJane,1000,12,0.05\n,abc,0,-0.1'
+      )
+
+      expect(valid?.errors).toEqual([])
+      expect(invalid?.rowNumber).toBe(2)
+      expect(invalid?.errors).toEqual([
+        { code: 'applicantNameRequired' },
+        { code: 'amountNotANumber' },
+        { code: 'termNotPositive' },
+        { code: 'rateNegative' }
+      ])
+    })
+
+    /**
+     * Verifies files without a required column are refused.
+     * @test {parseLoanCsv}
+     */
+    it('throws for a missing column', () => {
+      expect(() => parseLoanCsv('applicantName,amount,termMonths\nJane,1000,12'))
+        .toThrow('Missing column "interestRate"')
+      expect(() => parseLoanCsv('')).toThrow('The CSV file is empty')
+    })
+  })
+
+  /**
+   * Tests for importLoanRows() function.
+   */
+  describe('importLoanRows', () => {
+    /**
+     * Verifies only valid rows become loan applications.
+     * @test {importLoanRows}
+     */
+    it('imports only valid rows', () => {
+      const rows = parseLoanCsv('name,amount,term,rate\nJane,1000,12,0.05\nBad,0,12,0.05\nJohn,2000,24,0.06')
+
+      const imported = importLoanRows(rows)
+
+      expect(imported.map(loan => loan.applicantName)).toEqual(['Jane', 'John'])
+      expect(getLoans()).toHaveLength(2)
+      expect(getLoans()[0]?.status).toBe('submitted')
+    })
+
+    /**
+     * Verifies all rows are saved with a single write of the loans and of the audit log.
+     * @test {importLoanRows}
+     */
+    it('saves the imported loans at once', () => {
+      const lines = Array.from({ length: 20 }, (_, i) => `Applicant ${i},1000,12,0.05`)
+      const rows = parseLoanCsv(['name,amount,term,rate', ...lines].join('\n'))
+      const setItem = vi.spyOn(Storage.prototype, 'setItem')
+
+      importLoanRows(rows)
+
+      expect(setItem.mock.calls.filter(([key]) => key === 'tredgate_loans')).toHaveLength(1)
+      expect(setItem.mock.calls.filter(([key]) => key === 'tredgate_audit_log')).toHaveLength(1)
+      expect(getLoans()).toHaveLength(20)
+      setItem.mockRestore()
+    })
+  })
+})
@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Unit tests for the currency module.
+ * Tests currency checks, formatting and per-currency totals.
+ */
+import { describe, it, expect } from 'vitest'
+import { formatCurrency, isCurrency, sumByCurrency } from '../src/services/currency'
+import type { Currency, LoanApplication } from '../src/types/loan'
+
+/**
+ * Test suite for currency module.
+ */
+describe('currency', () => {
+  /**
+   * Create a loan with the given amount and currency.
+   * @param amount - Loan amount
+   * @param currency - Loan currency
+   * @returns Complete LoanApplication object
+   */
+  const createLoan = (amount: number, currency: Currency): LoanApplication => ({
+    id: `${currency}-${amount}`,
+    applicantName: 'John Doe',
+    amount,
+    currency,
+    termMonths: 12,
+    interestRate: 0.05,
+    status: 'approved',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    revision: 1
+  })
+
+  /**
+   * Tests for isCurrency() function.
+   */
+  describe('isCurrency', () => {
+    /**
+     * Verifies only supported currency codes are accepted.
+     * @test {isCurrency}
+     */
+    it('accepts supported codes only', () => {
+      expect(isCurrency('CZK')).toBe(true)
+      expect(isCurrency('EUR')).toBe(true)
+      expect(isCurrency('USD')).toBe(true)
+      expect(isCurrency('usd')).toBe(false)
+      expect(isCurrency(undefined)).toBe(false)
+    })
+  })
+
+  /**
+   * Tests for formatCurrency() function.
+   */
+  describe('formatCurrency', () => {
+    /**
+     * Verifies amounts are formatted in the given currency.
+     * @test {formatCurrency}
+     */
+    it('formats amounts in the given currency', () => {
+      expect(formatCurrency(1234.5, 'USD')).toBe('$1,234.50')
+      expect(formatCurrency(1234.5, 'EUR')).toBe('€1,234.50')
+      // Intl separates a currency code from the amount with a no-break space
+      expect(formatCurrency(1234.5, 'CZK', 0)).toBe('CZK\u00a01,235')
+    })
+  })
+
+  /**
+   * Tests for sumByCurrency() function.
+   */
+  describe('sumByCurrency', () => {
+    /**
+     * Verifies amounts are only added up within a currency.
+     * @test {sumByCurrency}
+     */
+    it('totals each currency separately', () => {
+      const loans = [createLoan(100, 'USD'), createLoan(2000, 'CZK'), createLoan(50, 'USD')]
+
+      expect(sumByCurrency(loans)).toEqual([
+        { currency: 'CZK', total: 2000 },
+        { currency: 'USD', total: 150 }
+      ])
+      expect(sumByCurrency([])).toEqual([])
+    })
+  })
+})
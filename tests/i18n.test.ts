@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Unit tests for the i18n module.
+ * Tests message lookup, plural forms, the persisted locale and
+ * locale-aware formatting.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import {
+  formatDate,
+  formatPercent,
+  getLocale,
+  loadLocale,
+  setLocale,
+  t,
+  tn,
+  translate
+} from '../src/i18n'
+import { en } from '../src/i18n/en'
+import { cs } from '../src/i18n/cs'
+import { describeError } from '../src/i18n/errors'
+import { SchemaMigrationError, ValidationError } from '../src/services/errors'
+import { formatCurrency } from '../src/services/currency'
+
+/**
+ * Test suite for i18n module.
+ */
+describe('i18n', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  afterEach(() => {
+    setLocale('en')
+  })
+
+  /**
+   * Tests for the message catalogs.
+   */
+  describe('catalogs', () => {
+    /**
+     * Verifies the Czech catalog translates every English message.
+     * @test {cs}
+     */
+    it('translates every English key into Czech', () => {
+      const missing = Object.keys(en).filter(key => !(key in cs))
+
+      expect(missing).toEqual([])
+    })
+  })
+
+  /**
+   * Tests for translate(), t() and tn() functions.
+   */
+  describe('translate', () => {
+    /**
+     * Verifies placeholders are filled in.
+     * @test {translate}
+     */
+    it('fills in placeholders', () => {
+      expect(translate('en', 'nav.trash', { count: 3 })).toBe('Trash (3)')
+      expect(translate('cs', 'nav.trash', { count: 3 })).toBe('Koš (3)')
+    })
+
+    /**
+     * Verifies t() uses the current locale.
+     * @test {t}
+     */
+    it('uses the current locale', () => {
+      expect(t('trash.heading')).toBe('Trash')
+
+      setLocale('cs')
+
+      expect(t('trash.heading')).toBe('Koš')
+    })
+
+    /**
+     * Verifies the plural form is chosen by the rules of the locale.
+     * @test {tn}
+     */
+    it('chooses the plural form', () => {
+      expect(tn('csv.import', 1)).toBe('Import 1 valid row')
+      expect(tn('csv.import', 3)).toBe('Import 3 valid rows')
+
+      setLocale('cs')
+
+      expect(tn('csv.import', 1)).toBe('Importovat 1 platný řádek')
+      expect(tn('csv.import', 3)).toBe('Importovat 3 platné řádky')
+      expect(tn('csv.import', 5)).toBe('Importovat 5 platných řádků')
+    })
+  })
+
+  /**
+   * Tests for setLocale() and loadLocale() functions.
+   */
+  describe('setLocale', () => {
+    /**
+     * Verifies the chosen locale is restored in the next session.
+     * @test {loadLocale}
+     */
+    it('remembers the locale', () => {
+      setLocale('cs')
+
+      expect(localStorage.getItem('tredgate_locale')).toBe('cs')
+      expect(loadLocale()).toBe('cs')
+      expect(getLocale()).toBe('cs')
+      expect(document.documentElement.lang).toBe('cs')
+    })
+
+    /**
+     * Verifies an unknown stored value falls back to the browser language.
+     * @test {loadLocale}
+     */
+    it('ignores an unknown stored locale', () => {
+      localStorage.setItem('tredgate_locale', 'xx')
+
+      expect(loadLocale()).toBe('en')
+    })
+  })
+
+  /**
+   * Tests for locale-aware formatting.
+   */
+  describe('formatting', () => {
+    /**
+     * Verifies dates, percentages and amounts follow the locale.
+     * Czech separates groups and units with a no-break space.
+     * @test {formatDate}
+     */
+    it('formats for the current locale', () => {
+      expect(formatDate('2024-01-15T10:30:00.000Z')).toBe('Jan 15, 2024')
+      expect(formatPercent(0.085)).toBe('8.5%')
+
+      setLocale('cs')
+
+      expect(formatDate('2024-01-15T10:30:00.000Z')).toBe('15. 1. 2024')
+      expect(formatPercent(0.085)).toBe('8,5\u00a0%')
+      expect(formatCurrency(1234.5, 'CZK')).toBe('1\u00a0234,50\u00a0Kč')
+    })
+  })
+
+  /**
+   * Tests for describeError() function.
+   */
+  describe('describeError', () => {
+    /**
+     * Verifies validation errors are shown in the current locale.
+     * @test {describeError}
+     */
+    it('translates validation errors', () => {
+      const error = new ValidationError({ code: 'currencyUnsupported', params: { currency: 'GBP' } })
+
+      expect(error.message).toBe('Currency GBP is not supported')
+
+      setLocale('cs')
+
+      expect(describeError(error, 'app.actionFailed')).toBe('Měna GBP není podporována')
+      expect(describeError(new Error('Storage is full'), 'app.actionFailed')).toBe('Storage is full')
+      expect(describeError('oops', 'app.actionFailed')).toBe('Akce se nezdařila')
+      expect(describeError(new SchemaMigrationError(99), 'app.actionFailed'))
+        .toBe('Úvěry uložila novější verze aplikace; změny nelze uložit')
+    })
+  })
+})
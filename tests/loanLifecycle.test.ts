@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Unit tests for the loanLifecycle module.
+ * Tests the allowed status transitions table and auto-decision eligibility.
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  LOAN_TRANSITIONS,
+  canTransition,
+  canAutoDecide,
+  canPrepay,
+  canPrintOffer,
+  canRecordPayment,
+  getAllowedTransitions,
+  isRepaymentTracked
+} from '../src/services/loanLifecycle'
+import type { LoanStatus } from '../src/types/loan'
+
+/**
+ * Test suite for loanLifecycle module.
+ */
+describe('loanLifecycle', () => {
+  /**
+   * Verifies the happy path from draft to repaid is allowed.
+   * @test {canTransition}
+   */
+  it('allows the standard lifecycle path', () => {
+    const path: LoanStatus[] = ['draft', 'submitted', 'under_review', 'approved', 'disbursed', 'repaid']
+
+    for (let i = 0; i < path.length - 1; i++) {
+      expect(canTransition(path[i]!, path[i + 1]!)).toBe(true)
+    }
+  })
+
+  /**
+   * Verifies going back to an earlier status is not allowed.
+   * @test {canTransition}
+   */
+  it('rejects backward transitions', () => {
+    expect(canTransition('approved', 'submitted')).toBe(false)
+    expect(canTransition('rejected', 'approved')).toBe(false)
+    expect(canTransition('disbursed', 'approved')).toBe(false)
+  })
+
+  /**
+   * Verifies terminal statuses have no outgoing transitions.
+   * @test {getAllowedTransitions}
+   */
+  it('has no transitions out of terminal statuses', () => {
+    expect(getAllowedTransitions('rejected')).toEqual([])
+    expect(getAllowedTransitions('withdrawn')).toEqual([])
+    expect(getAllowedTransitions('repaid')).toEqual([])
+  })
+
+  /**
+   * Verifies a defaulted loan can still be repaid.
+   * @test {canTransition}
+   */
+  it('allows a defaulted loan to be repaid', () => {
+    expect(canTransition('defaulted', 'repaid')).toBe(true)
+  })
+
+  /**
+   * Verifies every status appears in the transitions table.
+   * @test {LOAN_TRANSITIONS}
+   */
+  it('defines transitions for every status', () => {
+    expect(Object.keys(LOAN_TRANSITIONS).sort()).toEqual([
+      'approved', 'defaulted', 'disbursed', 'draft', 'rejected',
+      'repaid', 'submitted', 'under_review', 'withdrawn'
+    ])
+  })
+
+  /**
+   * Verifies only submitted and under-review loans can be auto-decided.
+   * @test {canAutoDecide}
+   */
+  it('allows auto-decision only while awaiting a decision', () => {
+    expect(canAutoDecide('submitted')).toBe(true)
+    expect(canAutoDecide('under_review')).toBe(true)
+    expect(canAutoDecide('draft')).toBe(false)
+    expect(canAutoDecide('approved')).toBe(false)
+  })
+
+  /**
+   * Verifies offers can only be printed for approved or disbursed loans.
+   * @test {canPrintOffer}
+   */
+  it('allows printing an offer only once approved', () => {
+    expect(canPrintOffer('approved')).toBe(true)
+    expect(canPrintOffer('disbursed')).toBe(true)
+    expect(canPrintOffer('submitted')).toBe(false)
+    expect(canPrintOffer('rejected')).toBe(false)
+  })
+
+  /**
+   * Verifies repayments are tracked from disbursement, and payments recorded until the loan is closed.
+   * @test {canRecordPayment}
+   */
+  it('records payments only on loans being repaid', () => {
+    expect(isRepaymentTracked('repaid')).toBe(true)
+    expect(isRepaymentTracked('approved')).toBe(false)
+    expect(canRecordPayment('disbursed')).toBe(true)
+    expect(canRecordPayment('defaulted')).toBe(true)
+    expect(canRecordPayment('repaid')).toBe(false)
+  })
+
+  /**
+   * Verifies prepayments can be modelled until the loan is closed.
+   * @test {canPrepay}
+   */
+  it('allows modelling prepayments on open loans', () => {
+    expect(canPrepay('submitted')).toBe(true)
+    expect(canPrepay('disbursed')).toBe(true)
+    expect(canPrepay('repaid')).toBe(false)
+    expect(canPrepay('rejected')).toBe(false)
+  })
+})
@@ -0,0 +1,277 @@
+/**
+ * @fileoverview Unit tests for the loanQuery module.
+ * Tests filtering, sorting and paging the loan list and keeping its state in the URL.
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  applyLoanListQuery,
+  formatLoanListQuery,
+  getPageCount,
+  isFilterActive,
+  matchesFilter,
+  parseLoanListQuery,
+  queryLoanList,
+  sortLoans,
+  summarizeLoans,
+  toLoanQuery
+} from '../src/services/loanQuery'
+import type { LoanApplication } from '../src/types/loan'
+
+/**
+ * Test suite for loanQuery module.
+ */
+describe('loanQuery', () => {
+  /**
+   * Helper to build a loan.
+   * @param overrides - Partial loan properties to override defaults
+   * @returns Complete LoanApplication object
+   */
+  const createLoan = (overrides: Partial<LoanApplication> = {}): LoanApplication => ({
+    id: 'loan-1',
+    applicantName: 'Jane Smith',
+    amount: 10000,
+    currency: 'USD',
+    termMonths: 24,
+    interestRate: 0.08,
+    status: 'submitted',
+    createdAt: '2024-03-15T12:00:00.000Z',
+    revision: 1,
+    ...overrides
+  })
+
+  /**
+   * Tests for matchesFilter() and isFilterActive() functions.
+   */
+  describe('matchesFilter', () => {
+    /**
+     * Verifies the search matches part of the applicant name ignoring case.
+     * @test {matchesFilter}
+     */
+    it('searches the applicant name', () => {
+      expect(matchesFilter(createLoan(), { search: ' smi ' })).toBe(true)
+      expect(matchesFilter(createLoan(), { search: 'doe' })).toBe(false)
+    })
+
+    /**
+     * Verifies status, amount, rate and creation date criteria, including the bounds.
+     * @test {matchesFilter}
+     */
+    it('filters by status and ranges', () => {
+      const loan = createLoan()
+
+      expect(matchesFilter(loan, { status: 'submitted', minAmount: 10000, maxAmount: 10000 })).toBe(true)
+      expect(matchesFilter(loan, { status: 'approved' })).toBe(false)
+      expect(matchesFilter(loan, { minAmount: 10001 })).toBe(false)
+      expect(matchesFilter(loan, { minRate: 0.05, maxRate: 0.08 })).toBe(true)
+      expect(matchesFilter(loan, { maxRate: 0.07 })).toBe(false)
+      expect(matchesFilter(loan, { createdFrom: '2024-03-15', createdTo: '2024-03-15' })).toBe(true)
+      expect(matchesFilter(loan, { createdFrom: '2024-03-16' })).toBe(false)
+    })
+
+    /**
+     * Verifies an empty filter is not active.
+     * @test {isFilterActive}
+     */
+    it('knows whether any criterion is set', () => {
+      expect(isFilterActive({})).toBe(false)
+      expect(isFilterActive({ search: '' })).toBe(false)
+      expect(isFilterActive({ minRate: 0 })).toBe(true)
+    })
+  })
+
+  /**
+   * Tests for sortLoans() and applyLoanListQuery() functions.
+   */
+  describe('sortLoans', () => {
+    /**
+     * Verifies sorting by the calculated monthly payment in both directions.
+     * @test {sortLoans}
+     */
+    it('sorts by monthly payment', () => {
+      const loans = [
+        createLoan({ id: 'a', amount: 10000, termMonths: 12 }),
+        createLoan({ id: 'b', amount: 10000, termMonths: 60 }),
+        createLoan({ id: 'c', amount: 20000, termMonths: 36 })
+      ]
+
+      expect(sortLoans(loans, { key: 'monthlyPayment', direction: 'asc' }).map(loan => loan.id)).toEqual(['b', 'c', 'a'])
+      expect(sortLoans(loans, { key: 'monthlyPayment', direction: 'desc' }).map(loan => loan.id)).toEqual(['a', 'c', 'b'])
+      expect(loans.map(loan => loan.id)).toEqual(['a', 'b', 'c'])
+    })
+
+    /**
+     * Verifies statuses sort in lifecycle order and loans without a value come last.
+     * @test {sortLoans}
+     */
+    it('sorts statuses by lifecycle and puts missing values last', () => {
+      const loans = [
+        createLoan({ id: 'a', status: 'disbursed', disbursedAt: '2024-03-15T12:00:00.000Z' }),
+        createLoan({ id: 'b', status: 'draft' }),
+        createLoan({ id: 'c', status: 'approved' })
+      ]
+
+      expect(sortLoans(loans, { key: 'status', direction: 'asc' }).map(loan => loan.id)).toEqual(['b', 'c', 'a'])
+      expect(sortLoans(loans, { key: 'balance', direction: 'desc' }).map(loan => loan.id)).toEqual(['a', 'b', 'c'])
+    })
+
+    /**
+     * Verifies the balance sorted by follows payments recorded in a new revision of a loan.
+     * @test {sortLoans}
+     */
+    it('sorts by the balance of the current revision', () => {
+      const disbursed = { status: 'disbursed' as const, amount: 1000, interestRate: 0, termMonths: 10 }
+      const a = createLoan({ ...disbursed, id: 'balance-a' })
+      const b = createLoan({ ...disbursed, id: 'balance-b', amount: 900 })
+
+      expect(sortLoans([a, b], { key: 'balance', direction: 'asc' }).map(loan => loan.id)).toEqual(['balance-b', 'balance-a'])
+
+      const paid = { ...a, revision: a.revision + 1, payments: [{ id: 'p-1', amount: 200, paidOn: '2024-02-01', recordedAt: '2024-02-01T00:00:00.000Z' }] }
+
+      expect(sortLoans([paid, b], { key: 'balance', direction: 'asc' }).map(loan => loan.id)).toEqual(['balance-a', 'balance-b'])
+    })
+
+    /**
+     * Verifies filtering and sorting are combined.
+     * @test {applyLoanListQuery}
+     */
+    it('filters and sorts', () => {
+      const loans = [
+        createLoan({ id: 'a', applicantName: 'Zoe Smith' }),
+        createLoan({ id: 'b', applicantName: 'John Doe' }),
+        createLoan({ id: 'c', applicantName: 'Anna Smith' })
+      ]
+
+      const shown = applyLoanListQuery(loans, { filter: { search: 'smith' }, sort: { key: 'applicantName', direction: 'asc' } })
+
+      expect(shown.map(loan => loan.id)).toEqual(['c', 'a'])
+    })
+  })
+
+  /**
+   * Tests for queryLoanList(), getPageCount() and toLoanQuery() functions.
+   */
+  describe('queryLoanList', () => {
+    const loans = Array.from({ length: 7 }, (_, index) =>
+      createLoan({ id: `loan-${index}`, amount: (index + 1) * 1000, status: index % 2 ? 'approved' : 'submitted' }))
+
+    /**
+     * Verifies a window of the sorted matches is returned with the number of matches.
+     * @test {queryLoanList}
+     */
+    it('returns one window of the matching loans', () => {
+      const page = queryLoanList(loans, {
+        filter: { status: 'submitted' },
+        sort: { key: 'amount', direction: 'desc' },
+        offset: 1,
+        limit: 2
+      })
+
+      expect(page.loans.map(loan => loan.amount)).toEqual([5000, 3000])
+      expect(page.total).toBe(4)
+      expect(queryLoanList(loans, {}).loans).toHaveLength(7)
+      expect(queryLoanList(loans, { offset: 6, limit: 5 }).loans.map(loan => loan.id)).toEqual(['loan-6'])
+    })
+
+    /**
+     * Verifies the page count rounds up and is never zero.
+     * @test {getPageCount}
+     */
+    it('counts the pages', () => {
+      expect(getPageCount(51, 25)).toBe(3)
+      expect(getPageCount(50, 25)).toBe(2)
+      expect(getPageCount(0, 25)).toBe(1)
+    })
+
+    /**
+     * Verifies a list page is turned into the window of loans it shows.
+     * @test {toLoanQuery}
+     */
+    it('turns a list page into a window', () => {
+      expect(toLoanQuery({
+        filter: { status: 'approved' },
+        sort: { key: 'amount', direction: 'asc' },
+        page: 3,
+        pageSize: 25
+      })).toEqual({
+        filter: { status: 'approved' },
+        sort: { key: 'amount', direction: 'asc' },
+        offset: 50,
+        limit: 25
+      })
+    })
+  })
+
+  /**
+   * Tests for summarizeLoans() function.
+   */
+  describe('summarizeLoans', () => {
+    /**
+     * Verifies loans are counted by status group and trashed loans only as trashed.
+     * @test {summarizeLoans}
+     */
+    it('counts loans by status group', () => {
+      const stats = summarizeLoans([
+        createLoan({ id: 'a', status: 'submitted' }),
+        createLoan({ id: 'b', status: 'under_review' }),
+        createLoan({ id: 'c', status: 'approved', amount: 1000 }),
+        createLoan({ id: 'd', status: 'repaid', amount: 2000, currency: 'EUR' }),
+        createLoan({ id: 'e', status: 'rejected' }),
+        createLoan({ id: 'f', status: 'approved', amount: 5000, deletedAt: '2024-02-01T00:00:00.000Z' })
+      ])
+
+      expect(stats).toEqual({
+        total: 5,
+        pending: 2,
+        approved: 2,
+        rejected: 1,
+        approvedTotals: [{ currency: 'EUR', total: 2000 }, { currency: 'USD', total: 1000 }],
+        trashed: 1
+      })
+    })
+  })
+
+  /**
+   * Tests for parseLoanListQuery() and formatLoanListQuery() functions.
+   */
+  describe('URL', () => {
+    /**
+     * Verifies the filter and sort order survive a round trip through the URL.
+     * @test {formatLoanListQuery}
+     */
+    it('writes and reads the query string', () => {
+      const query = {
+        filter: { search: 'smith', status: 'approved' as const, minAmount: 5000, maxRate: 0.1, createdFrom: '2024-01-01' },
+        sort: { key: 'monthlyPayment' as const, direction: 'desc' as const }
+      }
+
+      const search = formatLoanListQuery(query)
+
+      expect(search).toBe('q=smith&status=approved&amountMin=5000&rateMax=0.1&from=2024-01-01&sort=monthlyPayment&dir=desc')
+      expect(parseLoanListQuery(`?${search}`)).toEqual(query)
+    })
+
+    /**
+     * Verifies the page and page size are kept unless they are the defaults.
+     * @test {formatLoanListQuery}
+     */
+    it('writes and reads the page', () => {
+      const query = { filter: {}, page: 3, pageSize: 50 }
+
+      expect(formatLoanListQuery(query)).toBe('page=3&size=50')
+      expect(parseLoanListQuery('?page=3&size=50')).toEqual(query)
+      expect(formatLoanListQuery({ filter: {}, page: 1, pageSize: 25 })).toBe('')
+      expect(parseLoanListQuery('?page=0&size=30')).toEqual({ filter: {}, sort: undefined })
+    })
+
+    /**
+     * Verifies unknown and malformed parameters are ignored.
+     * @test {parseLoanListQuery}
+     */
+    it('ignores invalid parameters', () => {
+      expect(parseLoanListQuery('?status=lost&amountMin=abc&from=yesterday&sort=colour&q=%20')).toEqual({
+        filter: {},
+        sort: undefined
+      })
+    })
+  })
+})
@@ -3,17 +3,41 @@
  * Tests all business logic functions for loan management including CRUD operations,
  * validation, calculations, and auto-decision rules.
  */
-import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import {
   getLoans,
+  getLoan,
+  getLoanStats,
   saveLoans,
   createLoanApplication,
   updateLoanStatus,
+  updateLoan,
   calculateMonthlyPayment,
   autoDecideLoan,
-  deleteLoan
+  deleteLoan,
+  getTrashedLoans,
+  restoreLoan,
+  purgeLoan,
+  revertLoanStatus,
+  getBackupKey,
+  getLoanInputErrors,
+  queryLoans,
+  recordPayment
 } from '../src/services/loanService'
-import type { LoanApplication } from '../src/types/loan'
+import { LOANS_SCHEMA_VERSION } from '../src/services/migrations'
+import { saveRuleSet } from '../src/services/ruleService'
+import {
+  InvalidStatusTransitionError,
+  LoanConflictError,
+  SchemaMigrationError,
+  ValidationError
+} from '../src/services/errors'
+import { getAuditTrail } from '../src/services/auditService'
+import { getQuarantinedLoans } from '../src/services/quarantineService'
+import { createApplicant } from '../src/services/applicantService'
+import { getStorageError } from '../src/services/storageSetup'
+import type { Currency, LoanApplication } from '../src/types/loan'
+import type { ProductId } from '../src/types/product'
 
 /**
  * Mock localStorage implementation for testing.
@@ -75,10 +99,12 @@ describe('loanService', () => {
           id: '1',
           applicantName: 'John Doe',
           amount: 50000,
+          currency: 'USD',
           termMonths: 24,
           interestRate: 0.08,
-          status: 'pending',
-          createdAt: '2024-01-01T00:00:00.000Z'
+          status: 'submitted',
+          createdAt: '2024-01-01T00:00:00.000Z',
+          revision: 1
         }
       ]
       localStorageMock.setItem('tredgate_loans', JSON.stringify(storedLoans))
@@ -86,6 +112,160 @@ describe('loanService', () => {
       const loans = getLoans()
       expect(loans).toEqual(storedLoans)
     })
+    /**
+     * Verifies loans saved with a fractional term before whole months were required are still read.
+     * @test {getLoans}
+     */
+    it('keeps stored loans with a fractional term', () => {
+      localStorageMock.setItem('tredgate_loans', JSON.stringify({
+        schemaVersion: LOANS_SCHEMA_VERSION,
+        loans: [{
+          id: 'fraction',
+          applicantName: 'Jane Doe',
+          amount: 10000,
+          currency: 'USD',
+          termMonths: 12.5,
+          interestRate: 0.05,
+          status: 'submitted',
+          createdAt: '2024-01-01T00:00:00.000Z',
+          revision: 1
+        }]
+      }))
+
+      expect(getLoans().map(loan => loan.termMonths)).toEqual([12.5])
+      expect(getQuarantinedLoans()).toEqual([])
+    })
+
+    /**
+     * Verifies loans stored with the legacy 'pending' status are read as submitted.
+     * @test {getLoans}
+     */
+    it('maps legacy pending status to submitted', () => {
+      localStorageMock.setItem('tredgate_loans', JSON.stringify([
+        {
+          id: 'legacy',
+          applicantName: 'Legacy Borrower',
+          amount: 1000,
+          termMonths: 12,
+          interestRate: 0.05,
+          status: 'pending',
+          createdAt: '2024-01-01T00:00:00.000Z'
+        }
+      ]))
+
+      expect(getLoans()[0]?.status).toBe('submitted')
+    })
+
+    /**
+     * Verifies migrated data is saved back with the current schema version
+     * and the original payload is kept as a backup.
+     * @test {getLoans}
+     */
+    it('saves migrated data and backs up the original payload', () => {
+      const legacy = JSON.stringify([
+        {
+          id: 'legacy',
+          applicantName: 'Legacy Borrower',
+          amount: 1000,
+          termMonths: 12,
+          interestRate: 0.05,
+          status: 'pending',
+          createdAt: '2024-01-01T00:00:00.000Z'
+        }
+      ])
+      localStorageMock.setItem('tredgate_loans', legacy)
+
+      getLoans()
+
+      expect(localStorageMock.getItem(getBackupKey(1))).toBe(legacy)
+      const saved = JSON.parse(localStorageMock.getItem('tredgate_loans') ?? '')
+      expect(saved.schemaVersion).toBe(LOANS_SCHEMA_VERSION)
+      expect(saved.loans[0].status).toBe('submitted')
+    })
+
+    /**
+     * Verifies invalid records are quarantined while valid ones are kept.
+     * @test {getLoans}
+     */
+    it('quarantines invalid records and keeps the rest', () => {
+      const valid = {
+        id: '1',
+        applicantName: 'John Doe',
+        amount: 50000,
+        currency: 'USD',
+        termMonths: 24,
+        interestRate: 0.08,
+        status: 'submitted',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        revision: 1
+      }
+      localStorageMock.setItem('tredgate_loans', JSON.stringify({
+        schemaVersion: LOANS_SCHEMA_VERSION,
+        loans: [valid, { ...valid, id: '2', amount: 'lots' }]
+      }))
+
+      expect(getLoans()).toEqual([valid])
+      expect(getQuarantinedLoans()).toHaveLength(1)
+      expect(getQuarantinedLoans()[0]?.reason).toBe('Invalid fields: amount')
+      // The invalid record is not quarantined again on the next read
+      expect(getLoans()).toEqual([valid])
+      expect(getQuarantinedLoans()).toHaveLength(1)
+    })
+
+    /**
+     * Verifies an unreadable payload is quarantined as a whole.
+     * @test {getLoans}
+     */
+    it('quarantines an unreadable payload', () => {
+      localStorageMock.setItem('tredgate_loans', '{not json')
+
+      expect(getLoans()).toEqual([])
+      expect(getQuarantinedLoans()[0]?.record).toBe('{not json')
+      expect(localStorageMock.getItem('tredgate_loans')).toBeNull()
+    })
+
+    /**
+     * Verifies data from a newer build is reported, left untouched and not backed up, as nothing is migrated.
+     * @test {getLoans}
+     */
+    it('keeps data with an unsupported schema version', () => {
+      const future = JSON.stringify({ schemaVersion: LOANS_SCHEMA_VERSION + 1, loans: [] })
+      localStorageMock.setItem('tredgate_loans', future)
+
+      expect(getLoans()).toEqual([])
+      expect(getStorageError()).toBe('newerSchema')
+      expect(localStorageMock.getItem('tredgate_loans')).toBe(future)
+      expect(localStorageMock.getItem(getBackupKey(LOANS_SCHEMA_VERSION + 1))).toBeNull()
+    })
+
+    /**
+     * Verifies changes are refused rather than overwriting data from a newer build.
+     * @test {createLoanApplication}
+     */
+    it('refuses to overwrite data with an unsupported schema version', () => {
+      const future = JSON.stringify({ schemaVersion: LOANS_SCHEMA_VERSION + 1, loans: [{ id: 'from-the-future' }] })
+      localStorageMock.setItem('tredgate_loans', future)
+
+      expect(() => createLoanApplication({ applicantName: 'Alice', amount: 10000, termMonths: 12, interestRate: 0.05 }))
+        .toThrow(SchemaMigrationError)
+      expect(localStorageMock.getItem('tredgate_loans')).toBe(future)
+    })
+  })
+
+  /**
+   * Tests for getLoan() function.
+   */
+  describe('getLoan', () => {
+    /**
+     * Verifies a loan is found by its ID and an unknown ID gives undefined.
+     * @test {getLoan}
+     */
+    it('returns the loan with the given ID', () => {
+      const loan = createLoanApplication({ applicantName: 'Alice', amount: 10000, termMonths: 12, interestRate: 0.05 })
+
+      expect(getLoan(loan.id)).toEqual(loan)
+      expect(getLoan('missing')).toBeUndefined()
+    })
   })
 
   /**
@@ -103,10 +283,12 @@ describe('loanService', () => {
           id: '1',
           applicantName: 'Jane Doe',
           amount: 75000,
+          currency: 'USD',
           termMonths: 36,
           interestRate: 0.06,
           status: 'approved',
-          createdAt: '2024-02-01T00:00:00.000Z'
+          createdAt: '2024-02-01T00:00:00.000Z',
+          revision: 1
         }
       ]
 
@@ -114,11 +296,89 @@ describe('loanService', () => {
 
       expect(localStorageMock.setItem).toHaveBeenCalledWith(
         'tredgate_loans',
-        JSON.stringify(loans)
+        JSON.stringify({ schemaVersion: LOANS_SCHEMA_VERSION, loans })
       )
     })
   })
 
+  /**
+   * Tests for queryLoans() function.
+   * Verifies filtered, sorted and paged reads of the stored loans.
+   */
+  describe('queryLoans', () => {
+    /**
+     * Verifies one page of the matching loans is returned with the number of matches.
+     * @test {queryLoans}
+     */
+    it('returns a page of the matching loans', () => {
+      const names = ['Anna Smith', 'John Doe', 'Zoe Smith', 'Bob Smith']
+      names.forEach(applicantName =>
+        createLoanApplication({ applicantName, amount: 10000, termMonths: 12, interestRate: 0.05 }))
+
+      const page = queryLoans({
+        filter: { search: 'smith' },
+        sort: { key: 'applicantName', direction: 'asc' },
+        offset: 1,
+        limit: 1
+      })
+
+      expect(page.loans.map(loan => loan.applicantName)).toEqual(['Bob Smith'])
+      expect(page.total).toBe(3)
+      expect(queryLoans().total).toBe(4)
+    })
+
+    /**
+     * Verifies reads are not affected by changes to returned loans and follow changes made elsewhere.
+     * @test {getLoans}
+     */
+    it('reads the stored loans afresh after they change', () => {
+      const loan = createLoanApplication({ applicantName: 'Alice', amount: 10000, termMonths: 12, interestRate: 0.05 })
+      const first = getLoans()
+      first[0]!.applicantName = 'Changed'
+
+      expect(getLoans()[0]?.applicantName).toBe('Alice')
+
+      localStorageMock.setItem('tredgate_loans', JSON.stringify({
+        schemaVersion: LOANS_SCHEMA_VERSION,
+        loans: [{ ...loan, applicantName: 'Alice Cooper' }]
+      }))
+
+      expect(getLoans()[0]?.applicantName).toBe('Alice Cooper')
+    })
+
+    /**
+     * Verifies changing a loan of a page does not change the stored loans.
+     * @test {queryLoans}
+     */
+    it('returns copies of the loans on the page', () => {
+      createLoanApplication({ applicantName: 'Alice', amount: 10000, termMonths: 12, interestRate: 0.05 })
+      queryLoans().loans[0]!.applicantName = 'Changed'
+
+      expect(queryLoans().loans[0]?.applicantName).toBe('Alice')
+    })
+  })
+
+  /**
+   * Tests for getLoanStats() function.
+   */
+  describe('getLoanStats', () => {
+    /**
+     * Verifies the stats count the stored loans and follow changes to them.
+     * @test {getLoanStats}
+     */
+    it('counts the stored loans', () => {
+      const first = createLoanApplication({ applicantName: 'Alice', amount: 10000, termMonths: 12, interestRate: 0.05 })
+      createLoanApplication({ applicantName: 'Bob', amount: 20000, termMonths: 12, interestRate: 0.05 })
+
+      expect(getLoanStats()).toMatchObject({ total: 2, pending: 2, approved: 0, trashed: 0 })
+
+      updateLoanStatus(first.id, 'approved')
+      deleteLoan(first.id)
+
+      expect(getLoanStats()).toMatchObject({ total: 1, pending: 1, approved: 0, trashed: 1 })
+    })
+  })
+
   /**
    * Tests for createLoanApplication() function.
    * Verifies loan creation with validation rules.
@@ -129,7 +389,7 @@ describe('loanService', () => {
      * Checks that ID, createdAt, and pending status are automatically set.
      * @test {createLoanApplication}
      */
-    it('creates a new loan with pending status', () => {
+    it('creates a new loan with submitted status', () => {
       const input = {
         applicantName: 'Alice Smith',
         amount: 25000,
@@ -143,11 +403,84 @@ describe('loanService', () => {
       expect(loan.amount).toBe(25000)
       expect(loan.termMonths).toBe(12)
       expect(loan.interestRate).toBe(0.05)
-      expect(loan.status).toBe('pending')
+      expect(loan.status).toBe('submitted')
       expect(loan.id).toBeDefined()
       expect(loan.createdAt).toBeDefined()
     })
 
+    /**
+     * Verifies the loan is scored with the current scorecard when created.
+     * @test {createLoanApplication}
+     */
+    it('stores the credit score and band', () => {
+      const loan = createLoanApplication({ applicantName: 'Alice', amount: 25000, termMonths: 12, interestRate: 0.05 })
+
+      expect(loan.creditScore).toMatchObject({ score: 590, band: 'D', ruleSetVersion: 3 })
+      expect(getLoans()[0]?.creditScore?.contributions).toHaveLength(6)
+    })
+
+    /**
+     * Verifies the product is stored and its limits are enforced.
+     * @test {createLoanApplication}
+     */
+    it('checks the terms against the loan product', () => {
+      const input = { applicantName: 'Alice', productId: 'personal' as const, amount: 25000, termMonths: 36, interestRate: 0.09 }
+
+      expect(createLoanApplication(input).productId).toBe('personal')
+      expect(() => createLoanApplication({ ...input, amount: 75000 }))
+        .toThrow('Amount must be between 1000 and 50000 USD for this product')
+      expect(() => createLoanApplication({ ...input, termMonths: 30 }))
+        .toThrow('This product is offered for terms of 12, 24, 36, 48, 60 months')
+      expect(() => createLoanApplication({ ...input, interestRate: 0.03 }))
+        .toThrow('Interest rate must be between 0.06 and 0.18 for this product')
+      expect(getLoanInputErrors({ ...input, productId: 'yacht' as ProductId }))
+        .toEqual([{ code: 'productUnknown', params: { product: 'yacht' } }])
+      expect(getLoans()).toHaveLength(1)
+    })
+
+    /**
+     * Verifies the currency defaults to USD and can be chosen.
+     * @test {createLoanApplication}
+     */
+    it('sets the loan currency', () => {
+      const input = { applicantName: 'Alice', amount: 25000, termMonths: 12, interestRate: 0.05 }
+
+      expect(createLoanApplication(input).currency).toBe('USD')
+      expect(createLoanApplication({ ...input, currency: 'CZK' }).currency).toBe('CZK')
+    })
+
+    /**
+     * Verifies unsupported currencies are rejected.
+     * @test {createLoanApplication}
+     */
+    it('throws error for an unsupported currency', () => {
+      expect(() =>
+        createLoanApplication({
+          applicantName: 'Alice',
+          amount: 25000,
+          termMonths: 12,
+          interestRate: 0.05,
+          currency: 'GBP' as Currency
+        })
+      ).toThrow('Currency GBP is not supported')
+    })
+
+    /**
+     * Verifies a loan can be saved as a draft.
+     * @test {createLoanApplication}
+     */
+    it('creates a draft loan when requested', () => {
+      const loan = createLoanApplication({
+        applicantName: 'Draft Applicant',
+        amount: 5000,
+        termMonths: 12,
+        interestRate: 0.05
+      }, 'draft')
+
+      expect(loan.status).toBe('draft')
+      expect(getLoans()[0]?.status).toBe('draft')
+    })
+
     /**
      * Verifies validation error when applicant name is empty.
      * @test {createLoanApplication}
@@ -163,6 +496,17 @@ describe('loanService', () => {
       ).toThrow('Applicant name is required')
     })
 
+    /**
+     * Verifies validation errors carry a code the UI can translate.
+     * @test {createLoanApplication}
+     */
+    it('throws a ValidationError with the problem code', () => {
+      const input = { applicantName: 'Alice', amount: -5, termMonths: 12, interestRate: 0.05 }
+
+      expect(() => createLoanApplication(input)).toThrow(ValidationError)
+      expect(() => createLoanApplication(input)).toThrow(expect.objectContaining({ code: 'amountNotPositive' }))
+    })
+
     /**
      * Verifies validation error when loan amount is zero or negative.
      * @test {createLoanApplication}
@@ -209,6 +553,72 @@ describe('loanService', () => {
     })
   })
 
+  /**
+   * Tests for getLoanInputErrors() function.
+   * Verifies that every validation failure is reported.
+   */
+  describe('getLoanInputErrors', () => {
+    /**
+     * Verifies valid input has no errors.
+     * @test {getLoanInputErrors}
+     */
+    it('should return no errors for valid input', () => {
+      expect(getLoanInputErrors({
+        applicantName: 'John',
+        amount: 10000,
+        termMonths: 12,
+        interestRate: 0.05
+      })).toEqual([])
+    })
+
+    /**
+     * Verifies all errors are collected, including non-numeric values.
+     * @test {getLoanInputErrors}
+     */
+    it('should collect every error', () => {
+      expect(getLoanInputErrors({
+        applicantName: ' ',
+        amount: NaN,
+        termMonths: 0,
+        interestRate: NaN
+      })).toEqual([
+        { code: 'applicantNameRequired' },
+        { code: 'amountNotANumber' },
+        { code: 'termNotPositive' },
+        { code: 'rateNotANumber' }
+      ])
+    })
+
+    /**
+     * Verifies the term must be a whole number of months, as the schedule has one row per month.
+     * @test {getLoanInputErrors}
+     */
+    it('should reject a term that is not a whole number of months', () => {
+      const input = { applicantName: 'John', amount: 10000, termMonths: 12.5, interestRate: 0.05 }
+
+      expect(getLoanInputErrors(input)).toEqual([{ code: 'termNotWhole' }])
+      expect(() => createLoanApplication(input)).toThrow('Term months must be a whole number')
+    })
+
+    /**
+     * Verifies the income must be positive and obligations cannot be negative.
+     * @test {getLoanInputErrors}
+     */
+    it('should validate income and obligations', () => {
+      expect(getLoanInputErrors({
+        applicantName: 'John',
+        amount: 10000,
+        termMonths: 12,
+        interestRate: 0.05,
+        monthlyIncome: 0,
+        monthlyObligations: -100
+      })).toEqual([
+        { code: 'incomeNotPositive' },
+        { code: 'obligationsNegative' }
+      ])
+    })
+  })
+
   /**
    * Tests for updateLoanStatus() function.
    * Verifies loan status updates and error handling.
@@ -223,10 +633,12 @@ describe('loanService', () => {
         id: 'test-id',
         applicantName: 'Bob',
         amount: 50000,
+        currency: 'USD',
         termMonths: 24,
         interestRate: 0.08,
-        status: 'pending',
-        createdAt: '2024-01-01T00:00:00.000Z'
+        status: 'submitted',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        revision: 1
       }
       saveLoans([loan])
 
@@ -236,6 +648,80 @@ describe('loanService', () => {
       expect(loans[0]?.status).toBe('approved')
     })
 
+    /**
+     * Verifies illegal transitions throw a typed error and leave the loan unchanged.
+     * @test {updateLoanStatus}
+     */
+    it('throws InvalidStatusTransitionError for illegal transitions', () => {
+      const loan: LoanApplication = {
+        id: 'approved-loan',
+        applicantName: 'Bob',
+        amount: 50000,
+        currency: 'USD',
+        termMonths: 24,
+        interestRate: 0.08,
+        status: 'approved',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        revision: 1
+      }
+      saveLoans([loan])
+
+      expect(() => updateLoanStatus('approved-loan', 'submitted')).toThrow(InvalidStatusTransitionError)
+      expect(() => updateLoanStatus('approved-loan', 'submitted')).toThrow(
+        'Cannot change loan status from approved to submitted'
+      )
+      expect(getLoans()[0]?.status).toBe('approved')
+    })
+
+    /**
+     * Verifies a loan can move through the lifecycle step by step.
+     * @test {updateLoanStatus}
+     */
+    it('allows transitions along the lifecycle', () => {
+      const loan: LoanApplication = {
+        id: 'lifecycle',
+        applicantName: 'Carol',
+        amount: 50000,
+        currency: 'USD',
+        termMonths: 24,
+        interestRate: 0.08,
+        status: 'draft',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        revision: 1
+      }
+      saveLoans([loan])
+
+      updateLoanStatus('lifecycle', 'submitted')
+      updateLoanStatus('lifecycle', 'under_review')
+      updateLoanStatus('lifecycle', 'approved')
+      updateLoanStatus('lifecycle', 'disbursed')
+      updateLoanStatus('lifecycle', 'repaid')
+
+      expect(getLoans()[0]?.status).toBe('repaid')
+    })
+
+    /**
+     * Verifies the disbursement date is recorded so repayments are scheduled from it.
+     * @test {updateLoanStatus}
+     */
+    it('records when a loan is disbursed', () => {
+      saveLoans([{
+        id: 'approved-loan',
+        applicantName: 'Bob',
+        amount: 50000,
+        currency: 'USD',
+        termMonths: 24,
+        interestRate: 0.08,
+        status: 'approved',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        revision: 1
+      }])
+
+      updateLoanStatus('approved-loan', 'disbursed')
+
+      expect(getLoans()[0]?.disbursedAt).toEqual(expect.any(String))
+    })
+
     /**
      * Verifies error is thrown when trying to update non-existent loan.
      * @test {updateLoanStatus}
@@ -249,12 +735,12 @@ describe('loanService', () => {
 
   /**
    * Tests for calculateMonthlyPayment() function.
-   * Verifies monthly payment calculation with simple interest formula.
+   * Verifies monthly payment calculation with the annuity formula.
    */
   describe('calculateMonthlyPayment', () => {
     /**
      * Verifies monthly payment calculation for a standard loan.
-     * Formula: (amount * (1 + interestRate)) / termMonths
+     * Formula: amount * r / (1 - (1 + r)^-termMonths) with r = interestRate / 12
      * @test {calculateMonthlyPayment}
      */
     it('calculates monthly payment correctly for basic case', () => {
@@ -262,16 +748,17 @@ describe('loanService', () => {
         id: '1',
         applicantName: 'Test',
         amount: 10000,
+        currency: 'USD',
         termMonths: 12,
         interestRate: 0.1, // 10%
-        status: 'pending',
-        createdAt: '2024-01-01T00:00:00.000Z'
+        status: 'submitted',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        revision: 1
       }
 
-      // total = 10000 * 1.1 = 11000
-      // monthly = 11000 / 12 = 916.666...
+      // r = 0.1 / 12, monthly = 10000 * r / (1 - (1 + r)^-12) = 879.158...
       const payment = calculateMonthlyPayment(loan)
-      expect(payment).toBeCloseTo(916.67, 1)
+      expect(payment).toBeCloseTo(879.16, 2)
     })
 
     /**
@@ -284,13 +771,14 @@ describe('loanService', () => {
         id: '1',
         applicantName: 'Test',
         amount: 12000,
+        currency: 'USD',
         termMonths: 12,
         interestRate: 0,
-        status: 'pending',
-        createdAt: '2024-01-01T00:00:00.000Z'
+        status: 'submitted',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        revision: 1
       }
 
-      // total = 12000 * 1.0 = 12000
       // monthly = 12000 / 12 = 1000
       const payment = calculateMonthlyPayment(loan)
       expect(payment).toBe(1000)
@@ -306,23 +794,25 @@ describe('loanService', () => {
         id: '1',
         applicantName: 'Test',
         amount: 100000,
+        currency: 'USD',
         termMonths: 60,
         interestRate: 0.08,
-        status: 'pending',
-        createdAt: '2024-01-01T00:00:00.000Z'
+        status: 'submitted',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        revision: 1
       }
 
-      // total = 100000 * 1.08 = 108000
-      // monthly = 108000 / 60 = 1800
+      // r = 0.08 / 12, monthly = 100000 * r / (1 - (1 + r)^-60) = 2027.639...
       const payment = calculateMonthlyPayment(loan)
-      expect(payment).toBe(1800)
+      expect(payment).toBeCloseTo(2027.64, 2)
     })
   })
 
   /**
    * Tests for autoDecideLoan() function.
-   * Verifies automatic loan approval/rejection based on business rules.
-   * Rules: Approve if amount <= 100000 AND termMonths <= 60, otherwise reject.
+   * Verifies automatic loan approval/rejection based on the rule set.
+   * Default rules: Refer if the credit score is below 600, approve if amount <= 100000
+   * AND termMonths <= 60, otherwise reject. Loans given an income score well above the cut-off.
    */
   describe('autoDecideLoan', () => {
     /**
@@ -335,10 +825,13 @@ describe('loanService', () => {
         id: 'auto-test',
         applicantName: 'Auto User',
         amount: 100000,
+        currency: 'USD',
         termMonths: 60,
         interestRate: 0.08,
-        status: 'pending',
-        createdAt: '2024-01-01T00:00:00.000Z'
+        monthlyIncome: 10000,
+        status: 'submitted',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        revision: 1
       }
       saveLoans([loan])
 
@@ -358,10 +851,12 @@ describe('loanService', () => {
         id: 'small-loan',
         applicantName: 'Small Borrower',
         amount: 5000,
+        currency: 'USD',
         termMonths: 6,
         interestRate: 0.05,
-        status: 'pending',
-        createdAt: '2024-01-01T00:00:00.000Z'
+        status: 'submitted',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        revision: 1
       }
       saveLoans([loan])
 
@@ -371,6 +866,41 @@ describe('loanService', () => {
       expect(loans[0]?.status).toBe('approved')
     })
 
+    /**
+     * Verifies loans scored below the default cut-off are referred for a manual decision.
+     * @test {autoDecideLoan}
+     */
+    it('refers loans below the default credit score cut-off', () => {
+      const applicant = createApplicant({ name: 'Thin File', employment: 'student' })
+      const loan = createLoanApplication({
+        applicantName: 'Thin File',
+        applicantId: applicant.id,
+        amount: 12000,
+        termMonths: 12,
+        interestRate: 0.05
+      })
+
+      const decision = autoDecideLoan(loan.id)
+
+      expect(loan.creditScore?.score).toBe(585)
+      expect(decision).toMatchObject({ outcome: 'refer', ruleId: 'score-cutoff' })
+      expect(getLoans()[0]?.status).toBe('under_review')
+    })
+
+    /**
+     * Verifies the default cut-off does not refer loans entered without applicant or income data.
+     * @test {autoDecideLoan}
+     */
+    it('skips the credit score cut-off without applicant or income data', () => {
+      const loan = createLoanApplication({ applicantName: 'Walk In', amount: 12000, termMonths: 12, interestRate: 0.05 })
+
+      const decision = autoDecideLoan(loan.id)
+
+      expect(getLoans()[0]?.creditScore?.score).toBe(590)
+      expect(decision).toMatchObject({ outcome: 'approve', ruleId: 'standard-limits' })
+      expect(decision.checks.find(check => check.ruleId === 'score-cutoff')).toMatchObject({ actual: null, passed: false })
+    })
+
     /**
      * Verifies loan is rejected when amount exceeds maximum limit.
      * Amount > 100000 should result in rejection.
@@ -381,10 +911,13 @@ describe('loanService', () => {
         id: 'big-loan',
         applicantName: 'Big Borrower',
         amount: 150000,
+        currency: 'USD',
         termMonths: 60,
         interestRate: 0.08,
-        status: 'pending',
-        createdAt: '2024-01-01T00:00:00.000Z'
+        monthlyIncome: 10000,
+        status: 'submitted',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        revision: 1
       }
       saveLoans([loan])
 
@@ -404,10 +937,13 @@ describe('loanService', () => {
         id: 'long-loan',
         applicantName: 'Long Term Borrower',
         amount: 50000,
+        currency: 'USD',
         termMonths: 72,
         interestRate: 0.08,
-        status: 'pending',
-        createdAt: '2024-01-01T00:00:00.000Z'
+        monthlyIncome: 10000,
+        status: 'submitted',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        revision: 1
       }
       saveLoans([loan])
 
@@ -427,10 +963,13 @@ describe('loanService', () => {
         id: 'bad-loan',
         applicantName: 'Bad Borrower',
         amount: 200000,
+        currency: 'USD',
         termMonths: 120,
         interestRate: 0.08,
-        status: 'pending',
-        createdAt: '2024-01-01T00:00:00.000Z'
+        monthlyIncome: 10000,
+        status: 'submitted',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        revision: 1
       }
       saveLoans([loan])
 
@@ -440,6 +979,221 @@ describe('loanService', () => {
       expect(loans[0]?.status).toBe('rejected')
     })
 
+    /**
+     * Verifies the decision and the rule set version are recorded on the loan.
+     * @test {autoDecideLoan}
+     */
+    it('records the decision with the rule set version', () => {
+      const loan: LoanApplication = {
+        id: 'recorded',
+        applicantName: 'Recorded Borrower',
+        amount: 5000,
+        currency: 'USD',
+        termMonths: 6,
+        interestRate: 0.05,
+        status: 'submitted',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        revision: 1
+      }
+      saveLoans([loan])
+
+      const decision = autoDecideLoan('recorded')
+
+      const stored = getLoans()[0]
+      expect(decision.outcome).toBe('approve')
+      expect(decision.ruleSetVersion).toBe(3)
+      expect(decision.ruleId).toBe('standard-limits')
+      expect(stored?.decision).toEqual(decision)
+    })
+
+    /**
+     * Verifies a rejection is explained with the failed check and its actual value.
+     * @test {autoDecideLoan}
+     */
+    it('explains a rejection with actual values versus thresholds', () => {
+      const loan: LoanApplication = {
+        id: 'explained',
+        applicantName: 'Explained Borrower',
+        amount: 150000,
+        currency: 'USD',
+        termMonths: 24,
+        interestRate: 0.08,
+        monthlyIncome: 20000,
+        status: 'submitted',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        revision: 1
+      }
+      saveLoans([loan])
+
+      const decision = autoDecideLoan('explained')
+
+      expect(decision.ruleId).toBeNull()
+      expect(decision.checks).toContainEqual(expect.objectContaining({
+        field: 'amount',
+        threshold: 100000,
+        actual: 150000,
+        passed: false
+      }))
+      expect(decision.checks).toContainEqual(expect.objectContaining({
+        field: 'termMonths',
+        threshold: 60,
+        actual: 24,
+        passed: true
+      }))
+    })
+
+    /**
+     * Verifies a configured rule set is used and referred loans are put under review.
+     * @test {autoDecideLoan}
+     */
+    it('uses the current rule set and puts referred loans under review', () => {
+      saveRuleSet({
+        rules: [
+          {
+            id: 'refer-high-rate',
+            name: 'High rate',
+            combinator: 'and',
+            conditions: [{ field: 'interestRate', operator: 'gt', value: 0.15 }],
+            outcome: 'refer'
+          }
+        ],
+        defaultOutcome: 'approve'
+      })
+      const loan: LoanApplication = {
+        id: 'high-rate',
+        applicantName: 'Risky Borrower',
+        amount: 5000,
+        currency: 'USD',
+        termMonths: 6,
+        interestRate: 0.2,
+        status: 'submitted',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        revision: 1
+      }
+      saveLoans([loan])
+
+      const decision = autoDecideLoan('high-rate')
+
+      expect(decision.outcome).toBe('refer')
+      expect(decision.ruleSetVersion).toBe(4)
+      expect(getLoans()[0]?.status).toBe('under_review')
+    })
+
+    /**
+     * Verifies a loan whose installment the applicant cannot afford is referred,
+     * with the ratio recorded on the decision.
+     * Installment 10,000 over 10 months at 0% is 1,000; (500 + 1,000) / 3,000 = 50%.
+     * @test {autoDecideLoan}
+     */
+    it('refers loans above the debt-to-income limit', () => {
+      const loan = createLoanApplication({
+        applicantName: 'Stretched Borrower',
+        amount: 10000,
+        termMonths: 10,
+        interestRate: 0,
+        monthlyIncome: 3000,
+        monthlyObligations: 500
+      })
+
+      const decision = autoDecideLoan(loan.id)
+
+      expect(decision.outcome).toBe('refer')
+      expect(decision.ruleId).toBe('affordability')
+      expect(decision.affordability).toEqual({ installment: 1000, dti: 0.5, disposableIncome: 1500 })
+      expect(decision.checks).toEqual([expect.objectContaining({ field: 'dti', threshold: 0.4, actual: 0.5 })])
+      expect(getLoans()[0]?.status).toBe('under_review')
+    })
+
+    /**
+     * Verifies a loan at the limit goes on to the rules and rules can use the disposable income.
+     * @test {autoDecideLoan}
+     */
+    it('lets rules use the disposable income', () => {
+      saveRuleSet({
+        rules: [{
+          id: 'low-buffer',
+          name: 'Low buffer',
+          combinator: 'and',
+          conditions: [{ field: 'disposableIncome', operator: 'lt', value: 2000 }],
+          outcome: 'reject'
+        }],
+        defaultOutcome: 'approve',
+        affordability: { maxDti: 0.4, outcome: 'reject' }
+      })
+      const loan = createLoanApplication({
+        applicantName: 'Careful Borrower',
+        amount: 12000,
+        termMonths: 10,
+        interestRate: 0,
+        monthlyIncome: 3000
+      })
+
+      const decision = autoDecideLoan(loan.id)
+
+      expect(decision.outcome).toBe('reject')
+      expect(decision.ruleId).toBe('low-buffer')
+      expect(decision.affordability).toEqual({ installment: 1200, dti: 0.4, disposableIncome: 1800 })
+    })
+
+    /**
+     * Verifies rules can decide on credit score cut-offs and the score is updated on the loan.
+     * @test {autoDecideLoan}
+     */
+    it('decides on credit score cut-offs', () => {
+      saveRuleSet({
+        rules: [{
+          id: 'good-score',
+          name: 'Good score',
+          combinator: 'and',
+          conditions: [{ field: 'creditScore', operator: 'gte', value: 650 }],
+          outcome: 'approve'
+        }],
+        defaultOutcome: 'reject'
+      })
+      const applicant = createApplicant({ name: 'Steady Earner', employment: 'employed' })
+      const scored = createLoanApplication({
+        applicantName: 'Steady Earner',
+        applicantId: applicant.id,
+        amount: 12000,
+        termMonths: 12,
+        interestRate: 0,
+        monthlyIncome: 4000
+      })
+      const unscored = createLoanApplication({ applicantName: 'Unknown', amount: 12000, termMonths: 12, interestRate: 0 })
+
+      const approved = autoDecideLoan(scored.id)
+      const rejected = autoDecideLoan(unscored.id)
+
+      expect(approved.outcome).toBe('approve')
+      expect(approved.checks[0]).toMatchObject({ field: 'creditScore', actual: 710, passed: true })
+      expect(rejected.outcome).toBe('reject')
+      expect(rejected.checks[0]).toMatchObject({ field: 'creditScore', actual: null, passed: false })
+      expect(getLoans()[0]?.creditScore).toMatchObject({ score: 710, band: 'B', ruleSetVersion: 4 })
+    })
+
+    /**
+     * Verifies loans that already left the decision stage cannot be auto-decided.
+     * @test {autoDecideLoan}
+     */
+    it('throws error when loan is not awaiting a decision', () => {
+      const loan: LoanApplication = {
+        id: 'already-approved',
+        applicantName: 'Decided Borrower',
+        amount: 5000,
+        currency: 'USD',
+        termMonths: 6,
+        interestRate: 0.05,
+        status: 'approved',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        revision: 1
+      }
+      saveLoans([loan])
+
+      expect(() => autoDecideLoan('already-approved')).toThrow(
+        'Cannot auto-decide a loan with status approved'
+      )
+    })
+
     /**
      * Verifies error is thrown when trying to auto-decide non-existent loan.
      * @test {autoDecideLoan}
@@ -466,19 +1220,23 @@ describe('loanService', () => {
           id: 'loan-1',
           applicantName: 'Alice',
           amount: 10000,
+          currency: 'USD',
           termMonths: 12,
           interestRate: 0.05,
-          status: 'pending',
-          createdAt: '2024-01-01T00:00:00.000Z'
+          status: 'submitted',
+          createdAt: '2024-01-01T00:00:00.000Z',
+          revision: 1
         },
         {
           id: 'loan-2',
           applicantName: 'Bob',
           amount: 20000,
+          currency: 'USD',
           termMonths: 24,
           interestRate: 0.06,
           status: 'approved',
-          createdAt: '2024-01-02T00:00:00.000Z'
+          createdAt: '2024-01-02T00:00:00.000Z',
+          revision: 1
         }
       ]
       saveLoans(loans)
@@ -499,10 +1257,12 @@ describe('loanService', () => {
         id: 'only-loan',
         applicantName: 'Charlie',
         amount: 15000,
+        currency: 'USD',
         termMonths: 18,
         interestRate: 0.07,
-        status: 'pending',
-        createdAt: '2024-01-01T00:00:00.000Z'
+        status: 'submitted',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        revision: 1
       }
       saveLoans([loan])
 
@@ -521,10 +1281,12 @@ describe('loanService', () => {
         id: 'existing-loan',
         applicantName: 'David',
         amount: 25000,
+        currency: 'USD',
         termMonths: 30,
         interestRate: 0.08,
-        status: 'pending',
-        createdAt: '2024-01-01T00:00:00.000Z'
+        status: 'submitted',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        revision: 1
       }
       saveLoans([loan])
 
@@ -543,28 +1305,34 @@ describe('loanService', () => {
           id: 'loan-a',
           applicantName: 'Alice',
           amount: 10000,
+          currency: 'USD',
           termMonths: 12,
           interestRate: 0.05,
-          status: 'pending',
-          createdAt: '2024-01-01T00:00:00.000Z'
+          status: 'submitted',
+          createdAt: '2024-01-01T00:00:00.000Z',
+          revision: 1
         },
         {
           id: 'loan-b',
           applicantName: 'Bob',
           amount: 20000,
+          currency: 'USD',
           termMonths: 24,
           interestRate: 0.06,
           status: 'approved',
-          createdAt: '2024-01-02T00:00:00.000Z'
+          createdAt: '2024-01-02T00:00:00.000Z',
+          revision: 1
         },
         {
           id: 'loan-c',
           applicantName: 'Charlie',
           amount: 30000,
+          currency: 'USD',
           termMonths: 36,
           interestRate: 0.07,
           status: 'rejected',
-          createdAt: '2024-01-03T00:00:00.000Z'
+          createdAt: '2024-01-03T00:00:00.000Z',
+          revision: 1
         }
       ]
       saveLoans(loans)
@@ -576,4 +1344,374 @@ describe('loanService', () => {
       expect(remainingLoans.map(l => l.id)).toEqual(['loan-a', 'loan-c'])
     })
   })
+
+  /**
+   * Tests for the trash: soft deletion, restore, purge and status reverts.
+   */
+  describe('trash', () => {
+    const createLoan = () => createLoanApplication({
+      applicantName: 'Trashy',
+      amount: 10000,
+      termMonths: 12,
+      interestRate: 0.05
+    })
+
+    /**
+     * Verifies deleted loans move to the trash instead of being removed.
+     * @test {getTrashedLoans}
+     */
+    it('moves deleted loans to the trash', () => {
+      const loan = createLoan()
+
+      deleteLoan(loan.id)
+
+      expect(getLoans()).toEqual([])
+      expect(getTrashedLoans()).toHaveLength(1)
+      expect(getTrashedLoans()[0]?.deletedAt).toBeTruthy()
+      expect(() => updateLoanStatus(loan.id, 'approved')).toThrow(`Loan with id ${loan.id} not found`)
+    })
+
+    /**
+     * Verifies restored loans return to the list.
+     * @test {restoreLoan}
+     */
+    it('restores a loan from the trash', () => {
+      const loan = createLoan()
+      deleteLoan(loan.id)
+
+      restoreLoan(loan.id, 2)
+
+      expect(getTrashedLoans()).toEqual([])
+      expect(getLoans()[0]).toMatchObject({ id: loan.id, revision: 3 })
+      expect(getLoans()[0]?.deletedAt).toBeUndefined()
+      expect(getAuditTrail(loan.id).map(e => e.action)).toEqual(['created', 'deleted', 'restored'])
+    })
+
+    /**
+     * Verifies purging removes a trashed loan for good, and only trashed loans.
+     * @test {purgeLoan}
+     */
+    it('purges loans from the trash only', () => {
+      const loan = createLoan()
+
+      expect(() => purgeLoan(loan.id)).toThrow(`Loan with id ${loan.id} not found in trash`)
+
+      deleteLoan(loan.id)
+      purgeLoan(loan.id)
+
+      expect(getTrashedLoans()).toEqual([])
+      expect(getLoans()).toEqual([])
+      expect(getAuditTrail(loan.id).map(e => e.action)).toEqual(['created', 'deleted', 'purged'])
+    })
+
+    /**
+     * Verifies a decision can be reverted while the revision matches.
+     * @test {revertLoanStatus}
+     */
+    it('reverts a status change', () => {
+      const loan = createLoan()
+      updateLoanStatus(loan.id, 'approved')
+
+      expect(() => revertLoanStatus(loan.id, 'submitted', 1)).toThrow(LoanConflictError)
+      revertLoanStatus(loan.id, 'submitted', 2)
+
+      expect(getLoans()[0]).toMatchObject({ status: 'submitted', revision: 3 })
+      expect(getAuditTrail(loan.id)[2]?.changes).toEqual([
+        { field: 'status', before: 'approved', after: 'submitted' }
+      ])
+    })
+
+    /**
+     * Verifies reverting an automatic decision drops the decision and its explanation.
+     * @test {revertLoanStatus}
+     */
+    it('clears the decision when reverting an automatic decision', () => {
+      const loan = createLoan()
+      autoDecideLoan(loan.id)
+
+      revertLoanStatus(loan.id, 'submitted', 2)
+
+      expect(getLoans()[0]).toMatchObject({ status: 'submitted', revision: 3 })
+      expect(getLoans()[0]?.decision).toBeUndefined()
+      expect(getAuditTrail(loan.id)[2]?.changes).toEqual([
+        { field: 'status', before: 'approved', after: 'submitted' },
+        { field: 'decision', before: 'approve', after: null }
+      ])
+    })
+
+    /**
+     * Verifies only a decided loan can be reverted, and only to a status it could be decided in.
+     * @test {revertLoanStatus}
+     */
+    it('refuses reverts outside a decision', () => {
+      const loan = createLoan()
+      updateLoanStatus(loan.id, 'withdrawn')
+
+      expect(() => revertLoanStatus(loan.id, 'submitted', 2)).toThrow(InvalidStatusTransitionError)
+      expect(getLoans()[0]?.status).toBe('withdrawn')
+
+      const approved = createLoan()
+      updateLoanStatus(approved.id, 'approved')
+
+      expect(() => revertLoanStatus(approved.id, 'draft', 2)).toThrow(InvalidStatusTransitionError)
+    })
+  })
+
+  /**
+   * Tests for updateLoan() function.
+   * Verifies editing loan terms with validation and status restrictions.
+   */
+  describe('updateLoan', () => {
+    const editableLoan: LoanApplication = {
+      id: 'edit-me',
+      applicantName: 'Erin',
+      amount: 10000,
+      currency: 'USD',
+      termMonths: 12,
+      interestRate: 0.05,
+      status: 'submitted',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      revision: 1
+    }
+
+    /**
+     * Verifies changed fields are saved.
+     * @test {updateLoan}
+     */
+    it('updates the loan terms', () => {
+      saveLoans([editableLoan])
+
+      const updated = updateLoan('edit-me', { amount: 15000, applicantName: ' Erin Smith ' })
+
+      expect(updated.amount).toBe(15000)
+      expect(updated.applicantName).toBe('Erin Smith')
+      expect(getLoans()[0]?.amount).toBe(15000)
+    })
+
+    /**
+     * Verifies the loan is scored again after an edit.
+     * @test {updateLoan}
+     */
+    it('scores the edited loan', () => {
+      saveLoans([editableLoan])
+
+      const updated = updateLoan('edit-me', { amount: 120000 })
+
+      expect(updated.creditScore).toMatchObject({ score: 570, band: 'D' })
+    })
+
+    /**
+     * Verifies edits are validated with the same rules as creation.
+     * @test {updateLoan}
+     */
+    it('validates the edited data', () => {
+      saveLoans([editableLoan])
+
+      expect(() => updateLoan('edit-me', { amount: 0 })).toThrow('Amount must be greater than 0')
+      expect(getLoans()[0]?.amount).toBe(10000)
+    })
+
+    /**
+     * Verifies decided loans cannot be edited.
+     * @test {updateLoan}
+     */
+    it('throws error when the loan is no longer editable', () => {
+      saveLoans([{ ...editableLoan, status: 'approved' }])
+
+      expect(() => updateLoan('edit-me', { amount: 20000 })).toThrow(
+        'Cannot edit a loan with status approved'
+      )
+    })
+  })
+
+  /**
+   * Tests for recordPayment() function.
+   * Verifies payments are validated, stored and audited.
+   */
+  describe('recordPayment', () => {
+    const disbursedLoan: LoanApplication = {
+      id: 'disbursed',
+      applicantName: 'Dana',
+      amount: 1200,
+      currency: 'USD',
+      termMonths: 12,
+      interestRate: 0,
+      status: 'disbursed',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      disbursedAt: '2024-01-15T00:00:00.000Z',
+      revision: 1
+    }
+
+    afterEach(() => {
+      vi.useRealTimers()
+      vi.unstubAllEnvs()
+    })
+
+    /**
+     * Verifies a payment is stored, increments the revision and is audited.
+     * @test {recordPayment}
+     */
+    it('records a payment', () => {
+      saveLoans([disbursedLoan])
+
+      const payment = recordPayment('disbursed', { amount: 100, paidOn: '2024-02-15' }, 1)
+
+      expect(getLoans()[0]).toMatchObject({ payments: [payment], revision: 2 })
+      expect(getAuditTrail('disbursed')[0]).toMatchObject({
+        action: 'payment_recorded',
+        changes: [{ field: 'paidTotal', before: 0, after: 100 }]
+      })
+    })
+
+    /**
+     * Verifies invalid payments are refused with a validation code and change nothing.
+     * @test {recordPayment}
+     */
+    it('refuses invalid payments', () => {
+      saveLoans([disbursedLoan])
+
+      expect(() => recordPayment('disbursed', { amount: 0, paidOn: '2024-02-15' })).toThrow(ValidationError)
+      expect(() => recordPayment('disbursed', { amount: 100, paidOn: 'not a date' })).toThrow(
+        'Payment date must be a valid date that is not in the future'
+      )
+      expect(() => recordPayment('disbursed', { amount: 100, paidOn: '2999-01-01' })).toThrow(ValidationError)
+      expect(() => recordPayment('disbursed', { amount: 1200.01, paidOn: '2024-02-15' })).toThrow(
+        expect.objectContaining({ code: 'paymentExceedsBalance', params: { balance: 1200 } })
+      )
+      expect(getLoans()[0]?.payments).toBeUndefined()
+    })
+
+    /**
+     * Verifies today's local date is accepted after UTC midnight has not yet passed.
+     * @test {recordPayment}
+     */
+    it('accepts payments dated on the local day', () => {
+      vi.stubEnv('TZ', 'Europe/Prague')
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(new Date('2024-02-15T23:30:00.000Z'))
+      saveLoans([disbursedLoan])
+
+      expect(recordPayment('disbursed', { amount: 100, paidOn: '2024-02-16' }).paidOn).toBe('2024-02-16')
+      expect(() => recordPayment('disbursed', { amount: 100, paidOn: '2024-02-17' })).toThrow(ValidationError)
+    })
+
+    /**
+     * Verifies payments are only recorded on loans being repaid.
+     * @test {recordPayment}
+     */
+    it('refuses payments on loans that are not being repaid', () => {
+      saveLoans([{ ...disbursedLoan, status: 'approved' }])
+
+      expect(() => recordPayment('disbursed', { amount: 100, paidOn: '2024-02-15' })).toThrow(
+        'Cannot record a payment on a loan with status approved'
+      )
+    })
+  })
+
+  /**
+   * Tests for loan revisions and optimistic concurrency.
+   * Verifies revisions are incremented and stale writes are refused.
+   */
+  describe('revisions', () => {
+    const createLoan = () => createLoanApplication({
+      applicantName: 'Rev',
+      amount: 10000,
+      termMonths: 12,
+      interestRate: 0.05
+    })
+
+    /**
+     * Verifies every change increments the loan revision.
+     * @test {updateLoan}
+     */
+    it('increments the revision on every change', () => {
+      const loan = createLoan()
+      expect(loan.revision).toBe(1)
+
+      updateLoan(loan.id, { amount: 12000 }, 1)
+      updateLoanStatus(loan.id, 'under_review', 2)
+      autoDecideLoan(loan.id, 3)
+
+      expect(getLoans()[0]?.revision).toBe(4)
+    })
+
+    /**
+     * Verifies edits without changes keep the revision.
+     * @test {updateLoan}
+     */
+    it('keeps the revision when nothing changed', () => {
+      const loan = createLoan()
+
+      updateLoan(loan.id, { amount: 10000 })
+
+      expect(getLoans()[0]?.revision).toBe(1)
+    })
+
+    /**
+     * Verifies writes based on an outdated revision are refused and change nothing.
+     * @test {LoanConflictError}
+     */
+    it('throws LoanConflictError for a stale revision', () => {
+      const loan = createLoan()
+      updateLoan(loan.id, { amount: 12000 })
+
+      expect(() => updateLoan(loan.id, { amount: 15000 }, 1)).toThrow(LoanConflictError)
+      expect(() => updateLoanStatus(loan.id, 'approved', 1)).toThrow(LoanConflictError)
+      expect(() => autoDecideLoan(loan.id, 1)).toThrow(LoanConflictError)
+      expect(() => deleteLoan(loan.id, 1)).toThrow(
+        `Loan ${loan.id} was changed elsewhere (expected revision 1, found 2)`
+      )
+      expect(getLoans()[0]).toMatchObject({ amount: 12000, status: 'submitted', revision: 2 })
+    })
+  })
+
+  /**
+   * Tests for the audit trail written by loan operations.
+   * Verifies creation, edits, status changes, auto-decisions and deletions are recorded.
+   */
+  describe('audit trail', () => {
+    /**
+     * Verifies every change to a loan is appended to its audit trail.
+     * @test {getAuditTrail}
+     */
+    it('records creation, edits, status changes and deletion', () => {
+      const loan = createLoanApplication({
+        applicantName: 'Audited',
+        amount: 10000,
+        termMonths: 12,
+        interestRate: 0.05,
+        monthlyIncome: 10000
+      })
+
+      updateLoan(loan.id, { amount: 12000 })
+      updateLoanStatus(loan.id, 'under_review')
+      autoDecideLoan(loan.id)
+      deleteLoan(loan.id)
+
+      const trail = getAuditTrail(loan.id)
+      expect(trail.map(e => e.action)).toEqual(['created', 'edited', 'status_changed', 'auto_decided', 'deleted'])
+      expect(trail[0]?.changes).toContainEqual({ field: 'amount', before: null, after: 10000 })
+      expect(trail[1]?.changes).toEqual([{ field: 'amount', before: 10000, after: 12000 }])
+      expect(trail[2]?.changes).toEqual([{ field: 'status', before: 'submitted', after: 'under_review' }])
+      expect(trail[3]?.changes).toContainEqual({ field: 'status', before: 'under_review', after: 'approved' })
+      expect(trail[4]?.changes[0]).toMatchObject({ field: 'deletedAt', before: null })
+    })
+
+    /**
+     * Verifies edits without actual changes are not recorded.
+     * @test {updateLoan}
+     */
+    it('does not record edits that change nothing', () => {
+      const loan = createLoanApplication({
+        applicantName: 'Unchanged',
+        amount: 10000,
+        termMonths: 12,
+        interestRate: 0.05
+      })
+
+      updateLoan(loan.id, { amount: 10000 })
+
+      expect(getAuditTrail(loan.id)).toHaveLength(1)
+    })
+  })
 })
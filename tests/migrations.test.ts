@@ -0,0 +1,152 @@
+/**
+ * @fileoverview Unit tests for the loan storage schema migrations.
+ * Tests schema version detection, each migration step and failure handling.
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  LOANS_SCHEMA_VERSION,
+  MIGRATIONS,
+  getSchemaVersion,
+  migrateLoans
+} from '../src/services/migrations'
+import { SchemaMigrationError } from '../src/services/errors'
+
+/**
+ * Loan record as written before the lifecycle statuses existed (schema v1)
+ */
+const v1Loan = {
+  id: 'legacy',
+  applicantName: 'Legacy Borrower',
+  amount: 1000,
+  termMonths: 12,
+  interestRate: 0.05,
+  status: 'pending',
+  createdAt: '2024-01-01T00:00:00.000Z'
+}
+
+describe('migrations', () => {
+  /**
+   * Tests for getSchemaVersion() function.
+   */
+  describe('getSchemaVersion', () => {
+    /**
+     * Verifies unversioned payloads (bare arrays) are treated as version 1.
+     * @test {getSchemaVersion}
+     */
+    it('treats a bare array as version 1', () => {
+      expect(getSchemaVersion([])).toBe(1)
+    })
+
+    /**
+     * Verifies the version is read from a versioned payload.
+     * @test {getSchemaVersion}
+     */
+    it('reads the version from a payload', () => {
+      expect(getSchemaVersion({ schemaVersion: 2, loans: [] })).toBe(2)
+    })
+
+    /**
+     * Verifies payloads without a valid version are rejected.
+     * @test {getSchemaVersion}
+     */
+    it('throws for payloads without a valid version', () => {
+      expect(() => getSchemaVersion({ loans: [] })).toThrow(SchemaMigrationError)
+      expect(() => getSchemaVersion({ schemaVersion: 'two', loans: [] })).toThrow(SchemaMigrationError)
+      expect(() => getSchemaVersion(null)).toThrow(SchemaMigrationError)
+    })
+  })
+
+  /**
+   * Tests for the individual migration steps.
+   */
+  describe('MIGRATIONS', () => {
+    /**
+     * Verifies there is a migration for every version below the current one.
+     * @test {MIGRATIONS}
+     */
+    it('has a step for every older version', () => {
+      for (let version = 1; version < LOANS_SCHEMA_VERSION; version++) {
+        expect(MIGRATIONS[version]).toBeTypeOf('function')
+      }
+    })
+
+    /**
+     * Verifies v1 -> v2 maps 'pending' to 'submitted' and keeps other statuses.
+     * @test {MIGRATIONS}
+     */
+    it('v1 -> v2 maps pending loans to submitted', () => {
+      const migrated = MIGRATIONS[1]!([v1Loan, { ...v1Loan, id: 'done', status: 'approved' }])
+
+      expect(migrated[0]).toEqual({ ...v1Loan, status: 'submitted' })
+      expect(migrated[1]).toMatchObject({ status: 'approved' })
+    })
+
+    /**
+     * Verifies v2 -> v3 gives every loan an initial revision.
+     * @test {MIGRATIONS}
+     */
+    it('v2 -> v3 adds the first revision', () => {
+      const migrated = MIGRATIONS[2]!([{ ...v1Loan, status: 'submitted' }, { ...v1Loan, revision: 4 }])
+
+      expect(migrated[0]).toMatchObject({ revision: 1 })
+      expect(migrated[1]).toMatchObject({ revision: 4 })
+    })
+
+    /**
+     * Verifies v3 -> v4 puts loans without a currency in USD.
+     * @test {MIGRATIONS}
+     */
+    it('v3 -> v4 defaults the currency to USD', () => {
+      const migrated = MIGRATIONS[3]!([{ ...v1Loan, revision: 1 }, { ...v1Loan, currency: 'EUR' }])
+
+      expect(migrated[0]).toMatchObject({ currency: 'USD' })
+      expect(migrated[1]).toMatchObject({ currency: 'EUR' })
+    })
+  })
+
+  /**
+   * Tests for migrateLoans() function.
+   */
+  describe('migrateLoans', () => {
+    /**
+     * Verifies an unversioned payload is upgraded to the current version.
+     * @test {migrateLoans}
+     */
+    it('upgrades a v1 payload to the current version', () => {
+      const payload = migrateLoans([v1Loan])
+
+      expect(payload.schemaVersion).toBe(LOANS_SCHEMA_VERSION)
+      expect(payload.loans[0]).toMatchObject({ status: 'submitted', revision: 1, currency: 'USD' })
+    })
+
+    /**
+     * Verifies current payloads are returned unchanged.
+     * @test {migrateLoans}
+     */
+    it('returns current payloads unchanged', () => {
+      const loans = [{ ...v1Loan, status: 'approved' }]
+
+      expect(migrateLoans({ schemaVersion: LOANS_SCHEMA_VERSION, loans })).toEqual({
+        schemaVersion: LOANS_SCHEMA_VERSION,
+        loans
+      })
+    })
+
+    /**
+     * Verifies data written by a newer build is rejected.
+     * @test {migrateLoans}
+     */
+    it('throws for a newer schema version', () => {
+      expect(() => migrateLoans({ schemaVersion: LOANS_SCHEMA_VERSION + 1, loans: [] }))
+        .toThrow(/newer than supported/)
+    })
+
+    /**
+     * Verifies a payload without a list of loans is rejected.
+     * @test {migrateLoans}
+     */
+    it('throws when the loans are missing', () => {
+      expect(() => migrateLoans({ schemaVersion: LOANS_SCHEMA_VERSION })).toThrow(SchemaMigrationError)
+    })
+  })
+})
@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Unit tests for the prepaymentService module.
+ * Tests revised schedules with extra payments under the "shorten term" and
+ * "reduce installment" strategies, and the interest saved.
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  buildPrepaymentSchedule,
+  comparePrepayment,
+  getPlannedPrepayment
+} from '../src/services/prepaymentService'
+import { buildAmortizationSchedule } from '../src/services/amortization'
+
+/**
+ * Test suite for prepaymentService module.
+ */
+describe('prepaymentService', () => {
+  const loan = { amount: 10000, interestRate: 0.1, termMonths: 12 }
+
+  /**
+   * Tests for getPlannedPrepayment() function.
+   */
+  describe('getPlannedPrepayment', () => {
+    /**
+     * Verifies one-off, monthly and yearly prepayments start with the chosen installment.
+     * @test {getPlannedPrepayment}
+     */
+    it('plans prepayments from the start month', () => {
+      expect([2, 3, 4].map(month => getPlannedPrepayment({ amount: 500, frequency: 'once', startMonth: 3 }, month)))
+        .toEqual([0, 500, 0])
+      expect([2, 3, 4].map(month => getPlannedPrepayment({ amount: 500, frequency: 'monthly', startMonth: 3 }, month)))
+        .toEqual([0, 500, 500])
+      expect([3, 14, 15].map(month => getPlannedPrepayment({ amount: 500, frequency: 'yearly', startMonth: 3 }, month)))
+        .toEqual([500, 0, 500])
+    })
+  })
+
+  /**
+   * Tests for buildPrepaymentSchedule() function.
+   */
+  describe('buildPrepaymentSchedule', () => {
+    /**
+     * Verifies the schedule matches the amortization schedule without prepayments.
+     * @test {buildPrepaymentSchedule}
+     */
+    it('matches the original schedule without prepayments', () => {
+      const schedule = buildPrepaymentSchedule(loan, { amount: 0, frequency: 'once', startMonth: 1 }, 'shorten_term')
+
+      expect(schedule.map(row => row.prepayment)).toEqual(new Array(12).fill(0))
+      expect(schedule).toMatchObject(buildAmortizationSchedule(10000, 0.1, 12))
+    })
+
+    /**
+     * Verifies a prepayment keeps the installment and ends the loan sooner.
+     * @test {buildPrepaymentSchedule}
+     */
+    it('shortens the term', () => {
+      const schedule = buildPrepaymentSchedule(loan, { amount: 2000, frequency: 'once', startMonth: 3 }, 'shorten_term')
+
+      expect(schedule).toHaveLength(10)
+      expect(schedule[2]).toMatchObject({ payment: 879.16, prepayment: 2000, balance: 5592.56 })
+      expect(schedule[3]?.payment).toBe(879.16)
+      expect(schedule[9]).toMatchObject({ payment: 496.09, balance: 0 })
+    })
+
+    /**
+     * Verifies a prepayment lowers the installment over the remaining term.
+     * @test {buildPrepaymentSchedule}
+     */
+    it('reduces the installment', () => {
+      const schedule = buildPrepaymentSchedule(loan, { amount: 2000, frequency: 'once', startMonth: 3 }, 'reduce_installment')
+
+      expect(schedule).toHaveLength(12)
+      expect(schedule[3]?.payment).toBe(647.57)
+      expect(schedule[11]?.balance).toBe(0)
+    })
+
+    /**
+     * Verifies prepayments never exceed the remaining balance.
+     * @test {buildPrepaymentSchedule}
+     */
+    it('stops prepaying once the loan is paid off', () => {
+      const schedule = buildPrepaymentSchedule(
+        { amount: 1200, interestRate: 0, termMonths: 12 },
+        { amount: 600, frequency: 'monthly', startMonth: 1 },
+        'shorten_term'
+      )
+
+      expect(schedule.map(row => row.prepayment)).toEqual([600, 400])
+      expect(schedule[1]?.balance).toBe(0)
+    })
+  })
+
+  /**
+   * Tests for comparePrepayment() function.
+   */
+  describe('comparePrepayment', () => {
+    /**
+     * Verifies both strategies are compared with the original schedule.
+     * @test {comparePrepayment}
+     */
+    it('compares the strategies with the original schedule', () => {
+      const comparison = comparePrepayment(loan, { amount: 2000, frequency: 'once', startMonth: 3 })
+
+      expect(comparison.original).toEqual({ installment: 879.16, termMonths: 12, totalInterest: 549.89 })
+      expect(comparison.scenarios.shorten_term).toMatchObject({
+        installment: 879.16,
+        termMonths: 10,
+        totalInterest: 408.53,
+        totalPrepaid: 2000,
+        interestSaved: 141.36
+      })
+      expect(comparison.scenarios.reduce_installment).toMatchObject({
+        installment: 647.57,
+        termMonths: 12,
+        interestSaved: 84.25
+      })
+    })
+  })
+})
@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Unit tests for the productService module.
+ * Tests the loan product catalog and checking loan terms against
+ * a product's limits.
+ */
+import { describe, it, expect } from 'vitest'
+import { LOAN_PRODUCTS, getAmountLimits, getProduct, getProductErrors, isProductId } from '../src/services/productService'
+
+/**
+ * Test suite for productService module.
+ */
+describe('productService', () => {
+  /**
+   * Tests for the product catalog.
+   */
+  describe('catalog', () => {
+    /**
+     * Verifies products are found by ID and unknown IDs are refused.
+     * @test {getProduct}
+     */
+    it('finds products by ID', () => {
+      expect(getProduct('mortgage')?.terms).toContain(360)
+      expect(getProduct('yacht')).toBeUndefined()
+      expect(isProductId('auto')).toBe(true)
+      expect(isProductId('yacht')).toBe(false)
+    })
+
+    /**
+     * Verifies every product's default rate lies within its rate range.
+     * @test {LOAN_PRODUCTS}
+     */
+    it('offers a default rate within the range of every product', () => {
+      LOAN_PRODUCTS.forEach(product => {
+        expect(product.defaultRate).toBeGreaterThanOrEqual(product.minRate)
+        expect(product.defaultRate).toBeLessThanOrEqual(product.maxRate)
+      })
+    })
+  })
+
+  /**
+   * Tests for getProductErrors() function.
+   */
+  describe('getProductErrors', () => {
+    const personal = LOAN_PRODUCTS[0]!
+
+    /**
+     * Verifies terms within the limits, including the bounds, are accepted.
+     * @test {getProductErrors}
+     */
+    it('accepts terms within the limits', () => {
+      expect(getProductErrors(personal, { amount: 1000, termMonths: 12, interestRate: 0.06 })).toEqual([])
+      expect(getProductErrors(personal, { amount: 50000, termMonths: 60, interestRate: 0.18 })).toEqual([])
+    })
+
+    /**
+     * Verifies the amount is checked against the limits for the loan's currency.
+     * @test {getProductErrors}
+     */
+    it('checks the amount in the loan currency', () => {
+      expect(getProductErrors(personal, { amount: 500000, currency: 'CZK', termMonths: 12, interestRate: 0.06 })).toEqual([])
+      expect(getProductErrors(personal, { amount: 50000, currency: 'EUR', termMonths: 12, interestRate: 0.06 })).toEqual([
+        { code: 'amountOutsideProduct', params: { min: 1000, max: 45000, currency: 'EUR' } }
+      ])
+      expect(getAmountLimits(personal, 'CZK')).toEqual({ min: 25000, max: 1250000 })
+    })
+
+    /**
+     * Verifies every limit that is exceeded is reported.
+     * @test {getProductErrors}
+     */
+    it('reports every limit exceeded', () => {
+      expect(getProductErrors(personal, { amount: 60000, termMonths: 18, interestRate: 0.2 })).toEqual([
+        { code: 'amountOutsideProduct', params: { min: 1000, max: 50000, currency: 'USD' } },
+        { code: 'termNotOffered', params: { terms: '12, 24, 36, 48, 60' } },
+        { code: 'rateOutsideProduct', params: { min: 0.06, max: 0.18 } }
+      ])
+    })
+  })
+})
@@ -0,0 +1,168 @@
+/**
+ * @fileoverview Unit tests for the quarantineService module.
+ * Tests runtime validation of stored loan records and the quarantine
+ * area for records that fail it.
+ */
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  findInvalidLoanFields,
+  getQuarantinedLoans,
+  quarantineRecords,
+  discardQuarantinedLoan,
+  discardAllQuarantinedLoans
+} from '../src/services/quarantineService'
+
+/**
+ * A stored record matching the LoanApplication shape
+ */
+const validRecord = {
+  id: 'loan-1',
+  applicantName: 'John Doe',
+  amount: 50000,
+  currency: 'USD',
+  termMonths: 24,
+  interestRate: 0.08,
+  status: 'submitted',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  revision: 1
+}
+
+/**
+ * Test suite for quarantineService module.
+ */
+describe('quarantineService', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  /**
+   * Tests for findInvalidLoanFields() function.
+   */
+  describe('findInvalidLoanFields', () => {
+    /**
+     * Verifies a well-formed record has no invalid fields.
+     * @test {findInvalidLoanFields}
+     */
+    it('accepts a valid record', () => {
+      expect(findInvalidLoanFields(validRecord)).toEqual([])
+    })
+
+    /**
+     * Verifies every malformed field is reported.
+     * @test {findInvalidLoanFields}
+     */
+    it('lists every invalid field', () => {
+      const record = {
+        ...validRecord,
+        amount: '50000',
+        currency: 'GBP',
+        termMonths: 0,
+        status: 'lost',
+        createdAt: 'yesterday',
+        revision: 1
+      }
+
+      expect(findInvalidLoanFields(record)).toEqual(['amount', 'currency', 'termMonths', 'status', 'createdAt'])
+      // Only new input must be in whole months
+      expect(findInvalidLoanFields({ ...validRecord, termMonths: 12.5 })).toEqual([])
+    })
+
+    /**
+     * Verifies a malformed decision is reported and a valid one accepted.
+     * @test {findInvalidLoanFields}
+     */
+    it('validates the optional decision', () => {
+      expect(findInvalidLoanFields({ ...validRecord, decision: 'approve' })).toEqual(['decision'])
+      expect(findInvalidLoanFields({ ...validRecord, decision: { outcome: 'approve', checks: [] } })).toEqual([])
+    })
+
+    /**
+     * Verifies the optional income and obligations are checked when present.
+     * @test {findInvalidLoanFields}
+     */
+    it('validates the optional affordability fields', () => {
+      expect(findInvalidLoanFields({ ...validRecord, monthlyIncome: 0, monthlyObligations: -1 }))
+        .toEqual(['monthlyIncome', 'monthlyObligations'])
+      expect(findInvalidLoanFields({ ...validRecord, monthlyIncome: 4000, monthlyObligations: 0 })).toEqual([])
+    })
+
+    /**
+     * Verifies the optional product must be in the catalog.
+     * @test {findInvalidLoanFields}
+     */
+    it('validates the optional product', () => {
+      expect(findInvalidLoanFields({ ...validRecord, productId: 'yacht' })).toEqual(['productId'])
+      expect(findInvalidLoanFields({ ...validRecord, productId: 'mortgage' })).toEqual([])
+    })
+
+    /**
+     * Verifies the optional credit score needs a numeric score and a known band.
+     * @test {findInvalidLoanFields}
+     */
+    it('validates the optional credit score', () => {
+      expect(findInvalidLoanFields({ ...validRecord, creditScore: { score: '700', band: 'B' } })).toEqual(['creditScore'])
+      expect(findInvalidLoanFields({ ...validRecord, creditScore: { score: 700, band: 'Z' } })).toEqual(['creditScore'])
+      expect(findInvalidLoanFields({ ...validRecord, creditScore: { score: 700, band: 'B', contributions: [] } })).toEqual([])
+    })
+
+    /**
+     * Verifies the optional repayment fields need a date and positive dated payments.
+     * @test {findInvalidLoanFields}
+     */
+    it('validates the optional repayment fields', () => {
+      const payment = { id: 'p1', amount: 100, paidOn: '2024-02-15', recordedAt: '2024-02-15T12:00:00.000Z' }
+
+      expect(findInvalidLoanFields({ ...validRecord, disbursedAt: 'soon' })).toEqual(['disbursedAt'])
+      expect(findInvalidLoanFields({ ...validRecord, payments: [{ ...payment, amount: -5 }] })).toEqual(['payments'])
+      expect(findInvalidLoanFields({ ...validRecord, payments: payment })).toEqual(['payments'])
+      expect(findInvalidLoanFields({ ...validRecord, disbursedAt: '2024-01-15T00:00:00.000Z', payments: [payment] }))
+        .toEqual([])
+    })
+
+    /**
+     * Verifies values that are not objects are rejected as a whole.
+     * @test {findInvalidLoanFields}
+     */
+    it('rejects non-object records', () => {
+      expect(findInvalidLoanFields(null)).toEqual(['record'])
+      expect(findInvalidLoanFields([validRecord])).toEqual(['record'])
+    })
+  })
+
+  /**
+   * Tests for the quarantine area.
+   */
+  describe('quarantine', () => {
+    /**
+     * Verifies records are kept with their reason and a timestamp.
+     * @test {quarantineRecords}
+     */
+    it('stores quarantined records', () => {
+      quarantineRecords([{ record: { id: 'x' }, reason: 'Invalid fields: amount' }])
+
+      const entries = getQuarantinedLoans()
+      expect(entries).toHaveLength(1)
+      expect(entries[0]?.record).toEqual({ id: 'x' })
+      expect(entries[0]?.reason).toBe('Invalid fields: amount')
+      expect(entries[0]?.quarantinedAt).toBeTruthy()
+    })
+
+    /**
+     * Verifies entries can be discarded one at a time or all at once.
+     * @test {discardQuarantinedLoan}
+     */
+    it('discards entries', () => {
+      const [first] = quarantineRecords([
+        { record: 1, reason: 'a' },
+        { record: 2, reason: 'b' }
+      ])
+
+      discardQuarantinedLoan(first!.id)
+      expect(getQuarantinedLoans().map(entry => entry.record)).toEqual([2])
+
+      discardAllQuarantinedLoans()
+      expect(getQuarantinedLoans()).toEqual([])
+      expect(localStorage.getItem('tredgate_loans_quarantine')).toBeNull()
+    })
+  })
+})
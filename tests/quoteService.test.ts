@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Unit tests for the quoteService module.
+ * Tests quotes of loan terms and the alternative terms and amounts offered next to them.
+ */
+import { describe, it, expect } from 'vitest'
+import { getAlternativeQuotes, quoteLoan } from '../src/services/quoteService'
+import { getProduct } from '../src/services/productService'
+
+/**
+ * Test suite for quoteService module.
+ */
+describe('quoteService', () => {
+  /**
+   * Tests for quoteLoan() function.
+   */
+  describe('quoteLoan', () => {
+    /**
+     * Verifies the installment and totals match the repayment schedule.
+     * @test {quoteLoan}
+     */
+    it('calculates the installment and totals', () => {
+      expect(quoteLoan({ amount: 10000, termMonths: 12, interestRate: 0.1 })).toEqual({
+        amount: 10000,
+        termMonths: 12,
+        interestRate: 0.1,
+        installment: 879.16,
+        totalRepayable: 10549.89,
+        totalInterest: 549.89
+      })
+    })
+  })
+
+  /**
+   * Tests for getAlternativeQuotes() function.
+   */
+  describe('getAlternativeQuotes', () => {
+    /**
+     * Verifies custom terms get a year less and more and an amount 20% lower and higher.
+     * @test {getAlternativeQuotes}
+     */
+    it('offers a shorter and longer term and a lower and higher amount', () => {
+      const quotes = getAlternativeQuotes({ amount: 10000, termMonths: 24, interestRate: 0.1 })
+
+      expect(quotes.map(quote => [quote.amount, quote.termMonths])).toEqual([
+        [10000, 12],
+        [10000, 36],
+        [8000, 24],
+        [12000, 24]
+      ])
+      expect(quotes[0]?.installment).toBe(879.16)
+    })
+
+    /**
+     * Verifies terms shorter than a month are left out.
+     * @test {getAlternativeQuotes}
+     */
+    it('leaves out terms shorter than a month', () => {
+      const quotes = getAlternativeQuotes({ amount: 1000, termMonths: 6, interestRate: 0 })
+
+      expect(quotes.map(quote => [quote.amount, quote.termMonths])).toEqual([
+        [1000, 18],
+        [800, 6],
+        [1200, 6]
+      ])
+    })
+
+    /**
+     * Verifies alternatives stay within the terms and amount limits of a product.
+     * @test {getAlternativeQuotes}
+     */
+    it('keeps to the product', () => {
+      const quotes = getAlternativeQuotes({ amount: 48000, termMonths: 12, interestRate: 0.09 }, getProduct('personal'))
+
+      expect(quotes.map(quote => [quote.amount, quote.termMonths])).toEqual([
+        [48000, 24],
+        [38400, 12],
+        [50000, 12]
+      ])
+      expect(getAlternativeQuotes({ amount: 48000, termMonths: 12, interestRate: 0.09 }, getProduct('personal'), 'EUR')
+        .map(quote => quote.amount)).toEqual([48000, 38400, 45000])
+    })
+  })
+})
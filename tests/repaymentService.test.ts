@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Unit tests for the repaymentService module.
+ * Tests due dates, how payments cover the installments, the
+ * detection of overdue installments and the outstanding balance.
+ */
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { addMonths, getRepaymentBalance, getRepaymentStart, getRepaymentStatus, toLocalDay } from '../src/services/repaymentService'
+import type { LoanApplication, LoanPayment } from '../src/types/loan'
+
+/**
+ * Test suite for repaymentService module.
+ */
+describe('repaymentService', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  /**
+   * Helper to build a disbursed loan with the given payments.
+   * @param payments - Amounts paid, in order
+   * @param overrides - Partial loan properties to override defaults
+   * @returns Complete LoanApplication object
+   */
+  const createLoan = (payments: number[] = [], overrides: Partial<LoanApplication> = {}): LoanApplication => ({
+    id: 'loan-1',
+    applicantName: 'Jane Smith',
+    amount: 1200,
+    currency: 'USD',
+    termMonths: 12,
+    interestRate: 0,
+    status: 'disbursed',
+    createdAt: '2024-01-02T09:00:00.000Z',
+    disbursedAt: '2024-01-15T10:00:00.000Z',
+    payments: payments.map((amount, index): LoanPayment => ({
+      id: `payment-${index}`,
+      amount,
+      paidOn: '2024-02-15',
+      recordedAt: '2024-02-15T12:00:00.000Z'
+    })),
+    revision: 1,
+    ...overrides
+  })
+
+  /**
+   * Tests for due dates.
+   */
+  describe('due dates', () => {
+    /**
+     * Verifies months are added, keeping to the end of shorter months.
+     * @test {addMonths}
+     */
+    it('adds months to a date', () => {
+      expect(addMonths('2024-01-15', 1)).toBe('2024-02-15')
+      expect(addMonths('2024-01-31', 1)).toBe('2024-02-29')
+      expect(addMonths('2024-11-30', 3)).toBe('2025-02-28')
+    })
+
+    /**
+     * Verifies the schedule starts on disbursement, or on creation for older loans.
+     * @test {getRepaymentStart}
+     */
+    it('starts the schedule on disbursement', () => {
+      expect(getRepaymentStart(createLoan())).toBe('2024-01-15')
+      expect(getRepaymentStart(createLoan([], { disbursedAt: undefined }))).toBe('2024-01-02')
+      expect(getRepaymentStatus(createLoan()).installments[0]?.dueDate).toBe('2024-02-15')
+    })
+  })
+
+  /**
+   * Tests for getRepaymentStatus() function.
+   */
+  describe('getRepaymentStatus', () => {
+    /**
+     * Verifies payments cover the installments in order and unpaid past installments are overdue.
+     * @test {getRepaymentStatus}
+     */
+    it('detects overdue installments', () => {
+      const status = getRepaymentStatus(createLoan([150]), new Date('2024-04-20T12:00:00.000Z'))
+
+      expect(status.paidTotal).toBe(150)
+      expect(status.outstandingPrincipal).toBe(1050)
+      expect(status.nextDue).toMatchObject({ month: 2, dueDate: '2024-03-15', paid: 50 })
+      expect(status.overdueAmount).toBe(150)
+      expect(status.daysPastDue).toBe(36)
+    })
+
+    /**
+     * Verifies nothing is overdue before the first due date has passed.
+     * @test {getRepaymentStatus}
+     */
+    it('is not overdue on the due date', () => {
+      const status = getRepaymentStatus(createLoan(), new Date('2024-02-15T20:00:00.000Z'))
+
+      expect(status.overdueAmount).toBe(0)
+      expect(status.daysPastDue).toBe(0)
+    })
+
+    /**
+     * Verifies days are local calendar days, so installments fall overdue at local midnight.
+     * @test {getRepaymentStatus}
+     */
+    it('counts local days', () => {
+      vi.stubEnv('TZ', 'Europe/Prague')
+
+      expect(toLocalDay(new Date('2024-02-15T23:30:00.000Z'))).toBe('2024-02-16')
+      expect(getRepaymentStart(createLoan([], { disbursedAt: '2024-01-14T23:30:00.000Z' }))).toBe('2024-01-15')
+      expect(getRepaymentStatus(createLoan(), new Date('2024-02-15T22:30:00.000Z')).daysPastDue).toBe(0)
+      expect(getRepaymentStatus(createLoan(), new Date('2024-02-15T23:30:00.000Z')).daysPastDue).toBe(1)
+    })
+
+    /**
+     * Verifies payments cover the interest of an installment before its principal.
+     * @test {getRepaymentStatus}
+     */
+    it('covers interest before principal', () => {
+      const status = getRepaymentStatus(createLoan([5], { amount: 1000, interestRate: 0.12, termMonths: 2 }))
+
+      expect(status.outstandingPrincipal).toBe(1000)
+      expect(status.outstandingInterest).toBe(10.02)
+    })
+
+    /**
+     * Verifies a fully paid loan has no next installment.
+     * @test {getRepaymentStatus}
+     */
+    it('reports a paid-off loan', () => {
+      const status = getRepaymentStatus(createLoan([600, 600]), new Date('2026-01-01T00:00:00.000Z'))
+
+      expect(status.outstandingPrincipal).toBe(0)
+      expect(status.nextDue).toBeNull()
+      expect(status.daysPastDue).toBe(0)
+    })
+  })
+
+  /**
+   * Tests for getRepaymentBalance() function.
+   */
+  describe('getRepaymentBalance', () => {
+    /**
+     * Verifies the balance and next due date agree with the full repayment status.
+     * @test {getRepaymentBalance}
+     */
+    it('matches the repayment status', () => {
+      const loans = [
+        createLoan(),
+        createLoan([250]),
+        createLoan([5], { amount: 1000, interestRate: 0.12, termMonths: 2 }),
+        createLoan([600, 600])
+      ]
+
+      loans.forEach(loan => {
+        const status = getRepaymentStatus(loan)
+        expect(getRepaymentBalance(loan)).toEqual({
+          outstandingPrincipal: status.outstandingPrincipal,
+          nextDueDate: status.nextDue?.dueDate ?? null
+        })
+      })
+      expect(getRepaymentBalance(loans[1] as LoanApplication).nextDueDate).toBe('2024-04-15')
+    })
+  })
+})
@@ -0,0 +1,340 @@
+/**
+ * @fileoverview Unit tests for the ruleService module.
+ * Tests rule set storage and versioning, condition operators,
+ * AND/OR combination and first-match rule evaluation.
+ */
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  AFFORDABILITY_RULE_ID,
+  DEFAULT_AFFORDABILITY,
+  DEFAULT_RULE_SET,
+  SCORE_CUTOFF_RULE,
+  getRuleSet,
+  getRuleSetHistory,
+  getRuleSetVersion,
+  getScorecard,
+  saveRuleSet,
+  evaluateCondition,
+  evaluateRule,
+  evaluateRuleSet
+} from '../src/services/ruleService'
+import { DEFAULT_SCORECARD } from '../src/services/scoringService'
+import type { DecisionRule, RuleSet } from '../src/types/rules'
+
+/**
+ * Test suite for ruleService module.
+ */
+describe('ruleService', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  /**
+   * Helper to build a rule with sensible defaults.
+   * @param overrides - Partial rule properties to override defaults
+   * @returns Complete DecisionRule object
+   */
+  const createRule = (overrides: Partial<DecisionRule> = {}): DecisionRule => ({
+    id: 'rule-1',
+    name: 'Small loans',
+    combinator: 'and',
+    conditions: [{ field: 'amount', operator: 'lte', value: 10000 }],
+    outcome: 'approve',
+    ...overrides
+  })
+
+  /**
+   * Tests for rule set storage and versioning.
+   */
+  describe('storage', () => {
+    /**
+     * Verifies the built-in versions are used when nothing is stored.
+     * @test {getRuleSet}
+     */
+    it('returns the built-in rule sets when nothing is stored', () => {
+      expect(getRuleSetVersion(1)).toEqual(DEFAULT_RULE_SET)
+      expect(DEFAULT_RULE_SET.affordability).toBeUndefined()
+      expect(DEFAULT_RULE_SET.scorecard).toBeUndefined()
+      expect(getRuleSetVersion(2)).toEqual({
+        ...DEFAULT_RULE_SET,
+        version: 2,
+        affordability: DEFAULT_AFFORDABILITY,
+        upgrade: 'affordability'
+      })
+      expect(getRuleSet()).toEqual({
+        ...DEFAULT_RULE_SET,
+        version: 3,
+        rules: [SCORE_CUTOFF_RULE, ...DEFAULT_RULE_SET.rules],
+        affordability: DEFAULT_AFFORDABILITY,
+        scorecard: DEFAULT_SCORECARD,
+        upgrade: 'credit-score'
+      })
+      expect(localStorage.getItem('tredgate_rule_sets')).toBeNull()
+    })
+
+    /**
+     * Verifies a stored history gets the built-in upgrades once, on top of its latest version.
+     * @test {getRuleSetHistory}
+     */
+    it('appends the built-in upgrades to a stored history', () => {
+      const edited: RuleSet = { ...DEFAULT_RULE_SET, version: 2, rules: [createRule()], defaultOutcome: 'refer' }
+      localStorage.setItem('tredgate_rule_sets', JSON.stringify([DEFAULT_RULE_SET, edited]))
+
+      const history = getRuleSetHistory()
+
+      expect(history).toHaveLength(4)
+      expect(history[1]).toEqual(edited)
+      expect(history[2]).toMatchObject({
+        version: 3,
+        rules: [createRule()],
+        defaultOutcome: 'refer',
+        affordability: DEFAULT_AFFORDABILITY,
+        upgrade: 'affordability'
+      })
+      expect(history[3]).toMatchObject({
+        version: 4,
+        rules: [SCORE_CUTOFF_RULE, createRule()],
+        scorecard: DEFAULT_SCORECARD,
+        upgrade: 'credit-score'
+      })
+      expect(JSON.parse(localStorage.getItem('tredgate_rule_sets') ?? '[]')).toEqual(history)
+
+      // Removing the limit afterwards is not undone by the upgrade
+      expect(saveRuleSet({ rules: [], defaultOutcome: 'approve' }).version).toBe(5)
+      expect(getRuleSet().affordability).toBeUndefined()
+      expect(getRuleSetHistory()).toHaveLength(5)
+    })
+
+    /**
+     * Verifies saving creates a new version and keeps the previous ones.
+     * @test {saveRuleSet}
+     */
+    it('saves a new version and keeps history', () => {
+      const saved = saveRuleSet({ rules: [createRule()], defaultOutcome: 'refer' })
+
+      expect(saved.version).toBe(4)
+      expect(getRuleSet()).toEqual(saved)
+      expect(getRuleSetHistory()).toHaveLength(4)
+      expect(getRuleSetVersion(1)).toEqual(DEFAULT_RULE_SET)
+    })
+
+    /**
+     * Verifies rules without a name are rejected.
+     * @test {saveRuleSet}
+     */
+    it('throws error for a rule without a name', () => {
+      expect(() =>
+        saveRuleSet({ rules: [createRule({ name: ' ' })], defaultOutcome: 'reject' })
+      ).toThrow('Rule 1 must have a name')
+    })
+
+    /**
+     * Verifies rules without conditions are rejected.
+     * @test {saveRuleSet}
+     */
+    it('throws error for a rule without conditions', () => {
+      expect(() =>
+        saveRuleSet({ rules: [createRule({ conditions: [] })], defaultOutcome: 'reject' })
+      ).toThrow('Rule "Small loans" must have at least one condition')
+    })
+
+    /**
+     * Verifies the debt-to-income limit is saved with the rule set and validated.
+     * @test {saveRuleSet}
+     */
+    it('saves the debt-to-income limit', () => {
+      const saved = saveRuleSet({
+        rules: [],
+        defaultOutcome: 'approve',
+        affordability: { maxDti: 0.35, outcome: 'reject' }
+      })
+
+      expect(saved.affordability).toEqual({ maxDti: 0.35, outcome: 'reject' })
+      expect(saveRuleSet({ rules: [], defaultOutcome: 'approve' }).affordability).toBeUndefined()
+      expect(() =>
+        saveRuleSet({ rules: [], defaultOutcome: 'approve', affordability: { maxDti: 0, outcome: 'refer' } })
+      ).toThrow('The maximum debt-to-income ratio must be greater than 0')
+      expect(() =>
+        saveRuleSet({
+          rules: [],
+          defaultOutcome: 'approve',
+          affordability: { maxDti: 0.4, outcome: 'approve' as 'refer' }
+        })
+      ).toThrow('Loans above the debt-to-income limit must be rejected or referred, not approve')
+    })
+
+    /**
+     * Verifies the scorecard is saved with the rule set and validated.
+     * @test {saveRuleSet}
+     */
+    it('saves the scorecard', () => {
+      const scorecard = { ...DEFAULT_SCORECARD, baseScore: 450 }
+
+      expect(getScorecard().baseScore).toBe(500)
+      expect(getScorecard(saveRuleSet({ rules: [], defaultOutcome: 'approve', scorecard })).baseScore).toBe(450)
+      expect(getScorecard(saveRuleSet({ rules: [], defaultOutcome: 'approve' }))).toEqual(DEFAULT_SCORECARD)
+      expect(() =>
+        saveRuleSet({ rules: [], defaultOutcome: 'approve', scorecard: { ...scorecard, baseScore: NaN } })
+      ).toThrow('Every score, points and cut-off value of the scorecard must be a number')
+      expect(() =>
+        saveRuleSet({
+          rules: [],
+          defaultOutcome: 'approve',
+          scorecard: { ...scorecard, bands: [{ band: 'A', minScore: 600 }, { band: 'B', minScore: 650 }] }
+        })
+      ).toThrow('Band B must start at a lower score than band A')
+    })
+
+    /**
+     * Verifies corrupt stored data falls back to the built-in rule sets.
+     * @test {getRuleSet}
+     */
+    it('falls back to the built-in rule sets for corrupt data', () => {
+      localStorage.setItem('tredgate_rule_sets', '{not json')
+
+      expect(getRuleSet()).toMatchObject({ version: 3, upgrade: 'credit-score' })
+    })
+  })
+
+  /**
+   * Tests for evaluateCondition() function.
+   */
+  describe('evaluateCondition', () => {
+    /**
+     * Verifies each numeric operator compares against the threshold.
+     * @test {evaluateCondition}
+     */
+    it('supports all comparison operators', () => {
+      const facts = { amount: 100 }
+
+      expect(evaluateCondition({ field: 'amount', operator: 'lt', value: 101 }, facts)).toBe(true)
+      expect(evaluateCondition({ field: 'amount', operator: 'lte', value: 100 }, facts)).toBe(true)
+      expect(evaluateCondition({ field: 'amount', operator: 'gt', value: 100 }, facts)).toBe(false)
+      expect(evaluateCondition({ field: 'amount', operator: 'gte', value: 100 }, facts)).toBe(true)
+      expect(evaluateCondition({ field: 'amount', operator: 'eq', value: 100 }, facts)).toBe(true)
+      expect(evaluateCondition({ field: 'amount', operator: 'neq', value: 100 }, facts)).toBe(false)
+    })
+
+    /**
+     * Verifies conditions on fields the loan does not have never match.
+     * @test {evaluateCondition}
+     */
+    it('does not match missing fields', () => {
+      expect(evaluateCondition({ field: 'income', operator: 'gte', value: 0 }, { amount: 1 })).toBe(false)
+    })
+  })
+
+  /**
+   * Tests for evaluateRule() and evaluateRuleSet() functions.
+   */
+  describe('evaluateRuleSet', () => {
+    const ruleSet: RuleSet = {
+      version: 3,
+      updatedAt: '2024-01-01T00:00:00.000Z',
+      rules: [
+        createRule({
+          id: 'refer-long',
+          name: 'Long terms',
+          combinator: 'or',
+          conditions: [
+            { field: 'termMonths', operator: 'gt', value: 60 },
+            { field: 'interestRate', operator: 'gt', value: 0.2 }
+          ],
+          outcome: 'refer'
+        }),
+        createRule({ id: 'approve-small' })
+      ],
+      defaultOutcome: 'reject'
+    }
+
+    /**
+     * Verifies AND requires every condition and OR requires any condition.
+     * @test {evaluateRule}
+     */
+    it('combines conditions with AND and OR', () => {
+      const andRule = createRule({
+        conditions: [
+          { field: 'amount', operator: 'lte', value: 10000 },
+          { field: 'termMonths', operator: 'lte', value: 12 }
+        ]
+      })
+      const orRule = { ...andRule, combinator: 'or' as const }
+      const facts = { amount: 5000, termMonths: 24 }
+
+      expect(evaluateRule(andRule, facts)).toBe(false)
+      expect(evaluateRule(orRule, facts)).toBe(true)
+    })
+
+    /**
+     * Verifies the first matching rule decides.
+     * @test {evaluateRuleSet}
+     */
+    it('uses the first matching rule', () => {
+      const result = evaluateRuleSet(ruleSet, { amount: 5000, termMonths: 72, interestRate: 0.05 })
+
+      expect(result.outcome).toBe('refer')
+      expect(result.rule?.id).toBe('refer-long')
+    })
+
+    /**
+     * Verifies each evaluated condition is recorded with actual value and threshold.
+     * Rules after the matching rule are not evaluated.
+     * @test {evaluateRuleSet}
+     */
+    it('records checks for every evaluated rule', () => {
+      const result = evaluateRuleSet(ruleSet, { amount: 5000, termMonths: 24, interestRate: 0.05 })
+
+      expect(result.rule?.id).toBe('approve-small')
+      expect(result.checks).toEqual([
+        { ruleId: 'refer-long', ruleName: 'Long terms', field: 'termMonths', operator: 'gt', threshold: 60, actual: 24, passed: false },
+        { ruleId: 'refer-long', ruleName: 'Long terms', field: 'interestRate', operator: 'gt', threshold: 0.2, actual: 0.05, passed: false },
+        { ruleId: 'approve-small', ruleName: 'Small loans', field: 'amount', operator: 'lte', threshold: 10000, actual: 5000, passed: true }
+      ])
+    })
+
+    /**
+     * Verifies the default outcome applies when no rule matches.
+     * @test {evaluateRuleSet}
+     */
+    it('falls back to the default outcome', () => {
+      const result = evaluateRuleSet(ruleSet, { amount: 50000, termMonths: 24, interestRate: 0.05 })
+
+      expect(result.outcome).toBe('reject')
+      expect(result.rule).toBeNull()
+    })
+
+    /**
+     * Verifies the debt-to-income limit decides before any rule.
+     * @test {evaluateRuleSet}
+     */
+    it('checks the debt-to-income limit first', () => {
+      const limited: RuleSet = { ...ruleSet, affordability: { maxDti: 0.4, outcome: 'reject' } }
+
+      const result = evaluateRuleSet(limited, { amount: 5000, termMonths: 12, interestRate: 0.05, dti: 0.52 })
+
+      expect(result.outcome).toBe('reject')
+      expect(result.rule?.id).toBe(AFFORDABILITY_RULE_ID)
+      expect(result.checks).toEqual([expect.objectContaining({
+        ruleId: AFFORDABILITY_RULE_ID,
+        field: 'dti',
+        operator: 'gt',
+        threshold: 0.4,
+        actual: 0.52,
+        passed: true
+      })])
+    })
+
+    /**
+     * Verifies loans within the limit, or without a ratio, go on to the rules.
+     * @test {evaluateRuleSet}
+     */
+    it('continues with the rules within the limit', () => {
+      const limited: RuleSet = { ...ruleSet, affordability: { maxDti: 0.4, outcome: 'reject' } }
+
+      expect(evaluateRuleSet(limited, { amount: 5000, termMonths: 12, interestRate: 0.05, dti: 0.3 }).rule?.id)
+        .toBe('approve-small')
+      expect(evaluateRuleSet(limited, { amount: 5000, termMonths: 12, interestRate: 0.05 }).rule?.id)
+        .toBe('approve-small')
+    })
+  })
+})
@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Unit tests for the scoringService module.
+ * Tests collecting the scored attributes, adding up the scorecard points
+ * assigning score bands and telling scores without applicant data apart.
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_SCORECARD,
+  ageOn,
+  calculateScore,
+  getScoreBand,
+  getScoringFacts,
+  hasApplicantData
+} from '../src/services/scoringService'
+
+/**
+ * Test suite for scoringService module.
+ */
+describe('scoringService', () => {
+  /**
+   * Tests for getScoringFacts() and ageOn() functions.
+   */
+  describe('getScoringFacts', () => {
+    /**
+     * Verifies the age only goes up on the birthday.
+     * @test {ageOn}
+     */
+    it('calculates the age in whole years', () => {
+      expect(ageOn('1985-06-15', new Date(2025, 5, 14))).toBe(39)
+      expect(ageOn('1985-06-15', new Date(2025, 5, 15))).toBe(40)
+    })
+
+    /**
+     * Verifies attributes come from the loan, its affordability and the applicant.
+     * @test {getScoringFacts}
+     */
+    it('collects the attributes of the loan and applicant', () => {
+      const loan = { amount: 12000, termMonths: 12, interestRate: 0, monthlyIncome: 4000 }
+
+      expect(getScoringFacts(loan, { dateOfBirth: '1985-06-15', employment: 'employed' }, new Date(2025, 5, 15)))
+        .toEqual({ age: 40, employment: 'employed', monthlyIncome: 4000, dti: 0.25, amount: 12000, termMonths: 12 })
+      expect(getScoringFacts({ amount: 12000, termMonths: 12, interestRate: 0 }))
+        .toEqual({ age: null, employment: null, monthlyIncome: null, dti: null, amount: 12000, termMonths: 12 })
+    })
+  })
+
+  /**
+   * Tests for calculateScore() and getScoreBand() functions.
+   */
+  describe('calculateScore', () => {
+    /**
+     * Verifies the points of the matching bins are added to the base score.
+     * @test {calculateScore}
+     */
+    it('adds the points of every attribute to the base score', () => {
+      const result = calculateScore(DEFAULT_SCORECARD, {
+        age: 40,
+        employment: 'employed',
+        monthlyIncome: 4000,
+        dti: 0.25,
+        amount: 20000,
+        termMonths: 36
+      })
+
+      expect(result.score).toBe(730)
+      expect(result.band).toBe('A')
+      expect(result.contributions).toEqual([
+        { attribute: 'age', value: 40, points: 45 },
+        { attribute: 'employment', value: 'employed', points: 50 },
+        { attribute: 'monthlyIncome', value: 4000, points: 45 },
+        { attribute: 'dti', value: 0.25, points: 50 },
+        { attribute: 'amount', value: 20000, points: 20 },
+        { attribute: 'termMonths', value: 36, points: 20 }
+      ])
+    })
+
+    /**
+     * Verifies unknown values get the attribute's missing points.
+     * @test {calculateScore}
+     */
+    it('gives unknown values the missing points', () => {
+      const result = calculateScore(DEFAULT_SCORECARD, {
+        age: null,
+        employment: null,
+        monthlyIncome: null,
+        dti: null,
+        amount: 150000,
+        termMonths: 72
+      })
+
+      expect(result.score).toBe(545)
+      expect(result.band).toBe('D')
+    })
+
+    /**
+     * Verifies scores below every cut-off get the last band.
+     * @test {getScoreBand}
+     */
+    it('assigns the band of the first cut-off reached', () => {
+      expect(getScoreBand(DEFAULT_SCORECARD, 720)).toBe('A')
+      expect(getScoreBand(DEFAULT_SCORECARD, 719)).toBe('B')
+      expect(getScoreBand(DEFAULT_SCORECARD, -50)).toBe('E')
+    })
+
+    /**
+     * Verifies a score of the loan terms alone is told apart from one with applicant or income data.
+     * @test {hasApplicantData}
+     */
+    it('tells whether the applicant or income was known', () => {
+      const unknown = { age: null, employment: null, monthlyIncome: null, dti: null, amount: 12000, termMonths: 12 }
+
+      expect(hasApplicantData(calculateScore(DEFAULT_SCORECARD, unknown))).toBe(false)
+      expect(hasApplicantData(calculateScore(DEFAULT_SCORECARD, { ...unknown, monthlyIncome: 4000 }))).toBe(true)
+      expect(hasApplicantData(calculateScore(DEFAULT_SCORECARD, { ...unknown, employment: 'student' }))).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,302 @@
+/**
+ * @fileoverview Unit tests for the pluggable storage layer.
+ * Tests the localStorage, in-memory and cached (asynchronous backend) adapters,
+ * the HTTP backend, backend selection, reporting storage failures and services
+ * using the active adapter.
+ */
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import {
+  createCachedStorageAdapter,
+  createLocalStorageAdapter,
+  createMemoryStorageAdapter,
+  getStorage,
+  setStorage
+} from '../src/services/storage'
+import type { AsyncStorageBackend } from '../src/services/storage'
+import { createHttpBackend } from '../src/services/httpStorage'
+import {
+  getStorageError,
+  initStorage,
+  reportStorageError,
+  subscribeToStorageErrors
+} from '../src/services/storageSetup'
+import { createLoanApplication, getLoans, subscribeToLoanChanges } from '../src/services/loanService'
+
+/**
+ * Create an in-memory asynchronous backend for testing the cached adapter.
+ * @param initial - Entries the backend starts with
+ * @returns Backend and its underlying data
+ */
+function createFakeBackend(initial: Record<string, string> = {}) {
+  const data: Record<string, string> = { ...initial }
+  const backend: AsyncStorageBackend = {
+    loadAll: vi.fn(async () => ({ ...data })),
+    set: vi.fn(async (key: string, value: string) => {
+      data[key] = value
+    }),
+    remove: vi.fn(async (key: string) => {
+      delete data[key]
+    })
+  }
+  return { backend, data }
+}
+
+/**
+ * Create two linked channels standing in for a BroadcastChannel shared by two tabs.
+ * Messages posted on one are delivered to the other.
+ * @returns Channels of the first and second tab
+ */
+function createFakeChannels() {
+  const first = new EventTarget()
+  const second = new EventTarget()
+  const link = (from: EventTarget, to: EventTarget) => Object.assign(from, {
+    postMessage: (data: unknown) => to.dispatchEvent(new MessageEvent('message', { data }))
+  }) as unknown as BroadcastChannel
+  return [link(first, second), link(second, first)] as const
+}
+
+/**
+ * Test suite for the storage layer.
+ */
+describe('storage', () => {
+  afterEach(() => {
+    setStorage(createLocalStorageAdapter())
+    localStorage.clear()
+    vi.unstubAllGlobals()
+  })
+
+  /**
+   * Tests for the synchronous adapters.
+   */
+  describe('adapters', () => {
+    /**
+     * Verifies the localStorage adapter reads and writes localStorage.
+     * @test {createLocalStorageAdapter}
+     */
+    it('stores values in localStorage', () => {
+      const adapter = createLocalStorageAdapter()
+
+      adapter.setItem('key', 'value')
+
+      expect(localStorage.getItem('key')).toBe('value')
+      adapter.removeItem('key')
+      expect(adapter.getItem('key')).toBeNull()
+    })
+
+    /**
+     * Verifies the memory adapter keeps values without touching localStorage.
+     * @test {createMemoryStorageAdapter}
+     */
+    it('keeps values in memory', () => {
+      const adapter = createMemoryStorageAdapter({ existing: '1' })
+
+      adapter.setItem('key', 'value')
+
+      expect(adapter.getItem('existing')).toBe('1')
+      expect(adapter.getItem('key')).toBe('value')
+      expect(localStorage.getItem('key')).toBeNull()
+    })
+  })
+
+  /**
+   * Tests for the cached adapter over an asynchronous backend.
+   */
+  describe('createCachedStorageAdapter', () => {
+    /**
+     * Verifies loading fills the cache from the backend.
+     * @test {createCachedStorageAdapter}
+     */
+    it('loads all entries from the backend', async () => {
+      const { backend } = createFakeBackend({ tredgate_loans: '[]' })
+      const adapter = createCachedStorageAdapter(backend)
+
+      await adapter.load()
+
+      expect(adapter.getItem('tredgate_loans')).toBe('[]')
+    })
+
+    /**
+     * Verifies writes are visible immediately and written through to the backend.
+     * @test {createCachedStorageAdapter}
+     */
+    it('writes through to the backend', async () => {
+      const { backend, data } = createFakeBackend({ old: 'x' })
+      const adapter = createCachedStorageAdapter(backend)
+
+      adapter.setItem('key', 'value')
+      adapter.removeItem('old')
+      expect(adapter.getItem('key')).toBe('value')
+
+      await adapter.flush()
+      expect(data).toEqual({ key: 'value' })
+    })
+
+    /**
+     * Verifies backend write failures are reported without losing later writes.
+     * @test {createCachedStorageAdapter}
+     */
+    it('reports write errors and keeps writing', async () => {
+      const { backend, data } = createFakeBackend()
+      vi.mocked(backend.set).mockRejectedValueOnce(new Error('offline'))
+      const onWriteError = vi.fn()
+      const adapter = createCachedStorageAdapter(backend, onWriteError)
+
+      adapter.setItem('first', '1')
+      adapter.setItem('second', '2')
+      await adapter.flush()
+
+      expect(onWriteError).toHaveBeenCalledWith(new Error('offline'))
+      expect(data).toEqual({ second: '2' })
+    })
+  })
+
+  /**
+   * Tests for change notifications from other tabs.
+   */
+  describe('cross-tab changes', () => {
+    /**
+     * Verifies the localStorage adapter reports storage events until unsubscribed.
+     * @test {createLocalStorageAdapter}
+     */
+    it('reports localStorage changes from other tabs', () => {
+      const listener = vi.fn()
+      const unsubscribe = createLocalStorageAdapter().subscribe!(listener)
+
+      window.dispatchEvent(new StorageEvent('storage', { key: 'tredgate_loans', storageArea: localStorage }))
+      unsubscribe()
+      window.dispatchEvent(new StorageEvent('storage', { key: 'tredgate_loans', storageArea: localStorage }))
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith('tredgate_loans')
+    })
+
+    /**
+     * Verifies writes to one cached adapter update the cache of another tab.
+     * @test {createCachedStorageAdapter}
+     */
+    it('keeps cached adapters of several tabs in sync', () => {
+      const [firstChannel, secondChannel] = createFakeChannels()
+      const first = createCachedStorageAdapter(createFakeBackend().backend, undefined, firstChannel)
+      const second = createCachedStorageAdapter(createFakeBackend().backend, undefined, secondChannel)
+      const listener = vi.fn()
+      second.subscribe!(listener)
+
+      first.setItem('tredgate_loans', '[1]')
+      expect(second.getItem('tredgate_loans')).toBe('[1]')
+
+      first.removeItem('tredgate_loans')
+      expect(second.getItem('tredgate_loans')).toBeNull()
+      expect(listener).toHaveBeenCalledTimes(2)
+    })
+
+    /**
+     * Verifies loan subscribers are only notified about the loans key.
+     * @test {subscribeToLoanChanges}
+     */
+    it('notifies loan subscribers about loan changes only', () => {
+      const [firstChannel, secondChannel] = createFakeChannels()
+      const first = createCachedStorageAdapter(createFakeBackend().backend, undefined, firstChannel)
+      setStorage(createCachedStorageAdapter(createFakeBackend().backend, undefined, secondChannel))
+      const listener = vi.fn()
+      subscribeToLoanChanges(listener)
+
+      first.setItem('tredgate_actor', 'Jane')
+      first.setItem('tredgate_loans', '[]')
+
+      expect(listener).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  /**
+   * Tests for the HTTP backend.
+   */
+  describe('createHttpBackend', () => {
+    /**
+     * Verifies the backend calls the key/value endpoints.
+     * @test {createHttpBackend}
+     */
+    it('calls the storage endpoints', async () => {
+      const fetchMock = vi.fn(async () => new Response(JSON.stringify({ a: '1' }), { status: 200 }))
+      vi.stubGlobal('fetch', fetchMock)
+      const backend = createHttpBackend('http://localhost:3001/')
+
+      expect(await backend.loadAll()).toEqual({ a: '1' })
+      await backend.set('tredgate_loans', '[]')
+      await backend.remove('tredgate_loans')
+
+      expect(fetchMock).toHaveBeenNthCalledWith(1, 'http://localhost:3001/storage', undefined)
+      expect(fetchMock).toHaveBeenNthCalledWith(2, 'http://localhost:3001/storage/tredgate_loans', expect.objectContaining({ method: 'PUT', body: '[]' }))
+      expect(fetchMock).toHaveBeenNthCalledWith(3, 'http://localhost:3001/storage/tredgate_loans', { method: 'DELETE' })
+    })
+
+    /**
+     * Verifies failed responses are turned into errors.
+     * @test {createHttpBackend}
+     */
+    it('throws for failed responses', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 500 })))
+      const backend = createHttpBackend('http://localhost:3001')
+
+      await expect(backend.loadAll()).rejects.toThrow('Storage request failed: GET /storage (500)')
+    })
+  })
+
+  /**
+   * Tests for backend selection at app start.
+   */
+  describe('initStorage', () => {
+    /**
+     * Verifies the selected adapter becomes the active one used by the services.
+     * @test {initStorage}
+     */
+    it('makes the services use the selected backend', async () => {
+      const adapter = await initStorage('memory')
+
+      createLoanApplication({ applicantName: 'In Memory', amount: 1000, termMonths: 12, interestRate: 0.05 })
+
+      expect(getStorage()).toBe(adapter)
+      expect(getLoans()).toHaveLength(1)
+      expect(localStorage.getItem('tredgate_loans')).toBeNull()
+    })
+
+    /**
+     * Verifies the HTTP backend is loaded before the adapter is returned.
+     * @test {initStorage}
+     */
+    it('loads the HTTP backend before resolving', async () => {
+      const stored = JSON.stringify([{ id: '1', applicantName: 'Remote', amount: 1000, termMonths: 12, interestRate: 0.05, status: 'submitted', createdAt: '2024-01-01T00:00:00.000Z' }])
+      vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ tredgate_loans: stored }), { status: 200 })))
+      vi.stubGlobal('BroadcastChannel', class extends EventTarget {
+        postMessage() {}
+      })
+
+      await initStorage('http', { url: 'http://localhost:3001' })
+
+      expect(getLoans()[0]?.applicantName).toBe('Remote')
+    })
+
+    /**
+     * Verifies unknown backends are refused.
+     * @test {initStorage}
+     */
+    it('throws for unknown backends', async () => {
+      await expect(initStorage('floppy' as never)).rejects.toThrow('Unknown storage backend "floppy"')
+    })
+
+    /**
+     * Verifies storage failures are kept and passed to the listeners.
+     * @test {reportStorageError}
+     */
+    it('reports storage failures', () => {
+      const listener = vi.fn()
+      const unsubscribe = subscribeToStorageErrors(listener)
+
+      reportStorageError('write')
+      unsubscribe()
+      reportStorageError('init')
+
+      expect(listener.mock.calls).toEqual([['write']])
+      expect(getStorageError()).toBe('init')
+    })
+  })
+})